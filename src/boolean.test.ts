@@ -0,0 +1,141 @@
+import { TestHarness } from 'zora';
+import { of, from, ObservableInput, OperatorFunction } from 'rxjs';
+import { toArray, concatMap } from 'rxjs/operators';
+import {
+  fromSVGPathData, rectangle, oval, triangulateSubPaths, TriangleMesh, SubPath, FillRule, PathCommand,
+  unionSubPaths, intersectSubPaths, subtractSubPaths, xorSubPaths, booleanSubPaths,
+} from '../lib/index';
+
+function meshArea(mesh: TriangleMesh): number {
+  const { xBuffer, yBuffer, indexBuffer } = mesh;
+  const x = (i: number) => xBuffer.data[xBuffer.offset + i * xBuffer.stride];
+  const y = (i: number) => yBuffer.data[yBuffer.offset + i * yBuffer.stride];
+  let area = 0;
+  for (let i = 0; i < indexBuffer.data.length; i += 3) {
+    const a = indexBuffer.data[i], b = indexBuffer.data[i+1], c = indexBuffer.data[i+2];
+    area += Math.abs((x(b) - x(a)) * (y(c) - y(a)) - (x(c) - x(a)) * (y(b) - y(a))) / 2;
+  }
+  return area;
+}
+
+const parse = (pathData: string) => of(pathData).pipe( fromSVGPathData() );
+
+async function combine(a: ObservableInput<SubPath>, operator: OperatorFunction<SubPath, SubPath>) {
+  return from(a).pipe( operator, toArray() ).toPromise();
+}
+
+async function area(subPaths: SubPath[], fillRule: FillRule = 'nonzero'): Promise<number> {
+  return meshArea(await from(subPaths).pipe( triangulateSubPaths({fillRule, tolerance: 0.01}) ).toPromise());
+}
+
+async function commandTypes(subPaths: SubPath[]): Promise<string[]> {
+  return from(subPaths).pipe(
+    concatMap(subPath => from(subPath.commands)),
+    concatMap((command: PathCommand) => [command.type as string]),
+    toArray(),
+  ).toPromise();
+}
+
+const near = (a: number, b: number, epsilon: number) => Math.abs(a - b) <= epsilon;
+
+export default (t: TestHarness) => {
+
+  t.test('booleanSubPaths with polygons', async t => {
+
+    const a = 'M0,0 L100,0 L100,100 L0,100 Z';
+    const b = 'M50,50 L150,50 L150,150 L50,150 Z';
+
+    const union = await combine(parse(a), unionSubPaths(parse(b)));
+    t.eq(union.length, 1);
+    t.eq(await area(union), 17500);
+    t.eq(await area(union, 'evenodd'), 17500);
+    // eight sides, the last one left to closing the subpath
+    t.eq((await commandTypes(union)).length, 7);
+    t.ok(union[0].closed);
+
+    t.eq(await area(await combine(parse(a), intersectSubPaths(parse(b)))), 2500);
+    t.eq(await area(await combine(parse(a), subtractSubPaths(parse(b)))), 7500);
+    t.eq(await area(await combine(parse(b), subtractSubPaths(parse(a)))), 7500);
+    t.eq(await area(await combine(parse(a), xorSubPaths(parse(b)))), 15000);
+    t.eq(await area(await combine(parse(a), xorSubPaths(parse(b))), 'evenodd'), 15000);
+
+    // the direction of the outlines should not matter
+    const reversedB = 'M50,50 L50,150 L150,150 L150,50 Z';
+    t.eq(await area(await combine(parse(a), unionSubPaths(parse(reversedB)))), 17500);
+    t.eq(await area(await combine(parse(a), subtractSubPaths(parse(reversedB)))), 7500);
+
+    // shared edges
+    const adjacent = await combine(parse(a), unionSubPaths(parse('M100,0 L200,0 L200,100 L100,100 Z')));
+    t.eq(adjacent.length, 1);
+    t.eq(await area(adjacent), 20000);
+    t.eq((await commandTypes(adjacent)).length, 3, 'lines carrying straight on are merged');
+    t.eq((await combine(parse(a), unionSubPaths(parse(a)))).length, 1);
+    t.eq(await area(await combine(parse(a), unionSubPaths(parse(a)))), 10000);
+    t.eq(await combine(parse(a), subtractSubPaths(parse(a))), []);
+    t.eq(await combine(parse(a), intersectSubPaths(parse('M100,0 L200,0 L200,100 L100,100 Z'))), []);
+    t.eq(await area(await combine(parse(a), subtractSubPaths(parse('M0,0 L50,0 L50,50 L0,50 Z')))), 7500, 'shared corner');
+
+    // starts part way along a side are moved back to its corner
+    const midStart = await combine(parse('M50,0 L100,0 L100,100 L0,100 L0,0 Z'), unionSubPaths([]));
+    t.eq(midStart[0].startPoint, {x: 0, y: 0});
+    t.eq((await commandTypes(midStart)).length, 3);
+
+    // crossings within the tolerance of a corner leave no slivers
+    const nearCorner = await combine(parse(a), unionSubPaths(parse('M50,50 L100.0000001,50 L100.0000001,150 L50,150 Z')));
+    t.eq(nearCorner.length, 1);
+    t.eq((await commandTypes(nearCorner)).length, 5);
+    t.ok(near(await area(nearCorner), 12500, 0.001));
+
+    // disjoint and nested
+    t.eq((await combine(parse(a), unionSubPaths(parse('M200,0 L300,0 L300,100 L200,100 Z')))).length, 2);
+    const frame = await combine(parse(a), subtractSubPaths(parse('M25,25 L75,25 L75,75 L25,75 Z')));
+    t.eq(frame.length, 2);
+    t.eq(await area(frame), 7500);
+    t.eq(await area(frame, 'evenodd'), 7500);
+
+    // fill rules of the inputs
+    const doubled = 'M0,0 L100,0 L100,100 L0,100 Z M25,25 L75,25 L75,75 L25,75 Z';
+    t.eq(await area(await combine(parse(doubled), unionSubPaths([]))), 10000);
+    t.eq(await area(await combine(parse(doubled), unionSubPaths([], {fillRule: 'evenodd'}))), 7500);
+    t.eq(await area(await combine(parse(a), subtractSubPaths(parse(doubled), {otherFillRule: 'evenodd'}))), 2500);
+    t.eq(await area(await combine(parse('M0,0 L100,100 L100,0 L0,100 Z'), unionSubPaths([]))), 5000, 'self-intersecting bowtie');
+    t.eq(await combine([], booleanSubPaths('union', [])), []);
+
+  });
+
+  t.test('booleanSubPaths with curves', async t => {
+
+    const square = rectangle({x: 0, y: 0, width: 100, height: 100});
+    const hole = oval({centerX: 50, centerY: 50, radiusX: 30, radiusY: 30});
+    const cutOut = await combine([square], subtractSubPaths([hole]));
+    t.eq(cutOut.length, 2);
+    t.ok(near(await area(cutOut), 10000 - Math.PI * 900, 5), 'square with a round hole');
+    t.ok((await commandTypes(cutOut)).filter(type => type === 'C').length === 4, 'curves are kept');
+
+    const notch = await combine([square], subtractSubPaths([oval({centerX: 100, centerY: 50, radiusX: 30, radiusY: 30})]));
+    t.eq(notch.length, 1);
+    t.ok(near(await area(notch), 10000 - Math.PI * 450, 5), 'square with a semicircular notch');
+    t.eq((await commandTypes(notch)).filter(type => type === 'C').length, 2);
+
+    // lens between two circles
+    const r = 50, d = 50;
+    const lensArea = 2 * r * r * Math.acos(d / (2 * r)) - (d / 2) * Math.sqrt(4 * r * r - d * d);
+    const lens = await combine(
+      [oval({centerX: 0, centerY: 0, radiusX: r, radiusY: r})],
+      intersectSubPaths([oval({centerX: d, centerY: 0, radiusX: r, radiusY: r})]),
+    );
+    t.eq(lens.length, 1);
+    t.ok(near(await area(lens), lensArea, 5), 'lens');
+    t.ok((await commandTypes(lens)).every(type => type === 'C'));
+
+    // arcs are converted to cubics, quadratics are kept
+    const half = await combine(parse('M0,0 Q50,-100 100,0 Z'), intersectSubPaths(parse('M0,-100 L50,-100 L50,10 L0,10 Z')));
+    t.ok(near(await area(half), 10000 / 3 / 2, 0.5), 'half a parabola');
+    t.ok((await commandTypes(half)).includes('Q'));
+    const disc = await combine(parse('M-10,0 A10,10 0 0 0 10,0 A10,10 0 0 0 -10,0 Z'), unionSubPaths([]));
+    t.ok(near(await area(disc), Math.PI * 100, 0.5), 'arcs');
+    t.ok(!(await commandTypes(disc)).includes('A'));
+
+  });
+
+};
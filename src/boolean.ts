@@ -0,0 +1,295 @@
+
+import { OperatorFunction, Observable, ObservableInput, from, forkJoin } from 'rxjs';
+import { map, concatMap, toArray } from 'rxjs/operators';
+import { PathCommand, SubPath, FillRule, curvifySubPaths } from './index';
+import { commandGeometry, commandWinding, curveIntersections, sliceCommand } from './geometry';
+
+export type BooleanOperation = 'union' | 'intersect' | 'subtract' | 'xor';
+
+export namespace BooleanOperation {
+  export interface Options {
+    fillRule?: FillRule;
+    // fill rule for the other subpaths, if different
+    otherFillRule?: FillRule;
+  }
+}
+
+type Point = PathCommand.Point;
+
+type CurveCommand = Exclude<PathCommand, PathCommand.Arc>;
+
+interface Edge {
+  readonly shape: 0 | 1;
+  readonly startPoint: Point;
+  readonly command: CurveCommand;
+  // all the points, including both ends
+  readonly points: Point[];
+}
+
+// part of an edge between two parameters, in the direction that has the result on its left
+interface Piece {
+  readonly edge: number;
+  readonly t0: number;
+  readonly t1: number;
+  readonly reversed: boolean;
+  readonly startPoint: Point;
+  readonly endPoint: Point;
+  readonly midPoint: Point;
+}
+
+// pieces closer than this fraction of the overall size are treated as touching
+const JOIN_EPSILON = 1e-6;
+// how far either side of a piece to look, as a fraction of the overall size
+const SAMPLE_EPSILON = 1e-6;
+
+const distance = (a: Point, b: Point) => Math.sqrt((a.x - b.x) * (a.x - b.x) + (a.y - b.y) * (a.y - b.y));
+
+// whether b is on the line from a to c, between them
+function isStraight(a: Point, b: Point, c: Point, tolerance: number): boolean {
+  const length = distance(a, c);
+  if (length === 0) return false;
+  const cross = (b.x - a.x) * (c.y - a.y) - (b.y - a.y) * (c.x - a.x);
+  const dot = (b.x - a.x) * (c.x - a.x) + (b.y - a.y) * (c.y - a.y);
+  return Math.abs(cross) / length <= tolerance && dot > 0 && dot < length * length;
+}
+
+function commandPoints(startPoint: Point, command: CurveCommand): Point[] {
+  return command.type === PathCommand.Type.LINE
+    ? [startPoint, command.toPoint]
+    : [startPoint, ...command.controlPoints, command.toPoint];
+}
+
+function pointsCommand(points: readonly Point[]): CurveCommand {
+  switch (points.length) {
+    case 2: return {type: PathCommand.Type.LINE, toPoint: points[1]};
+    case 3: return {type: PathCommand.Type.QUADRATIC_CURVE, controlPoints: [points[1]], toPoint: points[2]};
+    default: return {type: PathCommand.Type.CUBIC_CURVE, controlPoints: [points[1], points[2]], toPoint: points[3]};
+  }
+}
+
+function collectEdges(input: Observable<SubPath>, shape: 0 | 1): Observable<Edge[]> {
+  return input.pipe(
+    curvifySubPaths(),
+    concatMap(subPath => from(subPath.commands).pipe(
+      toArray(),
+      map(commands => {
+        const edges = new Array<Edge>();
+        let lastPoint = subPath.startPoint;
+        const addEdge = (command: CurveCommand) => {
+          const points = commandPoints(lastPoint, command);
+          if (points.some(p => p.x !== lastPoint.x || p.y !== lastPoint.y)) {
+            edges.push({shape, startPoint: lastPoint, command, points});
+          }
+          lastPoint = command.toPoint;
+        };
+        commands.forEach(addEdge);
+        // fills are implicitly closed
+        addEdge({type: PathCommand.Type.LINE, toPoint: subPath.startPoint});
+        return edges;
+      }),
+    )),
+    toArray(),
+    map(edgeLists => ([] as Edge[]).concat(...edgeLists)),
+  );
+}
+
+function isInside(edges: readonly Edge[], shape: 0 | 1, point: Point, fillRule: FillRule): boolean {
+  let winding = 0;
+  for (const edge of edges) {
+    if (edge.shape === shape) winding += commandWinding(edge.startPoint, edge.command, point);
+  }
+  return fillRule === 'evenodd' ? (winding & 1) !== 0 : winding !== 0;
+}
+
+function sliceEdge(edge: Edge, t0: number, t1: number): {startPoint: Point, command: CurveCommand} {
+  if (t0 === 0 && t1 === 1) return edge;
+  return sliceCommand(edge.startPoint, edge.command, t0, t1);
+}
+
+function splitEdges(edges: readonly Edge[]): Array<{edge: number, t0: number, t1: number}> {
+  const splits = edges.map(() => new Array<number>());
+  for (let i = 0; i < edges.length; i++) {
+    for (let j = i + 1; j < edges.length; j++) {
+      for (const { t0, t1 } of curveIntersections(edges[i].points, edges[j].points)) {
+        splits[i].push(t0);
+        splits[j].push(t1);
+      }
+    }
+  }
+  const ranges = new Array<{edge: number, t0: number, t1: number}>();
+  splits.forEach((ts, edge) => {
+    let last = 0;
+    for (const t of ts.sort((a, b) => a - b)) {
+      if (t - last > 1e-9 && t < 1 - 1e-9) {
+        ranges.push({edge, t0: last, t1: t});
+        last = t;
+      }
+    }
+    ranges.push({edge, t0: last, t1: 1});
+  });
+  return ranges;
+}
+
+// follows pieces end to start, merging neighbouring pieces of the same edge back together
+function chainPieces(edges: readonly Edge[], pieces: readonly Piece[], tolerance: number): SubPath[] {
+  const used = pieces.map(() => false);
+  const subPaths = new Array<SubPath>();
+  for (let first = 0; first < pieces.length; first++) {
+    if (used[first]) continue;
+    used[first] = true;
+    const chain = [{...pieces[first]}];
+    let endPoint = pieces[first].endPoint;
+    while (distance(endPoint, pieces[first].startPoint) > tolerance) {
+      let next = -1, nextDistance = tolerance;
+      for (let i = 0; i < pieces.length; i++) {
+        if (used[i]) continue;
+        const d = distance(pieces[i].startPoint, endPoint);
+        if (d <= nextDistance) {
+          next = i;
+          nextDistance = d;
+        }
+      }
+      if (next === -1) break;
+      used[next] = true;
+      const piece = pieces[next], last = chain[chain.length - 1];
+      if (piece.edge === last.edge && piece.reversed === last.reversed && !piece.reversed && piece.t0 === last.t1) {
+        chain[chain.length - 1] = {...last, t1: piece.t1, endPoint: piece.endPoint};
+      }
+      else if (piece.edge === last.edge && piece.reversed === last.reversed && piece.reversed && piece.t1 === last.t0) {
+        chain[chain.length - 1] = {...last, t0: piece.t0, endPoint: piece.endPoint};
+      }
+      else {
+        chain.push({...piece});
+      }
+      endPoint = piece.endPoint;
+    }
+    const commands = new Array<CurveCommand>();
+    let lastPoint = chain[0].startPoint, lineStart = lastPoint;
+    for (const piece of chain) {
+      const { startPoint, command } = sliceEdge(edges[piece.edge], piece.t0, piece.t1);
+      const next = piece.reversed ? pointsCommand(commandPoints(startPoint, command).reverse()) : command;
+      const last = commands[commands.length - 1];
+      // lines carrying straight on from the last one, such as where another edge crossed it, are merged
+      if (last && last.type === PathCommand.Type.LINE && next.type === PathCommand.Type.LINE
+        && isStraight(lineStart, lastPoint, next.toPoint, tolerance)) {
+        commands[commands.length - 1] = next;
+      }
+      else {
+        if (next.type === PathCommand.Type.LINE) lineStart = lastPoint;
+        commands.push(next);
+      }
+      lastPoint = next.toPoint;
+    }
+    let startPoint = chain[0].startPoint;
+    // a start part way along a straight side is moved back to the corner it runs from
+    const opening = commands[0], last = commands[commands.length - 1];
+    if (commands.length > 2 && opening.type === PathCommand.Type.LINE && last.type === PathCommand.Type.LINE
+      && distance(last.toPoint, startPoint) <= tolerance) {
+      const corner = commands[commands.length - 2].toPoint;
+      if (isStraight(corner, startPoint, opening.toPoint, tolerance)) {
+        commands.pop();
+        startPoint = corner;
+      }
+    }
+    // closing the subpath draws the line back to the start
+    const closing = commands[commands.length - 1];
+    if (closing && closing.type === PathCommand.Type.LINE && distance(closing.toPoint, startPoint) <= tolerance) {
+      commands.pop();
+    }
+    subPaths.push({startPoint, commands, closed: true});
+  }
+  return subPaths;
+}
+
+function combineEdges(
+  operation: BooleanOperation,
+  edges: readonly Edge[],
+  fillRules: [FillRule, FillRule],
+): SubPath[] {
+  if (edges.length === 0) return [];
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (const edge of edges) {
+    for (const p of edge.points) {
+      minX = Math.min(minX, p.x);
+      minY = Math.min(minY, p.y);
+      maxX = Math.max(maxX, p.x);
+      maxY = Math.max(maxY, p.y);
+    }
+  }
+  const scale = Math.max(maxX - minX, maxY - minY);
+  const isResult = (point: Point) => {
+    const a = isInside(edges, 0, point, fillRules[0]), b = isInside(edges, 1, point, fillRules[1]);
+    switch (operation) {
+      case 'union': return a || b;
+      case 'intersect': return a && b;
+      case 'subtract': return a && !b;
+      case 'xor': return a !== b;
+    }
+  };
+  const pieces = new Array<Piece>();
+  for (const { edge, t0, t1 } of splitEdges(edges)) {
+    const { startPoint, command } = sliceEdge(edges[edge], t0, t1);
+    const geometry = commandGeometry(startPoint, command);
+    const midPoint = geometry.point(0.5);
+    let direction = geometry.derivative(0.5);
+    if (direction.x === 0 && direction.y === 0) {
+      direction = {x: command.toPoint.x - startPoint.x, y: command.toPoint.y - startPoint.y};
+    }
+    const length = Math.sqrt(direction.x * direction.x + direction.y * direction.y);
+    if (length === 0) continue;
+    const offset = scale * SAMPLE_EPSILON / length;
+    const left = isResult({x: midPoint.x - direction.y * offset, y: midPoint.y + direction.x * offset});
+    const right = isResult({x: midPoint.x + direction.y * offset, y: midPoint.y - direction.x * offset});
+    // only pieces with the result on one side and not the other are part of its outline
+    if (left === right) continue;
+    pieces.push({
+      edge,
+      t0,
+      t1,
+      reversed: right,
+      startPoint: right ? command.toPoint : startPoint,
+      endPoint: right ? startPoint : command.toPoint,
+      midPoint,
+    });
+  }
+  const tolerance = scale * JOIN_EPSILON;
+  // where the two shapes share an outline, keep only one copy of it, and leave out slivers
+  const unique = pieces.filter((piece, i) => !(
+    distance(piece.startPoint, piece.endPoint) <= tolerance && distance(piece.startPoint, piece.midPoint) <= tolerance
+  ) && !pieces.slice(0, i).some(other =>
+    distance(piece.startPoint, other.startPoint) <= tolerance
+    && distance(piece.endPoint, other.endPoint) <= tolerance
+    && distance(piece.midPoint, other.midPoint) <= tolerance
+  ));
+  return chainPieces(edges, unique, tolerance);
+}
+
+// combines the filled areas of the subpaths with those of the other subpaths, emitting closed subpaths
+// that outline the result on completion. arcs are converted to cubic curves but other curves are kept,
+// split exactly where the outlines cross
+export function booleanSubPaths(
+  operation: BooleanOperation,
+  other: ObservableInput<SubPath>,
+  options: BooleanOperation.Options = {},
+): OperatorFunction<SubPath, SubPath> {
+  const { fillRule = 'nonzero', otherFillRule = fillRule } = options;
+  return input => forkJoin([collectEdges(input, 0), collectEdges(from(other), 1)]).pipe(
+    concatMap(([a, b]) => combineEdges(operation, [...a, ...b], [fillRule, otherFillRule])),
+  );
+}
+
+export function unionSubPaths(other: ObservableInput<SubPath>, options?: BooleanOperation.Options): OperatorFunction<SubPath, SubPath> {
+  return booleanSubPaths('union', other, options);
+}
+
+export function intersectSubPaths(other: ObservableInput<SubPath>, options?: BooleanOperation.Options): OperatorFunction<SubPath, SubPath> {
+  return booleanSubPaths('intersect', other, options);
+}
+
+export function subtractSubPaths(other: ObservableInput<SubPath>, options?: BooleanOperation.Options): OperatorFunction<SubPath, SubPath> {
+  return booleanSubPaths('subtract', other, options);
+}
+
+export function xorSubPaths(other: ObservableInput<SubPath>, options?: BooleanOperation.Options): OperatorFunction<SubPath, SubPath> {
+  return booleanSubPaths('xor', other, options);
+}
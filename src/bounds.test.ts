@@ -0,0 +1,89 @@
+import { TestHarness } from 'zora';
+import { of, from, EMPTY } from 'rxjs';
+import { toArray } from 'rxjs/operators';
+import {
+  fromSVGPathData, rectangle, oval, boundingBox, subPathBoundingBoxes, flattenSubPaths, BoundingBox,
+} from '../lib/index';
+
+async function bounds(pathData: string, options?: BoundingBox.Options): Promise<BoundingBox[]> {
+  return of(pathData).pipe( fromSVGPathData(), subPathBoundingBoxes(options), toArray() ).toPromise();
+}
+
+function roundBox(box: BoundingBox): BoundingBox {
+  const round = (v: number) => Math.round(v * 1e6) / 1e6;
+  return {x: round(box.x), y: round(box.y), width: round(box.width), height: round(box.height)};
+}
+
+export default (t: TestHarness) => {
+
+  t.test('subPathBoundingBoxes', async t => {
+
+    t.eq(
+      await from([rectangle({x: 10, y: 20, width: 100, height: 50, radius: 5})]).pipe( subPathBoundingBoxes(), toArray() ).toPromise(),
+      [{x: 10, y: 20, width: 100, height: 50}],
+    );
+    t.eq(
+      (await from([oval({centerX: 50, centerY: 50, radiusX: 20, radiusY: 10})]).pipe( subPathBoundingBoxes(), toArray() ).toPromise()).map(roundBox),
+      [{x: 30, y: 40, width: 40, height: 20}],
+    );
+
+    t.eq(await bounds('M0,0 C0,100 100,100 100,0'), [{x: 0, y: 0, width: 100, height: 75}]);
+    t.eq(await bounds('M0,0 C0,100 100,100 100,0', {loose: true}), [{x: 0, y: 0, width: 100, height: 100}]);
+    t.eq(await bounds('M0,0 Q50,100 100,0'), [{x: 0, y: 0, width: 100, height: 50}]);
+    t.eq(await bounds('M0,0 Q50,100 100,0', {loose: true}), [{x: 0, y: 0, width: 100, height: 100}]);
+    t.eq(await bounds('M5,5'), [{x: 5, y: 5, width: 0, height: 0}]);
+    t.eq(await bounds('M0,0 L10,-10 M20,20 L25,30'), [{x: 0, y: -10, width: 10, height: 10}, {x: 20, y: 20, width: 5, height: 10}]);
+
+    t.eq((await bounds('M10,10 A50,50 0 0 0 110,10')).map(roundBox), [{x: 10, y: 10, width: 100, height: 50}]);
+    t.eq((await bounds('M10,10 A50,50 0 0 1 110,10')).map(roundBox), [{x: 10, y: -40, width: 100, height: 50}]);
+    t.eq((await bounds('M10,10 A50,50 0 0 1 110,10', {loose: true})).map(roundBox), [{x: 10, y: -40, width: 100, height: 100}]);
+    t.eq(await bounds('M10,10 A0,50 0 0 1 110,10'), [{x: 10, y: 10, width: 100, height: 0}]);
+
+    // compare against a very finely flattened version
+    for (const pathData of [
+      'M0,0 C150,-40 -50,120 100,80',
+      'M0,0 A40,20 45 1 1 30,10',
+      'M0,0 A40,20 -30 0 0 30,10',
+      'M0,0 A40,20 120 1 0 -30,-10',
+      'M0,0 A10,30 10 1 1 50,50 A10,10 0 0 0 60,60',
+    ]) {
+      const [exact] = await bounds(pathData);
+      const [approximate] = await of(pathData).pipe(
+        fromSVGPathData(),
+        flattenSubPaths({tolerance: 1e-4}),
+        subPathBoundingBoxes(),
+        toArray(),
+      ).toPromise();
+      t.ok(
+        Math.abs(exact.x - approximate.x) < 1e-3
+        && Math.abs(exact.y - approximate.y) < 1e-3
+        && Math.abs(exact.width - approximate.width) < 1e-3
+        && Math.abs(exact.height - approximate.height) < 1e-3,
+        `exact bounds: ${pathData}`,
+      );
+      const [loose] = await bounds(pathData, {loose: true});
+      t.ok(
+        loose.x <= exact.x + 1e-9 && loose.y <= exact.y + 1e-9
+        && loose.x + loose.width >= exact.x + exact.width - 1e-9
+        && loose.y + loose.height >= exact.y + exact.height - 1e-9,
+        `loose bounds contain exact bounds: ${pathData}`,
+      );
+    }
+
+  });
+
+  t.test('boundingBox', async t => {
+
+    t.eq(
+      await of('M0,0 L10,-10 M20,20 Q40,40 20,60').pipe( fromSVGPathData(), boundingBox(), toArray() ).toPromise(),
+      [{x: 0, y: -10, width: 30, height: 70}],
+    );
+    t.eq(
+      await of('M0,0 L10,-10 M20,20 Q40,40 20,60').pipe( fromSVGPathData(), boundingBox({loose: true}), toArray() ).toPromise(),
+      [{x: 0, y: -10, width: 40, height: 70}],
+    );
+    t.eq(await EMPTY.pipe( boundingBox(), toArray() ).toPromise(), []);
+
+  });
+
+}
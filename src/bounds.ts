@@ -0,0 +1,156 @@
+
+import { OperatorFunction, from, EMPTY, of } from 'rxjs';
+import { map, concatMap, reduce } from 'rxjs/operators';
+import { PathCommand, SubPath } from './index';
+import { arcCenterParameters, arcPointAtAngle, bezierPoint, unitQuadraticRoots } from './geometry';
+
+// same shape as the init object of rectangle(), and in the same order as an SVG viewBox
+export interface BoundingBox {
+  readonly x: number;
+  readonly y: number;
+  readonly width: number;
+  readonly height: number;
+}
+
+export namespace BoundingBox {
+  export interface Options {
+    // include every control point instead of finding the curve extrema, which is cheaper but may be
+    // larger than necessary (arcs contribute the bounds of their whole ellipse)
+    loose?: boolean;
+  }
+}
+
+interface Extents {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+function includePoint(extents: Extents, pt: PathCommand.Point) {
+  if (pt.x < extents.minX) extents.minX = pt.x;
+  if (pt.x > extents.maxX) extents.maxX = pt.x;
+  if (pt.y < extents.minY) extents.minY = pt.y;
+  if (pt.y > extents.maxY) extents.maxY = pt.y;
+}
+
+// is the angle within the range swept from start by sweep (which may be negative)?
+function isAngleInSweep(angle: number, start: number, sweep: number): boolean {
+  const TAU = Math.PI * 2;
+  let delta = sweep >= 0 ? angle - start : start - angle;
+  delta = ((delta % TAU) + TAU) % TAU;
+  return delta <= Math.abs(sweep);
+}
+
+function includeCommand(extents: Extents, lastPoint: PathCommand.Point, command: PathCommand, loose: boolean) {
+  includePoint(extents, command.toPoint);
+  switch (command.type) {
+    case PathCommand.Type.LINE: {
+      return;
+    }
+    case PathCommand.Type.QUADRATIC_CURVE: {
+      const points = [lastPoint, command.controlPoints[0], command.toPoint];
+      if (loose) {
+        includePoint(extents, points[1]);
+        return;
+      }
+      const [p0, p1, p2] = points;
+      for (const t of [
+        ...unitQuadraticRoots(0, 2*(p0.x - 2*p1.x + p2.x), 2*(p1.x - p0.x)),
+        ...unitQuadraticRoots(0, 2*(p0.y - 2*p1.y + p2.y), 2*(p1.y - p0.y)),
+      ]) {
+        includePoint(extents, bezierPoint(points, t));
+      }
+      return;
+    }
+    case PathCommand.Type.CUBIC_CURVE: {
+      const points = [lastPoint, command.controlPoints[0], command.controlPoints[1], command.toPoint];
+      if (loose) {
+        includePoint(extents, points[1]);
+        includePoint(extents, points[2]);
+        return;
+      }
+      const [p0, p1, p2, p3] = points;
+      // roots of the derivative, divided by 3
+      for (const t of [
+        ...unitQuadraticRoots(p3.x - 3*p2.x + 3*p1.x - p0.x, 2*(p2.x - 2*p1.x + p0.x), p1.x - p0.x),
+        ...unitQuadraticRoots(p3.y - 3*p2.y + 3*p1.y - p0.y, 2*(p2.y - 2*p1.y + p0.y), p1.y - p0.y),
+      ]) {
+        includePoint(extents, bezierPoint(points, t));
+      }
+      return;
+    }
+    case PathCommand.Type.ARC: {
+      const arc = arcCenterParameters(lastPoint, command);
+      if (!arc) return;
+      const { centerX, centerY, radiusX, radiusY, cosPhi, sinPhi } = arc;
+      if (loose) {
+        const halfWidth = Math.sqrt(radiusX*radiusX*cosPhi*cosPhi + radiusY*radiusY*sinPhi*sinPhi);
+        const halfHeight = Math.sqrt(radiusX*radiusX*sinPhi*sinPhi + radiusY*radiusY*cosPhi*cosPhi);
+        includePoint(extents, {x: centerX - halfWidth, y: centerY - halfHeight});
+        includePoint(extents, {x: centerX + halfWidth, y: centerY + halfHeight});
+        return;
+      }
+      // angles where the derivative of x or y is zero
+      const xAngle = Math.atan2(-radiusY * sinPhi, radiusX * cosPhi);
+      const yAngle = Math.atan2(radiusY * cosPhi, radiusX * sinPhi);
+      for (const angle of [xAngle, xAngle + Math.PI, yAngle, yAngle + Math.PI]) {
+        if (isAngleInSweep(angle, arc.startAngle, arc.sweepAngle)) {
+          includePoint(extents, arcPointAtAngle(arc, angle));
+        }
+      }
+      return;
+    }
+  }
+}
+
+function toBoundingBox(extents: Extents): BoundingBox {
+  return {
+    x: extents.minX,
+    y: extents.minY,
+    width: extents.maxX - extents.minX,
+    height: extents.maxY - extents.minY,
+  };
+}
+
+function subPathExtents(subPath: SubPath, loose: boolean) {
+  return from(subPath.commands).pipe(
+    reduce(
+      ({extents, lastPoint}, command) => {
+        includeCommand(extents, lastPoint, command, loose);
+        return {extents, lastPoint: command.toPoint};
+      },
+      {
+        extents: {
+          minX: subPath.startPoint.x,
+          minY: subPath.startPoint.y,
+          maxX: subPath.startPoint.x,
+          maxY: subPath.startPoint.y,
+        },
+        lastPoint: subPath.startPoint,
+      },
+    ),
+    map(({extents}) => extents),
+  );
+}
+
+// emits the bounds of each subpath
+export function subPathBoundingBoxes(options: BoundingBox.Options = {}): OperatorFunction<SubPath, BoundingBox> {
+  const loose = !!options.loose;
+  return concatMap(subPath => subPathExtents(subPath, loose).pipe( map(toBoundingBox) ));
+}
+
+// emits the bounds of all the subpaths together on completion, or nothing if there were none
+export function boundingBox(options: BoundingBox.Options = {}): OperatorFunction<SubPath, BoundingBox> {
+  const loose = !!options.loose;
+  return input => input.pipe(
+    concatMap(subPath => subPathExtents(subPath, loose)),
+    reduce<Extents, Extents | null>((all, extents) => {
+      if (!all) return {...extents};
+      includePoint(all, {x: extents.minX, y: extents.minY});
+      includePoint(all, {x: extents.maxX, y: extents.maxY});
+      return all;
+    }, null),
+    concatMap(all => all ? of(toBoundingBox(all)) : EMPTY),
+  );
+}
@@ -0,0 +1,109 @@
+import { TestHarness } from 'zora';
+import { of, from } from 'rxjs';
+import { toArray } from 'rxjs/operators';
+import { fromSVGPathData, toSVGPathData, drawSubPaths, createPathRecorder, CanvasPathMethods, SubPath } from '../lib/index';
+
+const round = (n: number) => Math.round(n * 1000) / 1000;
+
+// a context that only keeps a list of the calls made to it, rounded to make them easier to compare
+function createMockContext(): CanvasPathMethods & {calls: (string | number | boolean)[][]} {
+  const calls = new Array<(string | number | boolean)[]>();
+  const record = (name: string) => (...args: (number | boolean | undefined)[]) => {
+    calls.push([name, ...args.map(arg => typeof arg === 'number' ? round(arg) : !!arg)]);
+  };
+  return {
+    calls,
+    moveTo: record('moveTo'),
+    lineTo: record('lineTo'),
+    quadraticCurveTo: record('quadraticCurveTo'),
+    bezierCurveTo: record('bezierCurveTo'),
+    ellipse: record('ellipse'),
+    closePath: record('closePath'),
+  };
+}
+
+async function write(subPaths: SubPath[]): Promise<string> {
+  const parts = await from(subPaths).pipe( toSVGPathData({precision: 3}), toArray() ).toPromise();
+  return parts.join(' ');
+}
+
+export default (t: TestHarness) => {
+
+  t.test('drawSubPaths', async t => {
+
+    const ctx = createMockContext();
+    const drawn = await of('M0,0 L10,0 Q15,0 15,5 C15,10 10,10 5,10 Z M20,20 L30,30').pipe(
+      fromSVGPathData(),
+      drawSubPaths(ctx),
+      toArray(),
+    ).toPromise();
+    t.eq(drawn.length, 2, 'subpaths passed on');
+    t.eq(ctx.calls, [
+      ['moveTo', 0, 0],
+      ['lineTo', 10, 0],
+      ['quadraticCurveTo', 15, 0, 15, 5],
+      ['bezierCurveTo', 15, 10, 10, 10, 5, 10],
+      ['closePath'],
+      ['moveTo', 20, 20],
+      ['lineTo', 30, 30],
+    ]);
+
+    const arcs = createMockContext();
+    await of('M0,0 A10 10 0 0 1 20,0 A10 5 90 0 0 20,20 A0 5 0 0 0 30,20').pipe( fromSVGPathData(), drawSubPaths(arcs) ).toPromise();
+    t.eq(arcs.calls, [
+      ['moveTo', 0, 0],
+      ['ellipse', 10, 0, 10, 10, 0, round(Math.PI), round(Math.PI * 2), false],
+      ['ellipse', 20, 10, 10, 5, round(Math.PI / 2), round(-Math.PI), round(-Math.PI * 2), true],
+      ['lineTo', 30, 20],
+    ], 'arcs as ellipses');
+
+  });
+
+  t.test('createPathRecorder', async t => {
+
+    const recorder = createPathRecorder();
+    recorder.moveTo(0, 0);
+    recorder.lineTo(10, 0);
+    recorder.quadraticCurveTo(15, 0, 15, 5);
+    recorder.bezierCurveTo(15, 10, 10, 10, 5, 10);
+    recorder.closePath();
+    recorder.lineTo(0, -10);
+    t.eq(await write(recorder.subPaths()), 'M0,0 L10,0 Q15,0 15,5 C15,10 10,10 5,10 Z M0,0 L0,-10', 'carries on from a closed subpath');
+
+    recorder.beginPath();
+    t.eq(recorder.subPaths(), [], 'beginPath clears the path');
+    recorder.lineTo(5, 5);
+    recorder.lineTo(6, 6);
+    t.eq(await write(recorder.subPaths()), 'M5,5 L6,6', 'lineTo with no subpath only moves');
+
+    recorder.beginPath();
+    recorder.rect(0, 0, 10, 20);
+    recorder.arc(50, 50, 10, 0, Math.PI * 2);
+    t.eq(await write(recorder.subPaths()), 'M0,0 L10,0 L10,20 L0,20 Z M0,0 L60,50 A10 10 0 0 1 40,50 A10 10 0 0 1 60,50', 'rect and full circle');
+
+    recorder.beginPath();
+    recorder.arc(0, 0, 10, 0, Math.PI / 2, true);
+    t.eq(await write(recorder.subPaths()), 'M10,0 A10 10 0 1 0 0,10', 'the long way round');
+
+    recorder.beginPath();
+    recorder.moveTo(0, 0);
+    recorder.arcTo(10, 0, 10, 10, 5);
+    recorder.lineTo(10, 10);
+    t.eq(await write(recorder.subPaths()), 'M0,0 L5,0 A5 5 0 0 1 10,5 L10,10', 'arcTo');
+
+    recorder.beginPath();
+    recorder.moveTo(0, 0);
+    recorder.arcTo(10, 0, 20, 0, 5);
+    t.eq(await write(recorder.subPaths()), 'M0,0 L10,0', 'arcTo along a line');
+
+    t.throws(() => recorder.arc(0, 0, -1, 0, 1));
+
+    // drawing onto a recorder gives back the same path
+    const pathData = 'M0,0 L10,0 Q15,0 15,5 C15,10 10,10 5,10 Z M20,20 A20 10 30 1 1 40,20 A10 10 0 0 0 50,30';
+    const copy = createPathRecorder();
+    await of(pathData).pipe( fromSVGPathData(), drawSubPaths(copy) ).toPromise();
+    t.eq(await write(copy.subPaths()), pathData, 'round trip');
+
+  });
+
+};
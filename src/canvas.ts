@@ -0,0 +1,239 @@
+
+import { OperatorFunction, from } from 'rxjs';
+import { concatMap, tap, ignoreElements, endWith } from 'rxjs/operators';
+import { PathCommand, SubPath } from './index';
+import { arcCenterParameters } from './geometry';
+
+// the path methods of CanvasRenderingContext2D and Path2D that drawSubPaths() uses
+export interface CanvasPathMethods {
+  moveTo(x: number, y: number): void;
+  lineTo(x: number, y: number): void;
+  quadraticCurveTo(cpx: number, cpy: number, x: number, y: number): void;
+  bezierCurveTo(cp1x: number, cp1y: number, cp2x: number, cp2y: number, x: number, y: number): void;
+  ellipse(
+    x: number, y: number, radiusX: number, radiusY: number, rotation: number,
+    startAngle: number, endAngle: number, counterclockwise?: boolean,
+  ): void;
+  closePath(): void;
+}
+
+// the rest of the path methods, which a recorder also has to accept
+export interface CanvasPathRecorder extends CanvasPathMethods {
+  beginPath(): void;
+  arc(x: number, y: number, radius: number, startAngle: number, endAngle: number, counterclockwise?: boolean): void;
+  arcTo(x1: number, y1: number, x2: number, y2: number, radius: number): void;
+  rect(x: number, y: number, width: number, height: number): void;
+  // the path drawn since the last beginPath()
+  subPaths(): SubPath[];
+}
+
+function drawCommand(ctx: CanvasPathMethods, startPoint: PathCommand.Point, command: PathCommand) {
+  const { toPoint } = command;
+  switch (command.type) {
+    case PathCommand.Type.LINE: {
+      ctx.lineTo(toPoint.x, toPoint.y);
+      break;
+    }
+    case PathCommand.Type.QUADRATIC_CURVE: {
+      const [c] = command.controlPoints;
+      ctx.quadraticCurveTo(c.x, c.y, toPoint.x, toPoint.y);
+      break;
+    }
+    case PathCommand.Type.CUBIC_CURVE: {
+      const [c1, c2] = command.controlPoints;
+      ctx.bezierCurveTo(c1.x, c1.y, c2.x, c2.y, toPoint.x, toPoint.y);
+      break;
+    }
+    case PathCommand.Type.ARC: {
+      const arc = arcCenterParameters(startPoint, command);
+      // arcs that have no radius or go nowhere are drawn as lines, as in SVG
+      if (!arc) {
+        ctx.lineTo(toPoint.x, toPoint.y);
+        break;
+      }
+      // canvas angles go the same way as SVG ones, so the arc carries over once it has a center
+      ctx.ellipse(
+        arc.centerX, arc.centerY, arc.radiusX, arc.radiusY, Math.atan2(arc.sinPhi, arc.cosPhi),
+        arc.startAngle, arc.startAngle + arc.sweepAngle, arc.sweepAngle < 0,
+      );
+      break;
+    }
+  }
+}
+
+// adds each subpath to the current path of the context, passing it on once drawn. the context is not
+// filled or stroked, and no new path is begun, so the caller decides what happens with it afterwards
+export function drawSubPaths(ctx: CanvasPathMethods): OperatorFunction<SubPath, SubPath> {
+  return concatMap(subPath => {
+    let lastPoint = subPath.startPoint;
+    ctx.moveTo(lastPoint.x, lastPoint.y);
+    return from(subPath.commands).pipe(
+      tap(command => {
+        drawCommand(ctx, lastPoint, command);
+        lastPoint = command.toPoint;
+      }),
+      ignoreElements(),
+      endWith(subPath),
+      tap(() => {
+        if (subPath.closed) ctx.closePath();
+      }),
+    );
+  });
+}
+
+const TWO_PI = Math.PI * 2;
+
+// the sweep of a canvas arc, in the direction of increasing angle when positive
+function canvasSweep(startAngle: number, endAngle: number, counterclockwise: boolean): number {
+  if (counterclockwise) {
+    const sweep = startAngle - endAngle;
+    return sweep >= TWO_PI ? -TWO_PI : -(((sweep % TWO_PI) + TWO_PI) % TWO_PI);
+  }
+  const sweep = endAngle - startAngle;
+  return sweep >= TWO_PI ? TWO_PI : ((sweep % TWO_PI) + TWO_PI) % TWO_PI;
+}
+
+function validateRadius(radius: number) {
+  if (!(radius >= 0)) throw new Error('invalid radius: ' + radius);
+}
+
+// a context to draw on with the canvas path methods, which keeps the path as subpaths. like a canvas, it
+// carries on from the start of a closed subpath in a new one, and drawing with no subpath begins one
+export function createPathRecorder(): CanvasPathRecorder {
+  type RecordedSubPath = {startPoint: PathCommand.Point, commands: PathCommand[], closed: boolean};
+  const recorded = new Array<RecordedSubPath>();
+  let current: RecordedSubPath | null = null;
+  // where the next subpath starts once something is drawn after closing one
+  let reopenAt: PathCommand.Point | null = null;
+  let lastPoint: PathCommand.Point | null = null;
+
+  const moveTo = (x: number, y: number) => {
+    current = {startPoint: {x, y}, commands: [], closed: false};
+    recorded.push(current);
+    reopenAt = null;
+    lastPoint = {x, y};
+  };
+  const ensureSubPath = (x: number, y: number) => {
+    if (!current && !reopenAt) moveTo(x, y);
+  };
+  const add = (command: PathCommand) => {
+    if (!current) {
+      current = {startPoint: reopenAt!, commands: [], closed: false};
+      recorded.push(current);
+      reopenAt = null;
+    }
+    current.commands.push(command);
+    lastPoint = command.toPoint;
+  };
+  // with no subpath, a canvas only moves to the point
+  const lineTo = (x: number, y: number) => {
+    if (!current && !reopenAt) moveTo(x, y);
+    else add({type: PathCommand.Type.LINE, toPoint: {x, y}});
+  };
+  // the line a canvas draws to the start of an arc, left out when it would go nowhere
+  const connect = (point: PathCommand.Point, scale: number) => {
+    if (!lastPoint) {
+      moveTo(point.x, point.y);
+    }
+    else if (Math.abs(point.x - lastPoint.x) > scale * 1e-9 || Math.abs(point.y - lastPoint.y) > scale * 1e-9) {
+      lineTo(point.x, point.y);
+    }
+  };
+  const closePath = () => {
+    if (!current) return;
+    current.closed = true;
+    reopenAt = lastPoint = current.startPoint;
+    current = null;
+  };
+  const ellipse = (
+    x: number, y: number, radiusX: number, radiusY: number, rotation: number,
+    startAngle: number, endAngle: number, counterclockwise = false,
+  ) => {
+    validateRadius(radiusX);
+    validateRadius(radiusY);
+    const cos = Math.cos(rotation), sin = Math.sin(rotation);
+    const pointAt = (angle: number) => {
+      const px = Math.cos(angle) * radiusX, py = Math.sin(angle) * radiusY;
+      return {x: x + cos * px - sin * py, y: y + sin * px + cos * py};
+    };
+    connect(pointAt(startAngle), Math.max(radiusX, radiusY));
+    const sweep = canvasSweep(startAngle, endAngle, counterclockwise);
+    if (sweep === 0) return;
+    // a whole ellipse cannot be one arc command, as its endpoints would be the same
+    const parts = Math.abs(sweep) === TWO_PI ? 2 : 1;
+    for (let i = 1; i <= parts; i++) {
+      add({
+        type: PathCommand.Type.ARC,
+        radiusX,
+        radiusY,
+        rotateDegrees: rotation * 180 / Math.PI,
+        largeArcFlag: Math.abs(sweep) / parts > Math.PI,
+        sweepFlag: sweep > 0,
+        toPoint: pointAt(startAngle + sweep * i / parts),
+      });
+    }
+  };
+
+  return {
+    beginPath() {
+      recorded.length = 0;
+      current = reopenAt = lastPoint = null;
+    },
+    moveTo,
+    lineTo,
+    quadraticCurveTo(cpx, cpy, x, y) {
+      ensureSubPath(cpx, cpy);
+      add({type: PathCommand.Type.QUADRATIC_CURVE, controlPoints: [{x: cpx, y: cpy}], toPoint: {x, y}});
+    },
+    bezierCurveTo(cp1x, cp1y, cp2x, cp2y, x, y) {
+      ensureSubPath(cp1x, cp1y);
+      add({
+        type: PathCommand.Type.CUBIC_CURVE,
+        controlPoints: [{x: cp1x, y: cp1y}, {x: cp2x, y: cp2y}],
+        toPoint: {x, y},
+      });
+    },
+    ellipse,
+    arc(x, y, radius, startAngle, endAngle, counterclockwise = false) {
+      ellipse(x, y, radius, radius, 0, startAngle, endAngle, counterclockwise);
+    },
+    // the arc of the radius that touches both the line from the current point to (x1, y1) and the line
+    // from there to (x2, y2), joined to the current point by a line
+    arcTo(x1, y1, x2, y2, radius) {
+      validateRadius(radius);
+      ensureSubPath(x1, y1);
+      const p0 = lastPoint!;
+      const ax = p0.x - x1, ay = p0.y - y1, bx = x2 - x1, by = y2 - y1;
+      const lengthA = Math.sqrt(ax*ax + ay*ay), lengthB = Math.sqrt(bx*bx + by*by);
+      const cross = ax * by - ay * bx;
+      if (lengthA === 0 || lengthB === 0 || radius === 0 || cross === 0) {
+        connect({x: x1, y: y1}, Math.max(lengthA, lengthB));
+        return;
+      }
+      const angle = Math.acos(Math.max(-1, Math.min(1, (ax*bx + ay*by) / (lengthA * lengthB))));
+      const along = radius / Math.tan(angle / 2);
+      connect({x: x1 + ax / lengthA * along, y: y1 + ay / lengthA * along}, radius);
+      add({
+        type: PathCommand.Type.ARC,
+        radiusX: radius,
+        radiusY: radius,
+        rotateDegrees: 0,
+        largeArcFlag: false,
+        // turning towards increasing angle when the second line is clockwise from the first
+        sweepFlag: cross < 0,
+        toPoint: {x: x1 + bx / lengthB * along, y: y1 + by / lengthB * along},
+      });
+    },
+    rect(x, y, width, height) {
+      moveTo(x, y);
+      lineTo(x + width, y);
+      lineTo(x + width, y + height);
+      lineTo(x, y + height);
+      closePath();
+    },
+    closePath,
+    subPaths() {
+      return recorded.map(subPath => ({startPoint: subPath.startPoint, commands: [...subPath.commands], closed: subPath.closed}));
+    },
+  };
+}
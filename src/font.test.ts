@@ -0,0 +1,258 @@
+import { TestHarness } from 'zora';
+import { from, of, ObservableInput } from 'rxjs';
+import { toArray, concatMap } from 'rxjs/operators';
+import { parseFont, layoutGlyphs, textSubPaths, toSVGPathData, fromSVGPathData, SubPath, Font } from '../lib/index';
+
+const u16 = (...values: number[]) => values.flatMap(value => [(value >> 8) & 0xff, value & 0xff]);
+const u32 = (...values: number[]) => values.flatMap(value => [...u16(value >>> 16), ...u16(value & 0xffff)]);
+const text = (value: string) => Array.from(value).map(c => c.charCodeAt(0));
+
+async function pathData(subPaths: ObservableInput<SubPath>): Promise<string> {
+  const parts = await from(subPaths).pipe( toSVGPathData({precision: 3}), toArray() ).toPromise();
+  return parts.join(' ');
+}
+
+// a simple TrueType glyph, with short coordinates, unchanged coordinates and repeated flags where possible
+function simpleGlyph(contours: [number, number, boolean][][]): number[] {
+  const points = ([] as [number, number, boolean][]).concat(...contours);
+  const flags = new Array<number>(), xs = new Array<number>(), ys = new Array<number>();
+  let x = 0, y = 0;
+  for (const [px, py, onCurve] of points) {
+    let flag = onCurve ? 0x01 : 0;
+    for (const [delta, shortBit, sameBit, output] of [[px - x, 0x02, 0x10, xs], [py - y, 0x04, 0x20, ys]] as [number, number, number, number[]][]) {
+      if (delta === 0) flag |= sameBit;
+      else if (Math.abs(delta) < 256) {
+        flag |= shortBit | (delta > 0 ? sameBit : 0);
+        output.push(Math.abs(delta));
+      }
+      else output.push(...u16(delta));
+    }
+    flags.push(flag);
+    [x, y] = [px, py];
+  }
+  const packedFlags = new Array<number>();
+  for (let i = 0; i < flags.length;) {
+    let repeat = 0;
+    while (i + repeat + 1 < flags.length && flags[i + repeat + 1] === flags[i]) repeat++;
+    packedFlags.push(...(repeat ? [flags[i] | 0x08, repeat] : [flags[i]]));
+    i += repeat + 1;
+  }
+  let end = -1;
+  const ends = contours.map(contour => end += contour.length);
+  return [...u16(contours.length, 0, 0, 0, 0, ...ends, 0), ...packedFlags, ...xs, ...ys];
+}
+
+function sfnt(signature: number, tables: [string, number[]][]): Uint8Array {
+  const bytes = u32(signature).concat(u16(tables.length, 0, 0, 0));
+  let offset = 12 + tables.length * 16;
+  const data = new Array<number>();
+  for (const [name, table] of tables) {
+    bytes.push(...text(name), ...u32(0, offset, table.length));
+    const padded = table.concat(new Array<number>((4 - table.length % 4) % 4).fill(0));
+    data.push(...padded);
+    offset += padded.length;
+  }
+  return new Uint8Array(bytes.concat(data));
+}
+
+function woff(flavor: number, tables: [string, number[], number[]?][]): Uint8Array {
+  const bytes = [...text('wOFF'), ...u32(flavor, 0), ...u16(tables.length, 0), ...new Array<number>(28).fill(0)];
+  let offset = 44 + tables.length * 20;
+  const data = new Array<number>();
+  for (const [name, table, compressed = table] of tables) {
+    bytes.push(...text(name), ...u32(offset, compressed.length, table.length, 0));
+    data.push(...compressed);
+    offset += compressed.length;
+  }
+  return new Uint8Array(bytes.concat(data));
+}
+
+const GLYPH_COUNT = 5;
+
+// the common tables: 1000 units per em, with glyphs for A, O, P and Q
+function metricTables(indexToLocFormat: number): [string, number[]][] {
+  const head = new Array<number>(54).fill(0);
+  head.splice(18, 2, ...u16(1000));
+  head.splice(50, 2, ...u16(indexToLocFormat));
+  const hhea = new Array<number>(36).fill(0);
+  hhea.splice(4, 6, ...u16(800, -200 & 0xffff, 200));
+  hhea.splice(34, 2, ...u16(4));
+  // segments for A, O, P to Q through the glyph id array, and the final one
+  const cmap = [
+    ...u16(0, 1, 3, 1), ...u32(12),
+    ...u16(4, 52, 0, 8, 8, 2, 0),
+    ...u16(65, 79, 81, 0xffff, 0), ...u16(65, 79, 80, 0xffff),
+    ...u16(-64 & 0xffff, -77 & 0xffff, 0, 1), ...u16(0, 0, 4, 0),
+    ...u16(3, 4),
+  ];
+  return [
+    ['cmap', cmap],
+    ['head', head],
+    ['hhea', hhea],
+    ['hmtx', u16(500, 0, 600, 0, 700, 0, 800, 0)],
+    ['maxp', [...u32(0x5000), ...u16(GLYPH_COUNT)]],
+  ];
+}
+
+function trueTypeTables(): [string, number[]][] {
+  const glyphs = [
+    [],
+    simpleGlyph([[[0, 0, true], [100, 0, true], [100, 100, true], [0, 100, true]]]),
+    simpleGlyph([[[50, 0, false], [100, 50, false], [50, 100, false], [0, 50, false]]]),
+    // the square moved along by 200 and the other glyph at half size moved by 10
+    [...u16(-1 & 0xffff, 0, 0, 0, 0), ...u16(0x0023, 1, 200, 0), ...u16(0x000a, 2), 10, 0, ...u16(0x2000)],
+    simpleGlyph([[[0, 100, false], [0, 0, true], [300, 0, true]]]),
+  ].map(glyph => glyph.length % 2 ? glyph.concat(0) : glyph);
+  const loca = [0];
+  glyphs.forEach(glyph => loca.push(loca[loca.length - 1] + glyph.length));
+  const kern = [...u16(0, 1), ...u16(0, 20, 0x0001, 1, 6, 0, 0), ...u16(1, 2, -50 & 0xffff)];
+  return [
+    ...metricTables(0),
+    ['glyf', ([] as number[]).concat(...glyphs)],
+    ['kern', kern],
+    ['loca', u16(...loca.map(offset => offset / 2))],
+  ];
+}
+
+function charStringNumber(value: number): number[] {
+  return value >= -107 && value <= 107 ? [value + 139] : [28, ...u16(value & 0xffff)];
+}
+
+// a Type 2 charstring from numbers and operator names
+function charString(...program: (number | string)[]): number[] {
+  const operators: {[name: string]: number[]} = {
+    hstem: [1], hintmask: [19], rmoveto: [21], hmoveto: [22], rlineto: [5], rrcurveto: [8], hvcurveto: [31],
+    callsubr: [10], callgsubr: [29], return: [11], endchar: [14], mask: [0x80],
+  };
+  return ([] as number[]).concat(...program.map(part => typeof part === 'number' ? charStringNumber(part) : operators[part]));
+}
+
+function cffIndex(items: number[][]): number[] {
+  if (!items.length) return u16(0);
+  const offsets = [1];
+  items.forEach(item => offsets.push(offsets[offsets.length - 1] + item.length));
+  return [...u16(items.length), 2, ...u16(...offsets), ...([] as number[]).concat(...items)];
+}
+
+function cffTable(): number[] {
+  const charStrings = cffIndex([
+    charString('endchar'),
+    // a width before the stem hint, and a hint mask
+    charString(550, 0, 50, 'hstem', 'hintmask', 'mask', 100, 100, 'rmoveto', 200, 0, 'rlineto', 0, 200, 'rlineto', -200, 0, 'rlineto', 'endchar'),
+    charString(50, 'hmoveto', -107, 'callsubr', -107, 'callgsubr', 'endchar'),
+    charString('endchar'),
+    charString('endchar'),
+  ]);
+  const localSubrs = cffIndex([charString(100, 0, 0, 100, -100, 0, 'rrcurveto', 'return')]);
+  const globalSubrs = cffIndex([charString(-25, -25, -50, -25, 'hvcurveto', 'return')]);
+  const header = [1, 0, 4, 4];
+  const names = cffIndex([text('Test')]);
+  const strings = cffIndex([]);
+  const topDictLength = 17;
+  const charStringsOffset = header.length + names.length + (topDictLength + 7) + strings.length + globalSubrs.length;
+  const privateOffset = charStringsOffset + charStrings.length;
+  const topDict = [29, ...u32(charStringsOffset), 17, 29, ...u32(6), 29, ...u32(privateOffset), 18];
+  const privateDict = [29, ...u32(6), 19];
+  return [...header, ...names, ...cffIndex([topDict]), ...strings, ...globalSubrs, ...charStrings, ...privateDict, ...localSubrs];
+}
+
+// a kern feature with a pair of glyphs in one subtable, and classes in the next
+function gposTable(): number[] {
+  return [
+    ...u16(1, 0, 10, 12, 26),
+    ...u16(0),
+    ...u16(1), ...text('kern'), ...u16(8), ...u16(0, 1, 0),
+    ...u16(1, 4), ...u16(2, 0, 2, 10, 34),
+    ...u16(1, 18, 4, 0, 1, 12), ...u16(1, 2, -40 & 0xffff), ...u16(1, 1, 1),
+    ...u16(2, 32, 5, 0, 42, 50, 2, 2), ...u16(0, 0, 0, -10 & 0xffff, 0, 0, 99, -30 & 0xffff),
+    ...u16(2, 1, 1, 2, 0), ...u16(1, 2, 1, 1), ...u16(2, 1, 1, 1, 1),
+  ];
+}
+
+// the metrics zlib compressed along with some unused text, so that they need dynamic huffman codes
+const COMPRESSED_METRICS = [
+  120, 218, 53, 140, 209, 13, 194, 48, 12, 68, 13, 44, 114, 3, 32, 6, 96, 129, 14, 128, 132, 248, 181, 68, 104,
+  44, 154, 56, 138, 29, 33, 118, 235, 88, 29, 128, 84, 165, 31, 247, 241, 244, 238, 238, 176, 16, 29, 31, 61, 51,
+  209, 9, 68, 195, 244, 45, 17, 218, 124, 146, 28, 12, 163, 194, 188, 178, 140, 209, 33, 217, 21, 30, 3, 10, 123,
+  68, 145, 18, 214, 206, 21, 221, 103, 123, 105, 77, 171, 76, 103, 164, 192, 214, 106, 248, 83, 159, 235, 123, 3,
+  104, 197, 167, 138, 239, 212, 28, 108, 184, 221, 135, 237, 241, 201, 206, 23, 252, 0, 97, 251, 48, 239,
+];
+const UNCOMPRESSED_METRICS = [
+  ...u16(500, 0, 600, 0, 700, 0, 800, 0),
+  ...text('Glyph outlines go straight into the path pipeline: transform them, measure them, stroke them or write them out as SVG path data. '),
+];
+
+export default (t: TestHarness) => {
+
+  t.test('parseFont', async t => {
+
+    const font = parseFont(sfnt(0x00010000, trueTypeTables()));
+    t.eq([font.unitsPerEm, font.ascender, font.descender, font.lineGap, font.glyphCount], [1000, 800, -200, 200, 5]);
+    t.eq([65, 79, 80, 81, 66, 0x1f600].map(font.glyphIndex), [1, 2, 3, 4, 0, 0], 'character map');
+    t.eq([0, 3, 4].map(font.advanceWidth), [500, 800, 800], 'advance widths');
+    t.eq([font.kerning(1, 2), font.kerning(2, 1)], [-50, 0], 'kern table');
+    t.eq(await pathData(font.glyphSubPaths(0)), '');
+    t.eq(await pathData(font.glyphSubPaths(1)), 'M0,0 L100,0 L100,100 L0,100 Z');
+    t.eq(await pathData(font.glyphSubPaths(2)), 'M75,25 Q100,50 75,75 Q50,100 25,75 Q0,50 25,25 Q50,0 75,25 Z', 'implied on-curve points');
+    t.eq(await pathData(font.glyphSubPaths(3)),
+      'M200,0 L300,0 L300,100 L200,100 Z M47.5,12.5 Q60,25 47.5,37.5 Q35,50 22.5,37.5 Q10,25 22.5,12.5 Q35,0 47.5,12.5 Z',
+      'composite glyph');
+    t.eq(await pathData(font.glyphSubPaths(4)), 'M0,0 L300,0 Q0,100 0,0 Z', 'starting off the curve');
+    t.throws(() => font.glyphSubPaths(5), /invalid glyph index/);
+
+    const longLoca = trueTypeTables().map(([name, table]): [string, number[]] => {
+      if (name === 'head') return [name, [...table.slice(0, 50), ...u16(1), ...table.slice(52)]];
+      if (name === 'loca') return [name, u32(...[0, 1, 2, 3, 4, 5].map(i => (table[i * 2] * 256 + table[i * 2 + 1]) * 2))];
+      return [name, table];
+    });
+    t.eq(await pathData(parseFont(sfnt(0x00010000, longLoca)).glyphSubPaths(1)), 'M0,0 L100,0 L100,100 L0,100 Z', 'long offsets');
+
+    const cff = parseFont(sfnt(0x4f54544f, [...metricTables(0), ['CFF ', cffTable()], ['GPOS', gposTable()]]).buffer);
+    t.eq(await pathData(cff.glyphSubPaths(1)), 'M100,100 L300,100 L300,300 L100,300 Z', 'charstring with a width and hints');
+    t.eq(await pathData(cff.glyphSubPaths(2)), 'M50,0 C150,0 150,100 50,100 C25,100 0,50 0,25 Z', 'subroutines');
+    t.eq([cff.kerning(1, 2), cff.kerning(1, 1), cff.kerning(2, 1), cff.kerning(2, 2), cff.kerning(3, 1)], [-40, -10, -30, 0, 0], 'pair adjustments');
+
+    const tables = trueTypeTables().map(([name, table]): [string, number[], number[]?] =>
+      name === 'hmtx' ? [name, UNCOMPRESSED_METRICS, COMPRESSED_METRICS] : [name, table]);
+    const compressed = parseFont(woff(0x00010000, tables));
+    t.eq([0, 1, 2, 3].map(compressed.advanceWidth), [500, 600, 700, 800], 'compressed WOFF table');
+    t.eq(await pathData(compressed.glyphSubPaths(1)), 'M0,0 L100,0 L100,100 L0,100 Z');
+
+    t.throws(() => parseFont(new Uint8Array([...text('wOF2'), ...new Array<number>(44).fill(0)])), /unsupported font format: WOFF2/);
+    t.throws(() => parseFont(new Uint8Array(16)), /invalid font/);
+    t.throws(() => parseFont(sfnt(0x00010000, trueTypeTables().filter(([name]) => name !== 'hhea'))), /missing hhea table/);
+
+  });
+
+  t.test('textSubPaths', async t => {
+
+    const font = parseFont(sfnt(0x00010000, trueTypeTables()));
+    const positions = (value: string, options = {}) => layoutGlyphs(font, value, {fontSize: 100, x: 5, y: 20, ...options})
+      .map(({ glyphIndex, x, y }) => [glyphIndex, x, y]);
+    t.eq(positions('AO'), [[1, 5, 20], [2, 60, 20]], 'kerned');
+    t.eq(positions('AO', {kerning: false, letterSpacing: 2}), [[1, 5, 20], [2, 67, 20]]);
+    t.eq(positions('A\nB'), [[1, 5, 20], [0, 5, 140]], 'line breaks');
+    t.throws(() => layoutGlyphs(font, 'A', {fontSize: 0}), /invalid font size/);
+
+    t.eq(await pathData(textSubPaths(font, 'AO', {fontSize: 100, x: 5, y: 20})),
+      'M5,20 L15,20 L15,10 L5,10 Z M67.5,17.5 Q70,15 67.5,12.5 Q65,10 62.5,12.5 Q60,15 62.5,17.5 Q65,20 67.5,17.5 Z',
+      'scaled with the y axis flipped');
+
+    // a font of its own, with commands that are streamed rather than given as arrays
+    const streamedFont: Font = {
+      ...font,
+      glyphIndex: () => 1,
+      glyphSubPaths: () => [{
+        startPoint: {x: 0, y: 0},
+        commands: of('M0,0 L100,0 L0,100').pipe( fromSVGPathData(), concatMap(subPath => from(subPath.commands)) ),
+      }],
+    };
+    t.eq(
+      await pathData(textSubPaths(streamedFont, 'AA', {fontSize: 100})),
+      'M0,0 L10,0 L0,-10 Z M60,0 L70,0 L60,-10 Z',
+      'streamed glyph commands',
+    );
+
+  });
+
+};
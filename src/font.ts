@@ -0,0 +1,926 @@
+
+import { Observable, from } from 'rxjs';
+import { concatMap, map } from 'rxjs/operators';
+import { PathCommand, SubPath } from './index';
+import { Matrix2D, transformSubPaths } from './matrix';
+
+// a font read with parseFont(). glyph outlines are in font units with the y axis pointing up, as
+// they are stored; textSubPaths() scales and flips them into path coordinates
+export interface Font {
+  readonly unitsPerEm: number;
+  readonly ascender: number;
+  readonly descender: number;
+  readonly lineGap: number;
+  readonly glyphCount: number;
+  // 0, the missing glyph, for characters the font has no glyph for
+  glyphIndex(codePoint: number): number;
+  advanceWidth(glyphIndex: number): number;
+  // the adjustment to the advance of the left glyph when followed by the right one, in font units
+  kerning(leftGlyphIndex: number, rightGlyphIndex: number): number;
+  // called once for each glyph textSubPaths() draws, with the commands read each time the glyph appears
+  glyphSubPaths(glyphIndex: number): SubPath[];
+}
+
+export interface TextLayoutOptions {
+  fontSize: number;
+  // the start of the first baseline
+  x?: number;
+  y?: number;
+  // extra space after every character, in the same units as the font size
+  letterSpacing?: number;
+  kerning?: boolean;
+  // distance between the baselines of lines of text, by default from the font's ascender, descender and line gap
+  lineHeight?: number;
+}
+
+// where the origin of a glyph goes on the baseline, in path coordinates
+export interface GlyphPosition {
+  readonly glyphIndex: number;
+  readonly x: number;
+  readonly y: number;
+}
+
+interface ContourPoint {
+  readonly x: number;
+  readonly y: number;
+  readonly onCurve: boolean;
+}
+
+interface Range {
+  readonly start: number;
+  readonly end: number;
+}
+
+function tag(view: DataView, offset: number): string {
+  return String.fromCharCode(view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3));
+}
+
+function tableView(bytes: Uint8Array): DataView {
+  return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+}
+
+interface Huffman {
+  counts: Uint16Array;
+  symbols: Uint16Array;
+}
+
+const LENGTH_BASE = [3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258];
+const LENGTH_EXTRA = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0];
+const DISTANCE_BASE = [
+  1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097,
+  6145, 8193, 12289, 16385, 24577,
+];
+const DISTANCE_EXTRA = [0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13];
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+
+// canonical codes as counts of each code length and the symbols in code order
+function huffman(lengths: ArrayLike<number>): Huffman {
+  const counts = new Uint16Array(16), offsets = new Uint16Array(16), symbols = new Uint16Array(lengths.length);
+  for (let i = 0; i < lengths.length; i++) counts[lengths[i]]++;
+  for (let length = 1; length < 15; length++) offsets[length + 1] = offsets[length] + counts[length];
+  for (let i = 0; i < lengths.length; i++) {
+    if (lengths[i]) symbols[offsets[lengths[i]]++] = i;
+  }
+  counts[0] = 0;
+  return {counts, symbols};
+}
+
+let fixedCodes: [Huffman, Huffman] | undefined;
+
+// zlib decompression for the tables of WOFF files
+function inflate(input: Uint8Array, size: number): Uint8Array {
+  if (input.length < 2 || (input[0] & 0x0f) !== 8) throw new Error('invalid font: unknown compression');
+  const output = new Uint8Array(size);
+  let position = 2, bitBuffer = 0, bitCount = 0, written = 0;
+  const bits = (n: number) => {
+    while (bitCount < n) {
+      if (position >= input.length) throw new Error('invalid font: compressed data ends early');
+      bitBuffer |= input[position++] << bitCount;
+      bitCount += 8;
+    }
+    const value = bitBuffer & ((1 << n) - 1);
+    bitBuffer >>>= n;
+    bitCount -= n;
+    return value;
+  };
+  const decode = (code: Huffman) => {
+    let bitsSoFar = 0, first = 0, index = 0;
+    for (let length = 1; length < 16; length++) {
+      bitsSoFar |= bits(1);
+      const count = code.counts[length];
+      if (bitsSoFar - count < first) return code.symbols[index + bitsSoFar - first];
+      index += count;
+      first = (first + count) << 1;
+      bitsSoFar <<= 1;
+    }
+    throw new Error('invalid font: bad compressed data');
+  };
+  const put = (byte: number) => {
+    if (written >= size) throw new Error('invalid font: compressed table is too long');
+    output[written++] = byte;
+  };
+
+  let last = 0;
+  while (!last) {
+    last = bits(1);
+    const type = bits(2);
+    if (type === 0) {
+      bitBuffer = bitCount = 0;
+      const length = input[position] | (input[position + 1] << 8);
+      if (position + 4 + length > input.length) throw new Error('invalid font: compressed data ends early');
+      for (let i = 0; i < length; i++) put(input[position + 4 + i]);
+      position += 4 + length;
+      continue;
+    }
+    let literals: Huffman, distances: Huffman;
+    if (type === 1) {
+      if (!fixedCodes) {
+        const lengths = new Array<number>(288).fill(8, 0, 144).fill(9, 144, 256).fill(7, 256, 280).fill(8, 280);
+        fixedCodes = [huffman(lengths), huffman(new Array<number>(30).fill(5))];
+      }
+      [literals, distances] = fixedCodes;
+    }
+    else if (type === 2) {
+      const literalCount = bits(5) + 257, distanceCount = bits(5) + 1, codeLengthCount = bits(4) + 4;
+      const codeLengths = new Array<number>(19).fill(0);
+      for (let i = 0; i < codeLengthCount; i++) codeLengths[CODE_LENGTH_ORDER[i]] = bits(3);
+      const lengthCode = huffman(codeLengths);
+      const lengths = new Array<number>();
+      while (lengths.length < literalCount + distanceCount) {
+        const symbol = decode(lengthCode);
+        if (symbol < 16) {
+          lengths.push(symbol);
+          continue;
+        }
+        if (symbol === 16 && !lengths.length) throw new Error('invalid font: bad compressed data');
+        const [value, repeat] = symbol === 16 ? [lengths[lengths.length - 1], 3 + bits(2)]
+          : symbol === 17 ? [0, 3 + bits(3)] : [0, 11 + bits(7)];
+        for (let i = 0; i < repeat; i++) lengths.push(value);
+      }
+      literals = huffman(lengths.slice(0, literalCount));
+      distances = huffman(lengths.slice(literalCount, literalCount + distanceCount));
+    }
+    else {
+      throw new Error('invalid font: bad compressed data');
+    }
+    for (;;) {
+      const symbol = decode(literals);
+      if (symbol < 256) {
+        put(symbol);
+        continue;
+      }
+      if (symbol === 256) break;
+      const lengthIndex = symbol - 257;
+      if (lengthIndex >= LENGTH_BASE.length) throw new Error('invalid font: bad compressed data');
+      const length = LENGTH_BASE[lengthIndex] + bits(LENGTH_EXTRA[lengthIndex]);
+      const distanceIndex = decode(distances);
+      if (distanceIndex >= DISTANCE_BASE.length) throw new Error('invalid font: bad compressed data');
+      const distance = DISTANCE_BASE[distanceIndex] + bits(DISTANCE_EXTRA[distanceIndex]);
+      if (distance > written) throw new Error('invalid font: bad compressed data');
+      for (let i = 0; i < length; i++) put(output[written - distance]);
+    }
+  }
+  if (written !== size) throw new Error('invalid font: compressed table is too short');
+  return output;
+}
+
+function readTables(bytes: Uint8Array): Map<string, DataView> {
+  const view = tableView(bytes);
+  if (bytes.length < 12) throw new Error('invalid font: too short');
+  const signature = tag(view, 0);
+  const tables = new Map<string, DataView>();
+  const addTable = (name: string, offset: number, length: number) => {
+    if (offset + length > bytes.length) throw new Error('invalid font: ' + name + ' table is out of bounds');
+    tables.set(name, tableView(bytes.subarray(offset, offset + length)));
+  };
+  if (signature === 'wOFF') {
+    const count = view.getUint16(12);
+    for (let i = 0; i < count; i++) {
+      const entry = 44 + i * 20;
+      const name = tag(view, entry), offset = view.getUint32(entry + 4);
+      const compressedLength = view.getUint32(entry + 8), length = view.getUint32(entry + 12);
+      addTable(name, offset, compressedLength);
+      // tables that would not get any smaller are stored as they are
+      if (compressedLength < length) {
+        tables.set(name, tableView(inflate(bytes.subarray(offset, offset + compressedLength), length)));
+      }
+    }
+    return tables;
+  }
+  if (signature === 'wOF2') throw new Error('unsupported font format: WOFF2');
+  if (signature === 'ttcf') throw new Error('unsupported font format: font collection');
+  if (view.getUint32(0) !== 0x00010000 && signature !== 'true' && signature !== 'OTTO') {
+    throw new Error('invalid font: unknown signature');
+  }
+  const count = view.getUint16(4);
+  for (let i = 0; i < count; i++) {
+    const entry = 12 + i * 16;
+    addTable(tag(view, entry), view.getUint32(entry + 8), view.getUint32(entry + 12));
+  }
+  return tables;
+}
+
+function requireTable(tables: Map<string, DataView>, name: string): DataView {
+  const table = tables.get(name);
+  if (!table) throw new Error('invalid font: missing ' + name.trim() + ' table');
+  return table;
+}
+
+function cmapFormat4(view: DataView, offset: number): (codePoint: number) => number {
+  const segmentCount = view.getUint16(offset + 6) / 2;
+  const ends = offset + 14, starts = ends + segmentCount * 2 + 2;
+  const deltas = starts + segmentCount * 2, rangeOffsets = deltas + segmentCount * 2;
+  return codePoint => {
+    if (codePoint > 0xffff) return 0;
+    for (let i = 0; i < segmentCount; i++) {
+      if (codePoint > view.getUint16(ends + i * 2)) continue;
+      const start = view.getUint16(starts + i * 2);
+      if (codePoint < start) return 0;
+      const delta = view.getUint16(deltas + i * 2), rangeOffset = view.getUint16(rangeOffsets + i * 2);
+      if (rangeOffset === 0) return (codePoint + delta) & 0xffff;
+      // the range offset is relative to where it is stored itself
+      const glyph = view.getUint16(rangeOffsets + i * 2 + rangeOffset + (codePoint - start) * 2);
+      return glyph === 0 ? 0 : (glyph + delta) & 0xffff;
+    }
+    return 0;
+  };
+}
+
+function cmapFormat12(view: DataView, offset: number): (codePoint: number) => number {
+  const groupCount = view.getUint32(offset + 12);
+  return codePoint => {
+    let low = 0, high = groupCount - 1;
+    while (low <= high) {
+      const middle = (low + high) >> 1, group = offset + 16 + middle * 12;
+      if (codePoint < view.getUint32(group)) high = middle - 1;
+      else if (codePoint > view.getUint32(group + 4)) low = middle + 1;
+      else return view.getUint32(group + 8) + codePoint - view.getUint32(group);
+    }
+    return 0;
+  };
+}
+
+// the best of the unicode subtables, preferring one that goes beyond the basic multilingual plane
+function characterMap(view: DataView | undefined): (codePoint: number) => number {
+  let best: ((codePoint: number) => number) | undefined, bestRank = 0;
+  const count = view ? view.getUint16(2) : 0;
+  for (let i = 0; view && i < count; i++) {
+    const platform = view.getUint16(4 + i * 8), encoding = view.getUint16(6 + i * 8);
+    const offset = view.getUint32(8 + i * 8), format = view.getUint16(offset);
+    const unicode = platform === 0 || (platform === 3 && (encoding === 1 || encoding === 10));
+    const rank = !unicode ? 0 : format === 12 ? 2 : format === 4 ? 1 : 0;
+    if (rank > bestRank) {
+      best = rank === 2 ? cmapFormat12(view, offset) : cmapFormat4(view, offset);
+      bestRank = rank;
+    }
+  }
+  return best || (() => 0);
+}
+
+function coverageIndex(view: DataView, offset: number, glyph: number): number {
+  const format = view.getUint16(offset), count = view.getUint16(offset + 2);
+  let low = 0, high = count - 1;
+  while (low <= high) {
+    const middle = (low + high) >> 1;
+    if (format === 1) {
+      const value = view.getUint16(offset + 4 + middle * 2);
+      if (glyph === value) return middle;
+      if (glyph < value) high = middle - 1;
+      else low = middle + 1;
+    }
+    else {
+      const range = offset + 4 + middle * 6;
+      if (glyph < view.getUint16(range)) high = middle - 1;
+      else if (glyph > view.getUint16(range + 2)) low = middle + 1;
+      else return view.getUint16(range + 4) + glyph - view.getUint16(range);
+    }
+  }
+  return -1;
+}
+
+function glyphClass(view: DataView, offset: number, glyph: number): number {
+  const format = view.getUint16(offset);
+  if (format === 1) {
+    const first = view.getUint16(offset + 2), count = view.getUint16(offset + 4);
+    return glyph >= first && glyph < first + count ? view.getUint16(offset + 6 + (glyph - first) * 2) : 0;
+  }
+  const count = view.getUint16(offset + 2);
+  for (let i = 0; i < count; i++) {
+    const range = offset + 4 + i * 6;
+    if (glyph >= view.getUint16(range) && glyph <= view.getUint16(range + 2)) return view.getUint16(range + 4);
+  }
+  return 0;
+}
+
+function bitCount(value: number): number {
+  let count = 0;
+  for (; value; value &= value - 1) count++;
+  return count;
+}
+
+// the x advance of the first glyph of a pair adjustment subtable, or undefined when the pair is not in it
+function pairAdjustment(view: DataView, offset: number, left: number, right: number): number | undefined {
+  const format = view.getUint16(offset);
+  const coverage = coverageIndex(view, offset + view.getUint16(offset + 2), left);
+  if (coverage < 0) return undefined;
+  const format1 = view.getUint16(offset + 4), format2 = view.getUint16(offset + 6);
+  const recordSize = 2 * (bitCount(format1) + bitCount(format2));
+  const xAdvance = (record: number) => format1 & 4 ? view.getInt16(record + 2 * bitCount(format1 & 3)) : 0;
+  if (format === 1) {
+    const pairSet = offset + view.getUint16(offset + 10 + coverage * 2);
+    let low = 0, high = view.getUint16(pairSet) - 1;
+    while (low <= high) {
+      const middle = (low + high) >> 1, record = pairSet + 2 + middle * (2 + recordSize);
+      const second = view.getUint16(record);
+      if (right === second) return xAdvance(record + 2);
+      if (right < second) high = middle - 1;
+      else low = middle + 1;
+    }
+    return undefined;
+  }
+  if (format === 2) {
+    const class1 = glyphClass(view, offset + view.getUint16(offset + 8), left);
+    const class2 = glyphClass(view, offset + view.getUint16(offset + 10), right);
+    const class2Count = view.getUint16(offset + 14);
+    return xAdvance(offset + 16 + (class1 * class2Count + class2) * recordSize);
+  }
+  return undefined;
+}
+
+// the pair adjustment subtables of the lookups of the kern feature, grouped by lookup
+function kernLookups(view: DataView): number[][] {
+  const features = view.getUint16(6), lookups = view.getUint16(8);
+  const lookupIndices = new Set<number>();
+  for (let i = 0, count = view.getUint16(features); i < count; i++) {
+    if (tag(view, features + 2 + i * 6) !== 'kern') continue;
+    const feature = features + view.getUint16(features + 6 + i * 6);
+    for (let j = 0, indexCount = view.getUint16(feature + 2); j < indexCount; j++) {
+      lookupIndices.add(view.getUint16(feature + 4 + j * 2));
+    }
+  }
+  return Array.from(lookupIndices).sort((a, b) => a - b).map(index => {
+    const lookup = lookups + view.getUint16(lookups + 2 + index * 2);
+    const type = view.getUint16(lookup);
+    const subtables = new Array<number>();
+    for (let i = 0, count = view.getUint16(lookup + 4); i < count; i++) {
+      const subtable = lookup + view.getUint16(lookup + 6 + i * 2);
+      // extension subtables point on to the real one with a 32 bit offset
+      if (type === 9 && view.getUint16(subtable + 2) === 2) subtables.push(subtable + view.getUint32(subtable + 4));
+      else if (type === 2) subtables.push(subtable);
+    }
+    return subtables;
+  });
+}
+
+// the horizontal pairs of the format 0 subtables of a version 0 kern table
+function kernPairs(view: DataView): Map<number, number> {
+  const pairs = new Map<number, number>();
+  if (view.getUint16(0) !== 0) return pairs;
+  let subtable = 4;
+  for (let i = 0, count = view.getUint16(2); i < count; i++) {
+    const length = view.getUint16(subtable + 2), coverage = view.getUint16(subtable + 4);
+    if (coverage >> 8 === 0 && (coverage & 0x07) === 1) {
+      for (let j = 0, pairCount = view.getUint16(subtable + 6); j < pairCount; j++) {
+        const pair = subtable + 14 + j * 6;
+        const key = view.getUint16(pair) * 0x10000 + view.getUint16(pair + 2);
+        pairs.set(key, (pairs.get(key) || 0) + view.getInt16(pair + 4));
+      }
+    }
+    subtable += length;
+  }
+  return pairs;
+}
+
+function kerningFunction(tables: Map<string, DataView>): (left: number, right: number) => number {
+  const gpos = tables.get('GPOS');
+  const lookups = gpos ? kernLookups(gpos) : [];
+  if (gpos && lookups.length) {
+    // every lookup adds its adjustment, from the first of its subtables that has the pair
+    return (left, right) => lookups.reduce((total, subtables) => {
+      for (const subtable of subtables) {
+        const value = pairAdjustment(gpos, subtable, left, right);
+        if (value !== undefined) return total + value;
+      }
+      return total;
+    }, 0);
+  }
+  const kern = tables.get('kern');
+  const pairs = kern ? kernPairs(kern) : new Map<number, number>();
+  return (left, right) => pairs.get(left * 0x10000 + right) || 0;
+}
+
+function midpoint(a: PathCommand.Point, b: PathCommand.Point): PathCommand.Point {
+  return {x: (a.x + b.x) / 2, y: (a.y + b.y) / 2};
+}
+
+// a closed subpath that ends with a line back to its start leaves the line implicit
+function closedSubPath(startPoint: PathCommand.Point, commands: PathCommand[]): SubPath {
+  const last = commands[commands.length - 1];
+  if (last && last.type === PathCommand.Type.LINE && last.toPoint.x === startPoint.x && last.toPoint.y === startPoint.y) {
+    commands.pop();
+  }
+  return {startPoint, commands, closed: true};
+}
+
+// between two off-curve points of a TrueType contour there is an implied on-curve point halfway
+function contourSubPath(points: readonly ContourPoint[]): SubPath | null {
+  if (points.length < 2) return null;
+  const first = points.findIndex(point => point.onCurve);
+  const startPoint = first >= 0 ? points[first] : midpoint(points[0], points[1]);
+  const rest = first >= 0 ? [...points.slice(first + 1), ...points.slice(0, first)] : [...points.slice(1), points[0]];
+  const commands = new Array<PathCommand>();
+  let control: PathCommand.Point | null = null;
+  for (const point of [...rest, {x: startPoint.x, y: startPoint.y, onCurve: true}]) {
+    const toPoint = {x: point.x, y: point.y};
+    if (!point.onCurve) {
+      if (control) commands.push({type: PathCommand.Type.QUADRATIC_CURVE, controlPoints: [control], toPoint: midpoint(control, toPoint)});
+      control = toPoint;
+    }
+    else if (control) {
+      commands.push({type: PathCommand.Type.QUADRATIC_CURVE, controlPoints: [control], toPoint});
+      control = null;
+    }
+    else {
+      commands.push({type: PathCommand.Type.LINE, toPoint});
+    }
+  }
+  return closedSubPath({x: startPoint.x, y: startPoint.y}, commands);
+}
+
+const MAX_COMPONENT_DEPTH = 8;
+
+function trueTypeOutlines(tables: Map<string, DataView>, glyphCount: number, longOffsets: boolean): (glyphIndex: number) => SubPath[] {
+  const loca = requireTable(tables, 'loca'), glyf = requireTable(tables, 'glyf');
+  const glyphRange = (glyph: number): Range => longOffsets
+    ? {start: loca.getUint32(glyph * 4), end: loca.getUint32(glyph * 4 + 4)}
+    : {start: loca.getUint16(glyph * 2) * 2, end: loca.getUint16(glyph * 2 + 2) * 2};
+
+  const simpleContours = (offset: number, contourCount: number): ContourPoint[][] => {
+    const ends = new Array<number>();
+    for (let i = 0; i < contourCount; i++) ends.push(glyf.getUint16(offset + 10 + i * 2));
+    const pointCount = contourCount ? ends[contourCount - 1] + 1 : 0;
+    let position = offset + 10 + contourCount * 2;
+    position += 2 + glyf.getUint16(position);
+    const flags = new Array<number>();
+    while (flags.length < pointCount) {
+      const flag = glyf.getUint8(position++);
+      flags.push(flag);
+      if (flag & 0x08) {
+        for (let repeat = glyf.getUint8(position++); repeat > 0; repeat--) flags.push(flag);
+      }
+    }
+    // each coordinate is a short unsigned delta with a sign bit, a signed word, or the same as before
+    const readCoordinates = (shortBit: number, sameBit: number) => {
+      const values = new Array<number>();
+      let value = 0;
+      for (let i = 0; i < pointCount; i++) {
+        const flag = flags[i];
+        if (flag & shortBit) {
+          const delta = glyf.getUint8(position++);
+          value += flag & sameBit ? delta : -delta;
+        }
+        else if (!(flag & sameBit)) {
+          value += glyf.getInt16(position);
+          position += 2;
+        }
+        values.push(value);
+      }
+      return values;
+    };
+    const xs = readCoordinates(0x02, 0x10), ys = readCoordinates(0x04, 0x20);
+    const points = xs.map((x, i) => ({x, y: ys[i], onCurve: (flags[i] & 0x01) !== 0}));
+    return ends.map((end, i) => points.slice(i ? ends[i - 1] + 1 : 0, end + 1));
+  };
+
+  const glyphContours = (glyph: number, depth: number): ContourPoint[][] => {
+    if (glyph >= glyphCount) return [];
+    const { start, end } = glyphRange(glyph);
+    if (end <= start) return [];
+    const contourCount = glyf.getInt16(start);
+    if (contourCount >= 0) return simpleContours(start, contourCount);
+    if (depth >= MAX_COMPONENT_DEPTH) throw new Error('invalid font: components nested too deeply in glyph ' + glyph);
+    const contours = new Array<ContourPoint[]>();
+    let position = start + 10, flags: number;
+    do {
+      flags = glyf.getUint16(position);
+      const component = glyf.getUint16(position + 2);
+      position += 4;
+      let arg1: number, arg2: number;
+      if (flags & 0x0001) {
+        [arg1, arg2] = flags & 0x0002 ? [glyf.getInt16(position), glyf.getInt16(position + 2)] : [glyf.getUint16(position), glyf.getUint16(position + 2)];
+        position += 4;
+      }
+      else {
+        [arg1, arg2] = flags & 0x0002 ? [glyf.getInt8(position), glyf.getInt8(position + 1)] : [glyf.getUint8(position), glyf.getUint8(position + 1)];
+        position += 2;
+      }
+      const f2dot14 = () => {
+        position += 2;
+        return glyf.getInt16(position - 2) / 16384;
+      };
+      let a = 1, b = 0, c = 0, d = 1;
+      if (flags & 0x0008) a = d = f2dot14();
+      else if (flags & 0x0040) [a, d] = [f2dot14(), f2dot14()];
+      else if (flags & 0x0080) [a, b, c, d] = [f2dot14(), f2dot14(), f2dot14(), f2dot14()];
+      const transformed = glyphContours(component, depth + 1)
+        .map(contour => contour.map(p => ({x: a * p.x + c * p.y, y: b * p.x + d * p.y, onCurve: p.onCurve})));
+      let dx: number, dy: number;
+      if (flags & 0x0002) {
+        const scaleOffset = (flags & 0x0800) !== 0 && !(flags & 0x1000);
+        [dx, dy] = scaleOffset ? [a * arg1 + c * arg2, b * arg1 + d * arg2] : [arg1, arg2];
+      }
+      else {
+        // the component is placed so that one of its points lands on one of the points so far
+        const parentPoint = ([] as ContourPoint[]).concat(...contours)[arg1];
+        const childPoint = ([] as ContourPoint[]).concat(...transformed)[arg2];
+        if (!parentPoint || !childPoint) throw new Error('invalid font: bad component point in glyph ' + glyph);
+        [dx, dy] = [parentPoint.x - childPoint.x, parentPoint.y - childPoint.y];
+      }
+      contours.push(...transformed.map(contour => contour.map(p => ({x: p.x + dx, y: p.y + dy, onCurve: p.onCurve}))));
+    } while (flags & 0x0020);
+    return contours;
+  };
+
+  return glyphIndex => glyphContours(glyphIndex, 0)
+    .map(contourSubPath)
+    .filter((subPath): subPath is SubPath => subPath !== null);
+}
+
+function cffIndex(view: DataView, offset: number): {items: Range[], end: number} {
+  const count = view.getUint16(offset);
+  if (count === 0) return {items: [], end: offset + 2};
+  const offsetSize = view.getUint8(offset + 2);
+  const offsetAt = (i: number) => {
+    let value = 0;
+    for (let j = 0; j < offsetSize; j++) value = value * 256 + view.getUint8(offset + 3 + i * offsetSize + j);
+    return value;
+  };
+  // offsets count from 1, at the byte before the data
+  const data = offset + 2 + (count + 1) * offsetSize;
+  const items = new Array<Range>();
+  for (let i = 0; i < count; i++) items.push({start: data + offsetAt(i), end: data + offsetAt(i + 1)});
+  return {items, end: data + offsetAt(count)};
+}
+
+// operands by operator, with two byte operators as 1200 + the second byte
+function cffDict(view: DataView, { start, end }: Range): Map<number, number[]> {
+  const entries = new Map<number, number[]>();
+  let operands = new Array<number>();
+  for (let position = start; position < end;) {
+    const b0 = view.getUint8(position++);
+    if (b0 <= 21) {
+      entries.set(b0 === 12 ? 1200 + view.getUint8(position++) : b0, operands);
+      operands = [];
+    }
+    else if (b0 === 28) {
+      operands.push(view.getInt16(position));
+      position += 2;
+    }
+    else if (b0 === 29) {
+      operands.push(view.getInt32(position));
+      position += 4;
+    }
+    else if (b0 === 30) {
+      let text = '';
+      for (let done = false; !done; position++) {
+        const byte = view.getUint8(position);
+        for (const nibble of [byte >> 4, byte & 0x0f]) {
+          if (nibble === 0x0f) {
+            done = true;
+            break;
+          }
+          text += nibble < 10 ? nibble : ['.', 'E', 'E-', '', '-'][nibble - 10];
+        }
+      }
+      operands.push(parseFloat(text));
+    }
+    else if (b0 >= 32 && b0 <= 246) {
+      operands.push(b0 - 139);
+    }
+    else if (b0 >= 247 && b0 <= 250) {
+      operands.push((b0 - 247) * 256 + view.getUint8(position++) + 108);
+    }
+    else if (b0 >= 251 && b0 <= 254) {
+      operands.push(-(b0 - 251) * 256 - view.getUint8(position++) - 108);
+    }
+    else {
+      throw new Error('invalid font: bad CFF DICT data');
+    }
+  }
+  return entries;
+}
+
+function subrBias(subrs: readonly Range[]): number {
+  return subrs.length < 1240 ? 107 : subrs.length < 33900 ? 1131 : 32768;
+}
+
+const MAX_SUBR_DEPTH = 10;
+
+// runs a Type 2 charstring, which draws with relative moves, lines and cubic curves
+function charStringSubPaths(view: DataView, charString: Range, globalSubrs: readonly Range[], localSubrs: readonly Range[]): SubPath[] {
+  const subPaths = new Array<SubPath>();
+  const stack = new Array<number>();
+  let x = 0, y = 0, stems = 0, widthRead = false;
+  let current: {startPoint: PathCommand.Point, commands: PathCommand[]} | null = null;
+
+  const closeSubPath = () => {
+    if (current && current.commands.length) subPaths.push(closedSubPath(current.startPoint, current.commands));
+    current = null;
+  };
+  const moveTo = (dx: number, dy: number) => {
+    closeSubPath();
+    x += dx;
+    y += dy;
+    current = {startPoint: {x, y}, commands: []};
+  };
+  const commands = () => {
+    if (!current) throw new Error('invalid font: charstring draws before moving');
+    return current.commands;
+  };
+  const lineTo = (dx: number, dy: number) => {
+    x += dx;
+    y += dy;
+    commands().push({type: PathCommand.Type.LINE, toPoint: {x, y}});
+  };
+  const curveTo = (dxa: number, dya: number, dxb: number, dyb: number, dxc: number, dyc: number) => {
+    const c1 = {x: x + dxa, y: y + dya};
+    const c2 = {x: c1.x + dxb, y: c1.y + dyb};
+    x = c2.x + dxc;
+    y = c2.y + dyc;
+    commands().push({type: PathCommand.Type.CUBIC_CURVE, controlPoints: [c1, c2], toPoint: {x, y}});
+  };
+  // the first operator that clears the stack may have the advance width before its own arguments
+  const skipWidth = (hasWidth: boolean) => {
+    if (hasWidth && !widthRead) stack.shift();
+    widthRead = true;
+  };
+  const addStems = () => {
+    skipWidth(stack.length % 2 !== 0);
+    stems += stack.length >> 1;
+  };
+
+  // true once endchar is reached
+  const run = ({ start, end }: Range, depth: number): boolean => {
+    if (depth > MAX_SUBR_DEPTH) throw new Error('invalid font: charstring subroutines nested too deeply');
+    for (let position = start; position < end;) {
+      const op = view.getUint8(position++);
+      if (op === 28) {
+        stack.push(view.getInt16(position));
+        position += 2;
+        continue;
+      }
+      if (op >= 32 && op <= 246) {
+        stack.push(op - 139);
+        continue;
+      }
+      if (op >= 247 && op <= 250) {
+        stack.push((op - 247) * 256 + view.getUint8(position++) + 108);
+        continue;
+      }
+      if (op >= 251 && op <= 254) {
+        stack.push(-(op - 251) * 256 - view.getUint8(position++) - 108);
+        continue;
+      }
+      if (op === 255) {
+        stack.push(view.getInt32(position) / 65536);
+        position += 4;
+        continue;
+      }
+      const s = stack;
+      switch (op) {
+        case 1: case 3: case 18: case 23:
+          addStems();
+          break;
+        case 19: case 20:
+          // a hint mask after stems that are not otherwise declared declares them first
+          addStems();
+          position += (stems + 7) >> 3;
+          break;
+        case 21:
+          skipWidth(s.length > 2);
+          moveTo(s[0], s[1]);
+          break;
+        case 22:
+          skipWidth(s.length > 1);
+          moveTo(s[0], 0);
+          break;
+        case 4:
+          skipWidth(s.length > 1);
+          moveTo(0, s[0]);
+          break;
+        case 5:
+          for (let i = 0; i + 2 <= s.length; i += 2) lineTo(s[i], s[i + 1]);
+          break;
+        case 6: case 7:
+          for (let i = 0; i < s.length; i++) {
+            if ((i % 2 === 0) === (op === 6)) lineTo(s[i], 0);
+            else lineTo(0, s[i]);
+          }
+          break;
+        case 8:
+          for (let i = 0; i + 6 <= s.length; i += 6) curveTo(s[i], s[i + 1], s[i + 2], s[i + 3], s[i + 4], s[i + 5]);
+          break;
+        case 24: {
+          let i = 0;
+          for (; i + 8 <= s.length; i += 6) curveTo(s[i], s[i + 1], s[i + 2], s[i + 3], s[i + 4], s[i + 5]);
+          lineTo(s[i], s[i + 1]);
+          break;
+        }
+        case 25: {
+          let i = 0;
+          for (; i + 6 < s.length; i += 2) lineTo(s[i], s[i + 1]);
+          curveTo(s[i], s[i + 1], s[i + 2], s[i + 3], s[i + 4], s[i + 5]);
+          break;
+        }
+        case 26: {
+          let i = s.length % 2, dx1 = i ? s[0] : 0;
+          for (; i + 4 <= s.length; i += 4, dx1 = 0) curveTo(dx1, s[i], s[i + 1], s[i + 2], 0, s[i + 3]);
+          break;
+        }
+        case 27: {
+          let i = s.length % 2, dy1 = i ? s[0] : 0;
+          for (; i + 4 <= s.length; i += 4, dy1 = 0) curveTo(s[i], dy1, s[i + 1], s[i + 2], s[i + 3], 0);
+          break;
+        }
+        case 30: case 31: {
+          // curves that alternate between starting horizontally and vertically, the last one able to end
+          // off the axis
+          let horizontal = op === 31;
+          for (let i = 0; i + 4 <= s.length; i += 4, horizontal = !horizontal) {
+            const last = s.length - i === 5 ? s[i + 4] : 0;
+            if (horizontal) curveTo(s[i], 0, s[i + 1], s[i + 2], last, s[i + 3]);
+            else curveTo(0, s[i], s[i + 1], s[i + 2], s[i + 3], last);
+          }
+          break;
+        }
+        case 10: case 29: {
+          const subrs = op === 10 ? localSubrs : globalSubrs;
+          const subr = subrs[stack.pop()! + subrBias(subrs)];
+          if (!subr) throw new Error('invalid font: missing charstring subroutine');
+          if (run(subr, depth + 1)) return true;
+          continue;
+        }
+        case 11:
+          return false;
+        case 14:
+          // accented characters made with the deprecated seac arguments only draw their own outline
+          skipWidth(s.length === 1 || s.length === 5);
+          closeSubPath();
+          return true;
+        case 12: {
+          const escape = view.getUint8(position++);
+          if (escape === 35) {
+            curveTo(s[0], s[1], s[2], s[3], s[4], s[5]);
+            curveTo(s[6], s[7], s[8], s[9], s[10], s[11]);
+          }
+          else if (escape === 34) {
+            curveTo(s[0], 0, s[1], s[2], s[3], 0);
+            curveTo(s[4], 0, s[5], -s[2], s[6], 0);
+          }
+          else if (escape === 36) {
+            curveTo(s[0], s[1], s[2], s[3], s[4], 0);
+            curveTo(s[5], 0, s[6], s[7], s[8], -(s[1] + s[3] + s[7]));
+          }
+          else if (escape === 37) {
+            const dx = s[0] + s[2] + s[4] + s[6] + s[8], dy = s[1] + s[3] + s[5] + s[7] + s[9];
+            curveTo(s[0], s[1], s[2], s[3], s[4], s[5]);
+            // the last point goes back to the level of the start along the axis the flex mostly moved in
+            if (Math.abs(dx) > Math.abs(dy)) curveTo(s[6], s[7], s[8], s[9], s[10], -dy);
+            else curveTo(s[6], s[7], s[8], s[9], -dx, s[10]);
+          }
+          break;
+        }
+      }
+      stack.length = 0;
+    }
+    return false;
+  };
+
+  run(charString, 0);
+  closeSubPath();
+  return subPaths;
+}
+
+function cffOutlines(view: DataView, glyphCount: number): (glyphIndex: number) => SubPath[] {
+  const names = cffIndex(view, view.getUint8(2));
+  const topDicts = cffIndex(view, names.end);
+  const strings = cffIndex(view, topDicts.end);
+  const globalSubrs = cffIndex(view, strings.end).items;
+  if (!topDicts.items.length) throw new Error('invalid font: no CFF Top DICT');
+  const top = cffDict(view, topDicts.items[0]);
+  const charStringType = (top.get(1206) || [2])[0];
+  if (charStringType !== 2) throw new Error('unsupported font format: Type ' + charStringType + ' charstrings');
+  if (!top.has(17)) throw new Error('invalid font: no CFF charstrings');
+  const charStrings = cffIndex(view, top.get(17)![0]).items;
+
+  // the local subroutines are in the Private DICT, at an offset from its start
+  const privateSubrs = (dict: Map<number, number[]>) => {
+    const [size, offset] = dict.get(18) || [0, 0];
+    const privateDict = cffDict(view, {start: offset, end: offset + size});
+    return privateDict.has(19) ? cffIndex(view, offset + privateDict.get(19)![0]).items : [];
+  };
+  // CID-keyed fonts choose among several Private DICTs by glyph
+  let subrsFor: (glyph: number) => readonly Range[];
+  if (top.has(1236) && top.has(1237)) {
+    const fontDicts = cffIndex(view, top.get(1236)![0]).items.map(item => privateSubrs(cffDict(view, item)));
+    const select = top.get(1237)![0], format = view.getUint8(select);
+    subrsFor = glyph => {
+      if (format === 0) return fontDicts[view.getUint8(select + 1 + glyph)] || [];
+      for (let i = 0, count = view.getUint16(select + 1); i < count; i++) {
+        const range = select + 3 + i * 3;
+        if (glyph >= view.getUint16(range) && glyph < view.getUint16(range + 3)) return fontDicts[view.getUint8(range + 2)] || [];
+      }
+      return [];
+    };
+  }
+  else {
+    const subrs = privateSubrs(top);
+    subrsFor = () => subrs;
+  }
+  return glyphIndex => glyphIndex < Math.min(glyphCount, charStrings.length)
+    ? charStringSubPaths(view, charStrings[glyphIndex], globalSubrs, subrsFor(glyphIndex))
+    : [];
+}
+
+// reads a TrueType or OpenType font, or a WOFF file of either, given as the bytes of the file
+export function parseFont(data: ArrayBuffer | Uint8Array): Font {
+  const tables = readTables(data instanceof Uint8Array ? data : new Uint8Array(data));
+  const head = requireTable(tables, 'head'), hhea = requireTable(tables, 'hhea');
+  const hmtx = requireTable(tables, 'hmtx'), maxp = requireTable(tables, 'maxp');
+  const glyphCount = maxp.getUint16(4);
+  const metricCount = hhea.getUint16(34);
+  if (metricCount < 1) throw new Error('invalid font: no horizontal metrics');
+
+  let outlines: (glyphIndex: number) => SubPath[];
+  const cff = tables.get('CFF ');
+  if (tables.has('glyf')) outlines = trueTypeOutlines(tables, glyphCount, head.getInt16(50) === 1);
+  else if (cff) outlines = cffOutlines(cff, glyphCount);
+  else if (tables.has('CFF2')) throw new Error('unsupported font format: CFF2 outlines');
+  else throw new Error('invalid font: no glyph outlines');
+
+  const validateGlyph = (glyphIndex: number) => {
+    if (!(Number.isInteger(glyphIndex) && glyphIndex >= 0 && glyphIndex < glyphCount)) throw new Error('invalid glyph index: ' + glyphIndex);
+  };
+  const kerning = kerningFunction(tables);
+  return {
+    unitsPerEm: head.getUint16(18),
+    ascender: hhea.getInt16(4),
+    descender: hhea.getInt16(6),
+    lineGap: hhea.getInt16(8),
+    glyphCount,
+    glyphIndex: characterMap(tables.get('cmap')),
+    // glyphs past the last metric share its advance
+    advanceWidth(glyphIndex) {
+      validateGlyph(glyphIndex);
+      return hmtx.getUint16(Math.min(glyphIndex, metricCount - 1) * 4);
+    },
+    kerning(leftGlyphIndex, rightGlyphIndex) {
+      validateGlyph(leftGlyphIndex);
+      validateGlyph(rightGlyphIndex);
+      return kerning(leftGlyphIndex, rightGlyphIndex);
+    },
+    glyphSubPaths(glyphIndex) {
+      validateGlyph(glyphIndex);
+      return outlines(glyphIndex);
+    },
+  };
+}
+
+// places the glyphs of each line of the text one after another by their advances, with line breaks
+// starting new lines below
+export function layoutGlyphs(font: Font, text: string, options: TextLayoutOptions): GlyphPosition[] {
+  const { fontSize, x = 0, y = 0, letterSpacing = 0, kerning = true } = options;
+  if (!(fontSize > 0)) throw new Error('invalid font size: ' + fontSize);
+  const scale = fontSize / font.unitsPerEm;
+  const { lineHeight = (font.ascender - font.descender + font.lineGap) * scale } = options;
+  const positions = new Array<GlyphPosition>();
+  text.split(/\r\n|\r|\n/).forEach((line, lineIndex) => {
+    let penX = x, previous = -1;
+    for (const character of Array.from(line)) {
+      const glyphIndex = font.glyphIndex(character.codePointAt(0)!);
+      if (kerning && previous >= 0) penX += font.kerning(previous, glyphIndex) * scale;
+      positions.push({glyphIndex, x: penX, y: y + lineIndex * lineHeight});
+      penX += font.advanceWidth(glyphIndex) * scale + letterSpacing;
+      previous = glyphIndex;
+    }
+  });
+  return positions;
+}
+
+// the outlines of the text in path coordinates, with the y axis pointing down and the baseline at y. the text
+// is laid out straight away, and the outlines are emitted as they are placed
+export function textSubPaths(font: Font, text: string, options: TextLayoutOptions): Observable<SubPath> {
+  const scale = options.fontSize / font.unitsPerEm;
+  const positions = layoutGlyphs(font, text, options);
+  const outlines = new Map<number, SubPath[]>();
+  return from(positions).pipe(
+    concatMap(({ glyphIndex, x, y }) => {
+      if (!outlines.has(glyphIndex)) outlines.set(glyphIndex, font.glyphSubPaths(glyphIndex));
+      return from(outlines.get(glyphIndex)!).pipe(
+        transformSubPaths(Matrix2D.multiply(Matrix2D.translate(x, y), Matrix2D.scale(scale, -scale))),
+      );
+    }),
+    // glyphs are filled, so their outlines are closed
+    map(({ startPoint, commands }) => ({startPoint, commands, closed: true})),
+  );
+}
@@ -0,0 +1,821 @@
+
+import { PathCommand } from './index';
+
+type Point = PathCommand.Point;
+
+export interface ArcCenterParameters {
+  readonly centerX: number;
+  readonly centerY: number;
+  // radii after scaling up to fit the endpoints, if necessary
+  readonly radiusX: number;
+  readonly radiusY: number;
+  readonly cosPhi: number;
+  readonly sinPhi: number;
+  readonly startAngle: number;
+  // positive when sweeping in the direction of increasing angle
+  readonly sweepAngle: number;
+}
+
+// endpoint to center parameterization, as described in the SVG implementation notes:
+// https://www.w3.org/TR/SVG/implnote.html#ArcConversionEndpointToCenter
+// returns null if the arc should be treated as a straight line
+export function arcCenterParameters(startPoint: Point, arc: PathCommand.Arc): ArcCenterParameters | null {
+  if (arc.radiusX === 0 || arc.radiusY === 0) return null;
+  const sinPhi = Math.sin(arc.rotateDegrees * Math.PI / 180);
+  const cosPhi = Math.cos(arc.rotateDegrees * Math.PI / 180);
+  const pxp =  cosPhi * (startPoint.x - arc.toPoint.x) / 2 + sinPhi * (startPoint.y - arc.toPoint.y) / 2;
+  const pyp = -sinPhi * (startPoint.x - arc.toPoint.x) / 2 + cosPhi * (startPoint.y - arc.toPoint.y) / 2;
+  if (pxp === 0 && pyp === 0) return null;
+  let rx = Math.abs(arc.radiusX);
+  let ry = Math.abs(arc.radiusY);
+  const lambda = (pxp*pxp) / (rx*rx) + (pyp*pyp) / (ry*ry);
+  if (lambda > 1) {
+    const lsqrt = Math.sqrt(lambda);
+    rx *= lsqrt;
+    ry *= lsqrt;
+  }
+  const rxsq  = rx*rx;
+  const rysq  = ry*ry;
+  const pxpsq = pxp*pxp;
+  const pypsq = pyp*pyp;
+
+  let radicant = (rxsq * rysq) - (rxsq * pypsq) - (rysq * pxpsq);
+
+  if (radicant < 0) radicant = 0;
+
+  radicant /= (rxsq * pypsq) + (rysq * pxpsq);
+  radicant = Math.sqrt(radicant) * (!!arc.largeArcFlag === !!arc.sweepFlag ? -1 : 1);
+
+  const centerxp = radicant *  rx / ry * pyp;
+  const centeryp = radicant * -ry / rx * pxp;
+
+  const centerX = cosPhi * centerxp - sinPhi * centeryp + (startPoint.x + arc.toPoint.x) / 2;
+  const centerY = sinPhi * centerxp + cosPhi * centeryp + (startPoint.y + arc.toPoint.y) / 2;
+
+  const vx1 = ( pxp - centerxp) / rx;
+  const vy1 = ( pyp - centeryp) / ry;
+  const vx2 = (-pxp - centerxp) / rx;
+  const vy2 = (-pyp - centeryp) / ry;
+
+  let startAngle: number, sweepAngle: number;
+  {
+    const sign = (vy1 < 0 ? -1 : 1);
+    const dot = vx1;
+    startAngle = sign * Math.acos(dot > 1 ? 1 : dot < -1 ? -1 : dot);
+  }
+  {
+    const sign = ((vx1*vy2 - vy1*vx2) < 0) ? -1 : 1;
+    const dot = vx1*vx2 + vy1*vy2;
+    sweepAngle = sign * Math.acos(dot > 1 ? 1 : dot < -1 ? -1 : dot);
+    if (!arc.sweepFlag && sweepAngle > 0) sweepAngle -= Math.PI * 2;
+    if (arc.sweepFlag && sweepAngle < 0) sweepAngle += Math.PI * 2;
+  }
+  return { centerX, centerY, radiusX: rx, radiusY: ry, cosPhi, sinPhi, startAngle, sweepAngle };
+}
+
+export function arcPointAtAngle(arc: ArcCenterParameters, angle: number): Point {
+  const x = Math.cos(angle) * arc.radiusX, y = Math.sin(angle) * arc.radiusY;
+  return {
+    x: arc.centerX + arc.cosPhi*x - arc.sinPhi*y,
+    y: arc.centerY + arc.sinPhi*x + arc.cosPhi*y,
+  };
+}
+
+// roots within (0, 1) of a*t^2 + b*t + c
+export function unitQuadraticRoots(a: number, b: number, c: number): number[] {
+  const roots = new Array<number>();
+  if (Math.abs(a) < 1e-12) {
+    if (b !== 0) roots.push(-c / b);
+  }
+  else {
+    const discriminant = b*b - 4*a*c;
+    if (discriminant === 0) {
+      roots.push(-b / (2*a));
+    }
+    else if (discriminant > 0) {
+      const sqrt = Math.sqrt(discriminant);
+      roots.push((-b + sqrt) / (2*a), (-b - sqrt) / (2*a));
+    }
+  }
+  return roots.filter(t => t > 0 && t < 1);
+}
+
+export function lerpPoint(a: Point, b: Point, t: number): Point {
+  return {x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t};
+}
+
+// a point on a quadratic or cubic bezier curve, given all its points including both ends
+export function bezierPoint(points: readonly Point[], t: number): Point {
+  const mt = 1 - t;
+  if (points.length === 3) {
+    const [p0, p1, p2] = points;
+    return {
+      x: mt*mt*p0.x + 2*mt*t*p1.x + t*t*p2.x,
+      y: mt*mt*p0.y + 2*mt*t*p1.y + t*t*p2.y,
+    };
+  }
+  const [p0, p1, p2, p3] = points;
+  return {
+    x: mt*mt*mt*p0.x + 3*mt*mt*t*p1.x + 3*mt*t*t*p2.x + t*t*t*p3.x,
+    y: mt*mt*mt*p0.y + 3*mt*mt*t*p1.y + 3*mt*t*t*p2.y + t*t*t*p3.y,
+  };
+}
+
+// de Casteljau subdivision of a bezier curve of any degree, given all its points including both ends
+export function splitBezier(points: readonly Point[], t: number): [Point[], Point[]] {
+  const left = [points[0]], right = [points[points.length-1]];
+  let level = points;
+  while (level.length > 1) {
+    const next = new Array<Point>(level.length - 1);
+    for (let i = 0; i < next.length; i++) {
+      next[i] = lerpPoint(level[i], level[i+1], t);
+    }
+    left.push(next[0]);
+    right.push(next[next.length-1]);
+    level = next;
+  }
+  right.reverse();
+  return [left, right];
+}
+
+export function distanceToSegment(p: Point, a: Point, b: Point): number {
+  const dx = b.x - a.x, dy = b.y - a.y;
+  const lengthSquared = dx*dx + dy*dy;
+  let t = lengthSquared === 0 ? 0 : ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSquared;
+  t = t < 0 ? 0 : t > 1 ? 1 : t;
+  const ex = a.x + dx*t - p.x, ey = a.y + dy*t - p.y;
+  return Math.sqrt(ex*ex + ey*ey);
+}
+
+// derivative with respect to the angle
+export function arcDerivativeAtAngle(arc: ArcCenterParameters, angle: number): Point {
+  const dx = -Math.sin(angle) * arc.radiusX, dy = Math.cos(angle) * arc.radiusY;
+  return {
+    x: arc.cosPhi*dx - arc.sinPhi*dy,
+    y: arc.sinPhi*dx + arc.cosPhi*dy,
+  };
+}
+
+export function bezierDerivative(points: readonly Point[], t: number): Point {
+  const mt = 1 - t;
+  if (points.length === 3) {
+    const [p0, p1, p2] = points;
+    return {
+      x: 2 * (mt*(p1.x - p0.x) + t*(p2.x - p1.x)),
+      y: 2 * (mt*(p1.y - p0.y) + t*(p2.y - p1.y)),
+    };
+  }
+  const [p0, p1, p2, p3] = points;
+  return {
+    x: 3 * (mt*mt*(p1.x - p0.x) + 2*mt*t*(p2.x - p1.x) + t*t*(p3.x - p2.x)),
+    y: 3 * (mt*mt*(p1.y - p0.y) + 2*mt*t*(p2.y - p1.y) + t*t*(p3.y - p2.y)),
+  };
+}
+
+const INTEGRATION_INTERVALS = 8;
+const MAX_INTEGRATION_DEPTH = 20;
+
+function adaptiveSimpson(
+  f: (x: number) => number,
+  a: number, fa: number,
+  b: number, fb: number,
+  c: number, fc: number,
+  whole: number,
+  epsilon: number,
+  depth: number,
+): number {
+  const d = (a + c) / 2, e = (c + b) / 2;
+  const fd = f(d), fe = f(e);
+  const left = (c - a) / 6 * (fa + 4*fd + fc);
+  const right = (b - c) / 6 * (fc + 4*fe + fb);
+  const delta = left + right - whole;
+  if (depth >= MAX_INTEGRATION_DEPTH || Math.abs(delta) <= 15 * epsilon) {
+    return left + right + delta / 15;
+  }
+  return adaptiveSimpson(f, a, fa, c, fc, d, fd, left, epsilon / 2, depth + 1)
+       + adaptiveSimpson(f, c, fc, b, fb, e, fe, right, epsilon / 2, depth + 1);
+}
+
+// numerical integration of f from a to b
+export function integrate(f: (x: number) => number, a: number, b: number, epsilon = 1e-10): number {
+  let total = 0;
+  const step = (b - a) / INTEGRATION_INTERVALS;
+  for (let i = 0; i < INTEGRATION_INTERVALS; i++) {
+    const x0 = a + step * i, x1 = i === INTEGRATION_INTERVALS - 1 ? b : x0 + step, xm = (x0 + x1) / 2;
+    const f0 = f(x0), f1 = f(x1), fm = f(xm);
+    total += adaptiveSimpson(f, x0, f0, x1, f1, xm, fm, (x1 - x0) / 6 * (f0 + 4*fm + f1), epsilon / INTEGRATION_INTERVALS, 0);
+  }
+  return total;
+}
+
+// a command as a parametric curve over t in [0, 1]
+export interface SegmentGeometry {
+  point(t: number): Point;
+  derivative(t: number): Point;
+  lengthTo(t: number): number;
+}
+
+export const hypot = (pt: Point) => Math.sqrt(pt.x*pt.x + pt.y*pt.y);
+
+export function commandGeometry(startPoint: Point, command: PathCommand): SegmentGeometry {
+  switch (command.type) {
+    case PathCommand.Type.QUADRATIC_CURVE:
+    case PathCommand.Type.CUBIC_CURVE: {
+      const points = [startPoint, ...command.controlPoints, command.toPoint];
+      const derivative = (t: number) => bezierDerivative(points, t);
+      return {
+        point: t => bezierPoint(points, t),
+        derivative,
+        lengthTo: t => t <= 0 ? 0 : integrate(u => hypot(derivative(u)), 0, t),
+      };
+    }
+    case PathCommand.Type.ARC: {
+      const arc = arcCenterParameters(startPoint, command);
+      if (!arc) break;
+      const { startAngle, sweepAngle } = arc;
+      const derivative = (t: number) => {
+        const d = arcDerivativeAtAngle(arc, startAngle + sweepAngle * t);
+        return {x: d.x * sweepAngle, y: d.y * sweepAngle};
+      };
+      return {
+        point: t => t >= 1 ? command.toPoint : arcPointAtAngle(arc, startAngle + sweepAngle * t),
+        derivative,
+        lengthTo: t => {
+          if (t <= 0) return 0;
+          if (arc.radiusX === arc.radiusY) return arc.radiusX * Math.abs(sweepAngle) * t;
+          return integrate(u => hypot(derivative(u)), 0, t);
+        },
+      };
+    }
+  }
+  const to = command.toPoint;
+  const d = {x: to.x - startPoint.x, y: to.y - startPoint.y};
+  const length = hypot(d);
+  return {
+    point: t => t >= 1 ? to : {x: startPoint.x + d.x * t, y: startPoint.y + d.y * t},
+    derivative: () => d,
+    lengthTo: t => length * t,
+  };
+}
+
+// the parameter at which the given distance along the segment is reached
+export function parameterAtLength(geometry: SegmentGeometry, length: number, distance: number): number {
+  if (distance <= 0) return 0;
+  if (distance >= length) return 1;
+  let low = 0, high = 1;
+  let t = distance / length;
+  for (let i = 0; i < 50; i++) {
+    const error = geometry.lengthTo(t) - distance;
+    if (Math.abs(error) < 1e-9) break;
+    if (error > 0) high = t; else low = t;
+    const speed = hypot(geometry.derivative(t));
+    const next = speed > 1e-12 ? t - error / speed : NaN;
+    t = (next > low && next < high) ? next : (low + high) / 2;
+  }
+  return t;
+}
+
+// splits a command in two at a parameter of the same kind as used by commandGeometry(). both parts are
+// the same type of command as the one split
+export function splitCommand<T extends PathCommand>(startPoint: Point, command: T, t: number): [T, T];
+export function splitCommand(startPoint: Point, command: PathCommand, t: number): [PathCommand, PathCommand] {
+  switch (command.type) {
+    case PathCommand.Type.QUADRATIC_CURVE: {
+      const [left, right] = splitBezier([startPoint, command.controlPoints[0], command.toPoint], t);
+      return [
+        {type: PathCommand.Type.QUADRATIC_CURVE, controlPoints: [left[1]], toPoint: left[2]},
+        {type: PathCommand.Type.QUADRATIC_CURVE, controlPoints: [right[1]], toPoint: right[2]},
+      ];
+    }
+    case PathCommand.Type.CUBIC_CURVE: {
+      const [left, right] = splitBezier([startPoint, ...command.controlPoints, command.toPoint], t);
+      return [
+        {type: PathCommand.Type.CUBIC_CURVE, controlPoints: [left[1], left[2]], toPoint: left[3]},
+        {type: PathCommand.Type.CUBIC_CURVE, controlPoints: [right[1], right[2]], toPoint: right[3]},
+      ];
+    }
+    case PathCommand.Type.ARC: {
+      const arc = arcCenterParameters(startPoint, command);
+      if (!arc) break;
+      const splitAngle = arc.sweepAngle * t;
+      const part = (sweepAngle: number, toPoint: Point): PathCommand.Arc => ({
+        type: PathCommand.Type.ARC,
+        radiusX: arc.radiusX,
+        radiusY: arc.radiusY,
+        rotateDegrees: command.rotateDegrees,
+        largeArcFlag: Math.abs(sweepAngle) > Math.PI,
+        sweepFlag: !!command.sweepFlag,
+        toPoint,
+      });
+      const midPoint = t <= 0 ? startPoint : t >= 1 ? command.toPoint : arcPointAtAngle(arc, arc.startAngle + splitAngle);
+      return [part(splitAngle, midPoint), part(arc.sweepAngle - splitAngle, command.toPoint)];
+    }
+  }
+  const midPoint = lerpPoint(startPoint, command.toPoint, t);
+  return [{...command, toPoint: midPoint}, {...command}];
+}
+
+// the part of a command between two parameters, along with the point where it starts
+export function sliceCommand<T extends PathCommand>(
+  startPoint: Point,
+  command: T,
+  t0: number,
+  t1: number,
+): {startPoint: Point, command: T} {
+  if (t1 < 1) {
+    command = splitCommand(startPoint, command, t1)[0];
+    t0 = t1 > 0 ? t0 / t1 : 0;
+  }
+  if (t0 > 0) {
+    const [left, right] = splitCommand(startPoint, command, t0);
+    return {startPoint: left.toPoint, command: right};
+  }
+  return {startPoint, command};
+}
+
+// parameters within (0, 1) where the y coordinate of a command stops increasing or decreasing, in order
+function yTurningParameters(startPoint: Point, command: PathCommand): number[] {
+  switch (command.type) {
+    case PathCommand.Type.QUADRATIC_CURVE: {
+      const p0 = startPoint, p1 = command.controlPoints[0], p2 = command.toPoint;
+      return unitQuadraticRoots(0, 2*(p0.y - 2*p1.y + p2.y), 2*(p1.y - p0.y));
+    }
+    case PathCommand.Type.CUBIC_CURVE: {
+      const p0 = startPoint, [p1, p2] = command.controlPoints, p3 = command.toPoint;
+      return unitQuadraticRoots(p3.y - 3*p2.y + 3*p1.y - p0.y, 2*(p2.y - 2*p1.y + p0.y), p1.y - p0.y).sort((a, b) => a - b);
+    }
+    case PathCommand.Type.ARC: {
+      const arc = arcCenterParameters(startPoint, command);
+      if (!arc) return [];
+      const yAngle = Math.atan2(arc.radiusY * arc.cosPhi, arc.radiusX * arc.sinPhi);
+      const ts = new Array<number>();
+      for (let k = -4; k <= 4; k++) {
+        const t = (yAngle + k * Math.PI - arc.startAngle) / arc.sweepAngle;
+        if (t > 0 && t < 1) ts.push(t);
+      }
+      return ts.sort((a, b) => a - b);
+    }
+  }
+  return [];
+}
+
+// the signed number of times a command crosses the ray from the point towards positive x. pieces of the
+// command are treated like lines that include their lower end but not their upper end, so crossings
+// through the joins between commands are counted exactly once
+export function commandWinding(startPoint: Point, command: PathCommand, point: Point): number {
+  if (command.type !== PathCommand.Type.ARC) {
+    const points = [startPoint, ...(command.type === PathCommand.Type.LINE ? [] : command.controlPoints), command.toPoint];
+    if (points.every(p => p.x <= point.x) || points.every(p => p.y > point.y) || points.every(p => p.y <= point.y)) {
+      return 0;
+    }
+    if (command.type === PathCommand.Type.LINE) {
+      const a = startPoint, b = command.toPoint;
+      const direction = a.y <= point.y ? 1 : -1;
+      return a.x + (point.y - a.y) * (b.x - a.x) / (b.y - a.y) > point.x ? direction : 0;
+    }
+  }
+  const geometry = commandGeometry(startPoint, command);
+  const ts = [0, ...yTurningParameters(startPoint, command), 1];
+  let winding = 0;
+  for (let i = 0; i < ts.length - 1; i++) {
+    const a = ts[i] === 0 ? startPoint : geometry.point(ts[i]);
+    const b = ts[i+1] === 1 ? command.toPoint : geometry.point(ts[i+1]);
+    let direction: number;
+    if (a.y <= point.y && point.y < b.y) direction = 1;
+    else if (b.y <= point.y && point.y < a.y) direction = -1;
+    else continue;
+    // the piece is monotonic in y, so bisect for where it meets the ray
+    let low = ts[i], high = ts[i+1];
+    for (let j = 0; j < 64; j++) {
+      const mid = (low + high) / 2;
+      if (mid === low || mid === high) break;
+      const y = geometry.point(mid).y;
+      if (direction > 0 ? y <= point.y : y > point.y) low = mid; else high = mid;
+    }
+    if (geometry.point((low + high) / 2).x > point.x) winding += direction;
+  }
+  return winding;
+}
+
+export interface CurveIntersection {
+  // parameters along each of the curves
+  readonly t0: number;
+  readonly t1: number;
+}
+
+const INTERSECTION_EPSILON = 1e-9;
+const OVERLAP_EPSILON = 1e-7;
+const MERGE_EPSILON = 1e-4;
+const MAX_INTERSECTION_DEPTH = 64;
+
+interface Box {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+function pointsBox(points: readonly Point[]): Box {
+  const box = {minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity};
+  for (const p of points) {
+    if (p.x < box.minX) box.minX = p.x;
+    if (p.x > box.maxX) box.maxX = p.x;
+    if (p.y < box.minY) box.minY = p.y;
+    if (p.y > box.maxY) box.maxY = p.y;
+  }
+  return box;
+}
+
+const boxSize = (box: Box) => Math.max(box.maxX - box.minX, box.maxY - box.minY);
+
+const boxesOverlap = (a: Box, b: Box, slack: number) => a.minX <= b.maxX + slack && b.minX <= a.maxX + slack
+  && a.minY <= b.maxY + slack && b.minY <= a.maxY + slack;
+
+const distance = (a: Point, b: Point) => Math.sqrt((a.x - b.x) * (a.x - b.x) + (a.y - b.y) * (a.y - b.y));
+
+// a line, quadratic or cubic given all its points including both ends
+export function curvePoint(points: readonly Point[], t: number): Point {
+  return points.length === 2 ? lerpPoint(points[0], points[1], t) : bezierPoint(points, t);
+}
+
+export function curveDerivative(points: readonly Point[], t: number): Point {
+  return points.length === 2
+    ? {x: points[1].x - points[0].x, y: points[1].y - points[0].y}
+    : bezierDerivative(points, t);
+}
+
+function chordFlatness(points: readonly Point[]): number {
+  const a = points[0], b = points[points.length - 1];
+  let flatness = 0;
+  for (let i = 1; i < points.length - 1; i++) {
+    flatness = Math.max(flatness, distanceToSegment(points[i], a, b));
+  }
+  return flatness;
+}
+
+function segmentParameter(p: Point, a: Point, b: Point): number {
+  const dx = b.x - a.x, dy = b.y - a.y;
+  const lengthSquared = dx*dx + dy*dy;
+  const t = lengthSquared === 0 ? 0 : ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSquared;
+  return t < 0 ? 0 : t > 1 ? 1 : t;
+}
+
+// where two nearly straight pieces cross, or failing that where they come within epsilon of each other
+function chordIntersection(a: readonly Point[], b: readonly Point[], epsilon: number): [number, number] | null {
+  const a0 = a[0], a1 = a[a.length - 1], b0 = b[0], b1 = b[b.length - 1];
+  const adx = a1.x - a0.x, ady = a1.y - a0.y;
+  const bdx = b1.x - b0.x, bdy = b1.y - b0.y;
+  const denominator = adx * bdy - ady * bdx;
+  if (denominator !== 0) {
+    const s = ((b0.x - a0.x) * bdy - (b0.y - a0.y) * bdx) / denominator;
+    const u = ((b0.x - a0.x) * ady - (b0.y - a0.y) * adx) / denominator;
+    if (s >= -INTERSECTION_EPSILON && s <= 1 + INTERSECTION_EPSILON && u >= -INTERSECTION_EPSILON && u <= 1 + INTERSECTION_EPSILON) {
+      return [Math.min(1, Math.max(0, s)), Math.min(1, Math.max(0, u))];
+    }
+  }
+  let best: [number, number] | null = null, bestDistance = epsilon;
+  const consider = (s: number, u: number) => {
+    const d = distance(lerpPoint(a0, a1, s), lerpPoint(b0, b1, u));
+    if (d <= bestDistance) {
+      best = [s, u];
+      bestDistance = d;
+    }
+  };
+  consider(0, segmentParameter(a0, b0, b1));
+  consider(1, segmentParameter(a1, b0, b1));
+  consider(segmentParameter(b0, a0, a1), 0);
+  consider(segmentParameter(b1, a0, a1), 1);
+  return best;
+}
+
+// Newton's method on a(s) - b(u) = 0, giving up near tangents where it would be unstable
+function refineIntersection(a: readonly Point[], b: readonly Point[], s: number, u: number): [number, number] {
+  let pa = curvePoint(a, s), pb = curvePoint(b, u);
+  let error = distance(pa, pb);
+  for (let i = 0; i < 8 && error > 0; i++) {
+    const da = curveDerivative(a, s), db = curveDerivative(b, u);
+    const determinant = db.x * da.y - da.x * db.y;
+    if (Math.abs(determinant) <= 1e-9 * Math.sqrt((da.x*da.x + da.y*da.y) * (db.x*db.x + db.y*db.y))) break;
+    const fx = pa.x - pb.x, fy = pa.y - pb.y;
+    const nextS = s + (fx * db.y - db.x * fy) / determinant;
+    const nextU = u + (fx * da.y - da.x * fy) / determinant;
+    if (!(nextS >= 0 && nextS <= 1 && nextU >= 0 && nextU <= 1)) break;
+    const nextA = curvePoint(a, nextS), nextB = curvePoint(b, nextU);
+    const nextError = distance(nextA, nextB);
+    if (!(nextError < error)) break;
+    s = nextS;
+    u = nextU;
+    pa = nextA;
+    pb = nextB;
+    error = nextError;
+  }
+  return [s, u];
+}
+
+// real roots within [low, high] of the polynomial with the given coefficients, lowest power first. the
+// roots of its derivative split the range into parts where it only rises or only falls, each holding at
+// most one root, which is then found by bisection
+export function polynomialRoots(coefficients: readonly number[], low: number, high: number): number[] {
+  const scale = Math.max(...coefficients.map(Math.abs));
+  let degree = coefficients.length - 1;
+  while (degree > 0 && Math.abs(coefficients[degree]) <= scale * 1e-12) degree--;
+  if (degree < 1) return [];
+  const evaluate = (x: number) => {
+    let value = 0;
+    for (let i = degree; i >= 0; i--) value = value * x + coefficients[i];
+    return value;
+  };
+  const derivative = new Array<number>();
+  for (let i = 1; i <= degree; i++) derivative.push(coefficients[i] * i);
+  const bounds = [low, ...polynomialRoots(derivative, low, high), high];
+  const roots = new Array<number>();
+  for (let i = 0; i + 1 < bounds.length; i++) {
+    let a = bounds[i], b = bounds[i + 1], fa = evaluate(a);
+    const fb = evaluate(b);
+    if (fa === 0) {
+      roots.push(a);
+      continue;
+    }
+    if (fb === 0 || (fa < 0) === (fb < 0)) continue;
+    for (let j = 0; j < 100; j++) {
+      const m = (a + b) / 2;
+      if (m <= a || m >= b) break;
+      const fm = evaluate(m);
+      if ((fm < 0) === (fa < 0)) {
+        a = m;
+        fa = fm;
+      }
+      else {
+        b = m;
+      }
+    }
+    roots.push((a + b) / 2);
+  }
+  if (evaluate(high) === 0) roots.push(high);
+  return roots.filter((root, i) => i === 0 || root !== roots[i - 1]);
+}
+
+// coefficients of a line, quadratic or cubic in powers of t, lowest first
+function powerCoefficients(points: readonly Point[]): Point[] {
+  const [p0, p1] = points;
+  if (points.length === 2) return [p0, {x: p1.x - p0.x, y: p1.y - p0.y}];
+  const p2 = points[2];
+  if (points.length === 3) {
+    return [
+      p0,
+      {x: 2 * (p1.x - p0.x), y: 2 * (p1.y - p0.y)},
+      {x: p0.x - 2 * p1.x + p2.x, y: p0.y - 2 * p1.y + p2.y},
+    ];
+  }
+  const p3 = points[3];
+  return [
+    p0,
+    {x: 3 * (p1.x - p0.x), y: 3 * (p1.y - p0.y)},
+    {x: 3 * (p0.x - 2 * p1.x + p2.x), y: 3 * (p0.y - 2 * p1.y + p2.y)},
+    {x: p3.x - 3 * p2.x + 3 * p1.x - p0.x, y: p3.y - 3 * p2.y + 3 * p1.y - p0.y},
+  ];
+}
+
+// the parameter of the closest point on a line, quadratic or cubic. away from the ends it is where the
+// derivative of the squared distance is zero, which is a polynomial of degree 3 for quadratics and 5
+// for cubics
+export function closestCurveParameter(points: readonly Point[], p: Point): number {
+  if (points.length === 2) return segmentParameter(p, points[0], points[1]);
+  const a = powerCoefficients(points);
+  a[0] = {x: a[0].x - p.x, y: a[0].y - p.y};
+  // (B(t) - p) . B'(t), where B' has coefficients k * a[k] for the powers k - 1
+  const coefficients = new Array<number>(2 * a.length - 2).fill(0);
+  for (let i = 0; i < a.length; i++) {
+    for (let k = 1; k < a.length; k++) {
+      coefficients[i + k - 1] += k * (a[i].x * a[k].x + a[i].y * a[k].y);
+    }
+  }
+  let best = 0, bestDistance = distance(points[0], p);
+  for (const t of [...polynomialRoots(coefficients, 0, 1), 1]) {
+    const d = distance(curvePoint(points, t), p);
+    if (d < bestDistance) {
+      best = t;
+      bestDistance = d;
+    }
+  }
+  return best;
+}
+
+// angles within a quarter turn of zero where the distance from a point, given relative to the center in
+// the frame of the axes, to an ellipse stops changing. with u = tan(angle / 2), the zeros of
+// (a^2 - b^2) sin cos - x a sin + y b cos are those of a quartic in u
+function ellipseStationaryAngles(a: number, b: number, x: number, y: number): number[] {
+  const k = 2 * (a * a - b * b);
+  return polynomialRoots([y * b, k - 2 * x * a, 0, -k - 2 * x * a, -y * b], -1, 1).map(u => 2 * Math.atan(u));
+}
+
+// the parameter of the closest point on an arc. on a circle it is in the direction of the point from
+// the center, and on an ellipse it is at one of the angles where the distance stops changing
+function closestArcParameter(arc: ArcCenterParameters, p: Point): number {
+  const dx = p.x - arc.centerX, dy = p.y - arc.centerY;
+  const x = arc.cosPhi * dx + arc.sinPhi * dy, y = -arc.sinPhi * dx + arc.cosPhi * dy;
+  const { radiusX, radiusY, startAngle, sweepAngle } = arc;
+  const angles = radiusX === radiusY ? [Math.atan2(y, x)] : [
+    ...ellipseStationaryAngles(radiusX, radiusY, x, y),
+    // the other half of the ellipse is the same problem for the point turned half way around
+    ...ellipseStationaryAngles(radiusX, radiusY, -x, -y).map(angle => angle + Math.PI),
+  ];
+  let best = 0, bestDistance = distance(arcPointAtAngle(arc, startAngle), p);
+  for (const angle of angles) {
+    // the turn from the start in the direction of the sweep
+    let turn = (angle - startAngle) % (2 * Math.PI);
+    if (turn < 0) turn += 2 * Math.PI;
+    if (sweepAngle < 0 && turn > 0) turn -= 2 * Math.PI;
+    const t = turn / sweepAngle;
+    if (!(t < 1)) continue;
+    const d = distance(arcPointAtAngle(arc, startAngle + sweepAngle * t), p);
+    if (d < bestDistance) {
+      best = t;
+      bestDistance = d;
+    }
+  }
+  return distance(arcPointAtAngle(arc, startAngle + sweepAngle), p) < bestDistance ? 1 : best;
+}
+
+// the parameter of the closest point on a command, as used by commandGeometry
+export function closestCommandParameter(startPoint: Point, command: PathCommand, p: Point): number {
+  switch (command.type) {
+    case PathCommand.Type.QUADRATIC_CURVE:
+    case PathCommand.Type.CUBIC_CURVE: {
+      return closestCurveParameter([startPoint, ...command.controlPoints, command.toPoint], p);
+    }
+    case PathCommand.Type.ARC: {
+      const arc = arcCenterParameters(startPoint, command);
+      if (arc) return closestArcParameter(arc, p);
+      break;
+    }
+  }
+  return segmentParameter(p, startPoint, command.toPoint);
+}
+
+// if the curves run along each other, the ends of the part they share
+function curveOverlap(a: readonly Point[], b: readonly Point[], tolerance: number): CurveIntersection[] | null {
+  const candidates = new Array<CurveIntersection>();
+  for (const u of [0, 1]) {
+    const p = b[u * (b.length - 1)];
+    const s = closestCurveParameter(a, p);
+    if (distance(curvePoint(a, s), p) <= tolerance) candidates.push({t0: s, t1: u});
+  }
+  for (const s of [0, 1]) {
+    const p = a[s * (a.length - 1)];
+    const u = closestCurveParameter(b, p);
+    if (distance(curvePoint(b, u), p) <= tolerance) candidates.push({t0: s, t1: u});
+  }
+  if (candidates.length < 2) return null;
+  candidates.sort((x, y) => x.t0 - y.t0);
+  const first = candidates[0], last = candidates[candidates.length - 1];
+  if (last.t0 - first.t0 < INTERSECTION_EPSILON || Math.abs(last.t1 - first.t1) < INTERSECTION_EPSILON) return null;
+  for (const fraction of [0.25, 0.5, 0.75]) {
+    const p = curvePoint(a, first.t0 + (last.t0 - first.t0) * fraction);
+    if (distance(curvePoint(b, closestCurveParameter(b, p)), p) > tolerance) return null;
+  }
+  return [first, last];
+}
+
+// every point where two lines or bezier curves meet, given all their points including both ends, by
+// recursive subdivision until the pieces are straight to within a tiny fraction of their size. where
+// the curves overlap only the ends of the shared part are included
+export function curveIntersections(a: readonly Point[], b: readonly Point[]): CurveIntersection[] {
+  const boxA = pointsBox(a), boxB = pointsBox(b);
+  const scale = Math.max(boxSize(boxA), boxSize(boxB));
+  if (scale === 0 || !boxesOverlap(boxA, boxB, scale * INTERSECTION_EPSILON)) return [];
+  const overlap = curveOverlap(a, b, scale * OVERLAP_EPSILON);
+  if (overlap) return overlap;
+  const epsilon = scale * INTERSECTION_EPSILON;
+  const hits = new Array<[number, number]>();
+  const search = (pa: readonly Point[], a0: number, a1: number, pb: readonly Point[], b0: number, b1: number, depth: number) => {
+    const pieceBoxA = pointsBox(pa), pieceBoxB = pointsBox(pb);
+    if (!boxesOverlap(pieceBoxA, pieceBoxB, epsilon)) return;
+    const flatA = chordFlatness(pa) <= epsilon, flatB = chordFlatness(pb) <= epsilon;
+    if ((flatA && flatB) || depth >= MAX_INTERSECTION_DEPTH) {
+      const hit = chordIntersection(pa, pb, epsilon);
+      if (hit) hits.push([a0 + (a1 - a0) * hit[0], b0 + (b1 - b0) * hit[1]]);
+      return;
+    }
+    if (!flatA && (flatB || boxSize(pieceBoxA) >= boxSize(pieceBoxB))) {
+      const [left, right] = splitBezier(pa, 0.5), mid = (a0 + a1) / 2;
+      search(left, a0, mid, pb, b0, b1, depth + 1);
+      search(right, mid, a1, pb, b0, b1, depth + 1);
+    }
+    else {
+      const [left, right] = splitBezier(pb, 0.5), mid = (b0 + b1) / 2;
+      search(pa, a0, a1, left, b0, mid, depth + 1);
+      search(pa, a0, a1, right, mid, b1, depth + 1);
+    }
+  };
+  search(a, 0, 1, b, 0, 1, 0);
+  // neighbouring pieces find the same crossing, and touching curves find a cluster of them
+  const refined = hits.map(([s, u]) => refineIntersection(a, b, s, u)).sort((x, y) => x[0] - y[0]);
+  const results = new Array<CurveIntersection>();
+  let cluster = new Array<[number, number]>();
+  const flush = () => {
+    if (cluster.length === 0) return;
+    const gap = ([s, u]: [number, number]) => distance(curvePoint(a, s), curvePoint(b, u));
+    const [s, u] = cluster.reduce((best, hit) => gap(hit) < gap(best) ? hit : best);
+    results.push({t0: s, t1: u});
+    cluster = [];
+  };
+  for (const hit of refined) {
+    const previous = cluster[cluster.length - 1];
+    if (previous && distance(curvePoint(a, previous[0]), curvePoint(a, hit[0])) > scale * MERGE_EPSILON) flush();
+    cluster.push(hit);
+  }
+  flush();
+  return results;
+}
+
+export const isPathDataWhitespace = (c: string) => c === ' ' || c === '\t' || c === '\n' || c === '\r' || c === '\f';
+
+const isDigit = (c: string) => c >= '0' && c <= '9';
+
+export const enum NumberState {
+  NONE,
+  SIGN,
+  INTEGER,
+  POINT,
+  INTEGER_POINT,
+  FRACTION,
+  EXPONENT,
+  EXPONENT_SIGN,
+  EXPONENT_DIGITS,
+}
+
+// can a number end in this state?
+export const isCompleteNumber = (state: NumberState) => (
+  state === NumberState.INTEGER
+  || state === NumberState.INTEGER_POINT
+  || state === NumberState.FRACTION
+  || state === NumberState.EXPONENT_DIGITS
+);
+
+// the state after reading c, or NONE if c cannot continue the number
+export function nextNumberState(state: NumberState, c: string): NumberState {
+  switch (state) {
+    case NumberState.NONE: {
+      if (c === '+' || c === '-') return NumberState.SIGN;
+      if (c === '.') return NumberState.POINT;
+      return isDigit(c) ? NumberState.INTEGER : NumberState.NONE;
+    }
+    case NumberState.SIGN: {
+      if (c === '.') return NumberState.POINT;
+      return isDigit(c) ? NumberState.INTEGER : NumberState.NONE;
+    }
+    case NumberState.INTEGER: {
+      if (c === '.') return NumberState.INTEGER_POINT;
+      if (c === 'e' || c === 'E') return NumberState.EXPONENT;
+      return isDigit(c) ? NumberState.INTEGER : NumberState.NONE;
+    }
+    case NumberState.POINT: {
+      return isDigit(c) ? NumberState.FRACTION : NumberState.NONE;
+    }
+    case NumberState.INTEGER_POINT:
+    case NumberState.FRACTION: {
+      if (c === 'e' || c === 'E') return NumberState.EXPONENT;
+      return isDigit(c) ? NumberState.FRACTION : NumberState.NONE;
+    }
+    case NumberState.EXPONENT: {
+      if (c === '+' || c === '-') return NumberState.EXPONENT_SIGN;
+      return isDigit(c) ? NumberState.EXPONENT_DIGITS : NumberState.NONE;
+    }
+    case NumberState.EXPONENT_SIGN:
+    case NumberState.EXPONENT_DIGITS: {
+      return isDigit(c) ? NumberState.EXPONENT_DIGITS : NumberState.NONE;
+    }
+  }
+}
+
+// the numbers of a list written as parameters are in path data: separated by whitespace and at most one
+// comma, or by nothing where the next number could not continue the last, as in "10-20" or ".5.5"
+export function scanNumberList(text: string): number[] | null {
+  const numbers = new Array<number>();
+  let state = NumberState.NONE, start = 0, comma = false;
+  for (let i = 0; i <= text.length; i++) {
+    const c = i < text.length ? text[i] : ' ';
+    if (state !== NumberState.NONE) {
+      const next = nextNumberState(state, c);
+      if (next !== NumberState.NONE) {
+        state = next;
+        continue;
+      }
+      if (!isCompleteNumber(state)) return null;
+      numbers.push(Number(text.slice(start, i)));
+      state = NumberState.NONE;
+    }
+    if (i === text.length || isPathDataWhitespace(c)) continue;
+    if (c === ',') {
+      if (comma || !numbers.length) return null;
+      comma = true;
+      continue;
+    }
+    state = nextNumberState(NumberState.NONE, c);
+    if (state === NumberState.NONE) return null;
+    start = i;
+    comma = false;
+  }
+  return comma ? null : numbers;
+}
@@ -0,0 +1,105 @@
+import { TestHarness } from 'zora';
+import { of } from 'rxjs';
+import { toArray } from 'rxjs/operators';
+import {
+  fromSVGPathData, flattenSubPaths, containsPoint, isPointNearStroke, rectangle, oval, SubPath, FillRule,
+} from '../lib/index';
+
+async function parse(pathData: string): Promise<SubPath[]> {
+  return of(pathData).pipe( fromSVGPathData(), toArray() ).toPromise();
+}
+
+export default (t: TestHarness) => {
+
+  t.test('containsPoint', async t => {
+
+    const contains = async (pathData: string, x: number, y: number, fillRule?: FillRule) => {
+      return containsPoint(await parse(pathData), {x, y}, fillRule).toPromise();
+    };
+
+    const square = 'M0,0 L100,0 L100,100 L0,100 Z';
+    t.eq(await contains(square, 50, 50), true);
+    t.eq(await contains(square, 150, 50), false);
+    t.eq(await contains(square, -50, 50), false);
+    t.eq(await contains(square, 50, 0), true, 'top edge is inside');
+    t.eq(await contains(square, 50, 100), false, 'bottom edge is outside');
+    t.eq(await contains('M0,0 L100,0 L100,100 L0,100', 50, 50), true, 'fills are implicitly closed');
+    t.eq(await contains('M0,0 L100,0 L100,100 L0,100 Z M25,25 L75,25 L75,75 L25,75 Z', 50, 50), true);
+    t.eq(await contains('M0,0 L100,0 L100,100 L0,100 Z M25,25 L75,25 L75,75 L25,75 Z', 50, 50, 'evenodd'), false);
+    t.eq(await contains('M0,0 L100,0 L100,100 L0,100 Z M25,25 L25,75 L75,75 L75,25 Z', 50, 50), false);
+    t.eq(await contains('M0,0 L100,0 L50,100 Z', 50, 0), true, 'ray through a vertex');
+    t.eq(await contains('M0,0 L100,0 L50,100 Z', 70, 50), true);
+    t.eq(await contains('M0,0 L100,0 L50,100 Z', 25, 75), false);
+
+    // a curve that bulges past the line between its ends
+    t.eq(await contains('M0,0 Q50,100 100,0 Z', 50, 40), true);
+    t.eq(await contains('M0,0 Q50,100 100,0 Z', 50, 55), false);
+    t.eq(await contains('M0,0 C0,100 100,100 100,0 Z', 50, 74), true);
+    t.eq(await contains('M0,0 C0,100 100,100 100,0 Z', 50, 76), false);
+    t.eq(await contains('M0,0 C100,100 0,100 100,0 Z', 50, 74), true, 'cubic with a loop');
+
+    // exact arcs rather than flattened ones
+    const circle = 'M-10,0 A10,10 0 0 0 10,0 A10,10 0 0 0 -10,0 Z';
+    t.eq(await contains(circle, 0, 9.999), true);
+    t.eq(await contains(circle, 0, -9.999), true);
+    t.eq(await contains(circle, 7.07, 7.07), true);
+    t.eq(await contains(circle, 7.08, 7.08), false);
+
+    // agrees with a very finely flattened version, away from the edges
+    for (const pathData of ['M0,0 A40,20 30 1 1 30,10 Z', 'M0,0 C150,-40 -50,120 100,80 Q0,200 0,0 Z']) {
+      const subPaths = await parse(pathData);
+      const flattened = await of(pathData).pipe( fromSVGPathData(), flattenSubPaths({tolerance: 1e-4}), toArray() ).toPromise();
+      let mismatches = 0;
+      for (let x = -80; x <= 120; x += 10) {
+        for (let y = -80; y <= 120; y += 10) {
+          if (await isPointNearStroke(subPaths, {x, y}, 0.01).toPromise()) continue;
+          const exact = await containsPoint(subPaths, {x, y}).toPromise();
+          if (exact !== await containsPoint(flattened, {x, y}).toPromise()) mismatches++;
+        }
+      }
+      t.eq(mismatches, 0, 'compared with flattened ' + pathData);
+    }
+
+    t.eq(await containsPoint([rectangle({x: 0, y: 0, width: 10, height: 10, radius: 5})], {x: 0.5, y: 0.5}).toPromise(), false, 'rounded corner');
+    t.eq(await containsPoint([oval({centerX: 0, centerY: 0, radiusX: 10, radiusY: 5})], {x: 9, y: 0}).toPromise(), true);
+    t.eq(await containsPoint([], {x: 0, y: 0}).toPromise(), false);
+
+  });
+
+  t.test('isPointNearStroke', async t => {
+
+    const near = async (pathData: string, x: number, y: number, width: number) => {
+      return isPointNearStroke(await parse(pathData), {x, y}, width).toPromise();
+    };
+
+    t.eq(await near('M0,0 L100,0', 50, 4, 10), true);
+    t.eq(await near('M0,0 L100,0', 50, 6, 10), false);
+    t.eq(await near('M0,0 L100,0', 104, 0, 10), true);
+    t.eq(await near('M0,0 L100,0 L100,100', 50, 50, 10), false);
+    t.eq(await near('M0,0 L100,0 L100,100', 4, 4, 10), true);
+    t.eq(await near('M0,0 L100,0 L100,100', 50, 52, 10), false);
+    t.eq(await near('M0,0 L100,0 L100,100 Z', 50, 52, 10), true, 'closing line is stroked');
+    const streamed = of('M0 0 L10 0 L10 10 Z').pipe( fromSVGPathData() );
+    t.eq(await isPointNearStroke(streamed, {x: 5, y: 5}, 1).toPromise(), true, 'closing line of streamed path data');
+
+    t.eq(await near('M0,0 Q50,100 100,0', 50, 48, 5), true);
+    t.eq(await near('M0,0 Q50,100 100,0', 50, 53, 5), false);
+    t.eq(await near('M0,0 C0,100 100,100 100,0', 50, 79, 10), true);
+    t.eq(await near('M0,0 C0,100 100,100 100,0', 50, 81, 10), false);
+    t.eq(await near('M-10,0 A10,10 0 0 0 10,0', 0, 11.9, 4), true);
+    t.eq(await near('M-10,0 A10,10 0 0 0 10,0', 0, 12.1, 4), false);
+    t.eq(await near('M-10,0 A10,10 0 0 0 10,0', 0, -10, 4), false, 'only the half that was drawn');
+    t.eq(await near('M0,0 A20,10 0 0 0 40,0', 20, 11.9, 4), true);
+    t.eq(await near('M0,0 A20,10 0 0 0 40,0', 20, 12.1, 4), false);
+    const ellipse = 'M-100,0 A100,20 0 0 0 100,0 A100,20 0 0 0 -100,0';
+    t.eq(await near(ellipse, 60, 16.3, 1), true, 'off the axes of an ellipse');
+    t.eq(await near(ellipse, 60, 17, 1), false);
+    t.eq(await near('M0,0 A100,20 90 0 0 0,200', -16.3, 160, 1), true, 'rotated ellipse');
+
+    // both ends of the loop are the same distance away, and sampling from the first misses the last part
+    t.eq(await near('M0,0 C100,100 -100,100 0,0', -4, 4, 1), true, 'looped cubic');
+    t.eq(await near('M0,0 C100,100 -100,100 0,0', -4, 5, 1), false);
+
+  });
+
+};
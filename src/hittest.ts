@@ -0,0 +1,59 @@
+
+import { Observable, ObservableInput, from } from 'rxjs';
+import { map, concatMap, reduce, toArray, first } from 'rxjs/operators';
+import { PathCommand, SubPath, FillRule } from './index';
+import { commandWinding, commandGeometry, closestCommandParameter, distanceToSegment } from './geometry';
+
+// each command of a subpath along with its start point, and the line closing it if it is closed or filled.
+// whether it is closed is only read once its commands are in, as parsed subpaths only know it then
+function subPathSegments(subPath: SubPath, filled: boolean) {
+  return from(subPath.commands).pipe(
+    toArray(),
+    concatMap(commands => {
+      const segments = new Array<{startPoint: PathCommand.Point, command: PathCommand}>();
+      let lastPoint = subPath.startPoint;
+      for (const command of commands) {
+        segments.push({startPoint: lastPoint, command});
+        lastPoint = command.toPoint;
+      }
+      if ((filled || subPath.closed) && commands.length > 0) {
+        segments.push({startPoint: lastPoint, command: {type: PathCommand.Type.LINE, toPoint: subPath.startPoint}});
+      }
+      return segments;
+    }),
+  );
+}
+
+// whether the point is inside the filled area. fills are implicitly closed, and the winding number is
+// found from where each command crosses a ray from the point, rather than from a flattened outline
+export function containsPoint(
+  subPaths: ObservableInput<SubPath>,
+  point: PathCommand.Point,
+  fillRule: FillRule = 'nonzero',
+): Observable<boolean> {
+  return from(subPaths).pipe(
+    concatMap(subPath => subPathSegments(subPath, true)),
+    reduce((winding, { startPoint, command }) => winding + commandWinding(startPoint, command, point), 0),
+    map(winding => fillRule === 'evenodd' ? (winding & 1) !== 0 : winding !== 0),
+  );
+}
+
+// whether the point is within half the width of any command, not including caps or miters
+export function isPointNearStroke(
+  subPaths: ObservableInput<SubPath>,
+  point: PathCommand.Point,
+  width: number,
+): Observable<boolean> {
+  const limit = width / 2;
+  return from(subPaths).pipe(
+    concatMap(subPath => subPathSegments(subPath, false)),
+    map(({ startPoint, command }) => {
+      if (command.type === PathCommand.Type.LINE) {
+        return distanceToSegment(point, startPoint, command.toPoint) <= limit;
+      }
+      const closest = commandGeometry(startPoint, command).point(closestCommandParameter(startPoint, command, point));
+      return Math.sqrt((closest.x - point.x) * (closest.x - point.x) + (closest.y - point.y) * (closest.y - point.y)) <= limit;
+    }),
+    first(near => near, false),
+  );
+}
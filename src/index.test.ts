@@ -1,13 +1,15 @@
 
 import { TestHarness } from 'zora';
-import { of, from, Observable, ObservableInput } from 'rxjs';
-import { toArray, reduce } from 'rxjs/operators';
+import { of, from, Observable, ObservableInput, Subject } from 'rxjs';
+import { toArray, reduce, filter, map, concatMap } from 'rxjs/operators';
 import {
   fromSVGPathData, PathCommand, SubPath, toSVGPathData, invertSubPaths, transformSubPathPoints,
-  curvifySubPaths,
+  curvifySubPaths, packSubPaths, unpackSubPaths, PackedSubPath, flattenSubPaths, svgPathDataEvents, PathEvent,
+  SVGPathDataError, SVGPathDataOptions, quadraticToCubicSubPaths, cubicToQuadraticSubPaths,
+  polygon, polyline, line, regularPolygon, star, rectangle,
 } from '../lib/index';
 
-async function subPathsToArray(subPaths: Observable<SubPath>): Promise<SubPath[]> {
+async function subPathsToArray(subPaths: Observable<SubPath>): Promise<Array<SubPath & {commands: PathCommand[]}>> {
   const subPathArray = await subPaths.pipe( toArray() ).toPromise();
   return Promise.all(subPathArray.map(async subPath => ({
     closed: subPath.closed,
@@ -16,6 +18,18 @@ async function subPathsToArray(subPaths: Observable<SubPath>): Promise<SubPath[]
   })));
 }
 
+function distanceToPolyline(pt: PathCommand.Point, polyline: PathCommand.Point[]): number {
+  let min = Infinity;
+  for (let i = 1; i < polyline.length; i++) {
+    const a = polyline[i-1], b = polyline[i];
+    const dx = b.x - a.x, dy = b.y - a.y;
+    const lengthSquared = dx*dx + dy*dy;
+    const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, ((pt.x - a.x) * dx + (pt.y - a.y) * dy) / lengthSquared));
+    min = Math.min(min, Math.hypot(a.x + dx*t - pt.x, a.y + dy*t - pt.y));
+  }
+  return min;
+}
+
 function normalizeSVGPathData(d: string) {
   return d.replace(/\s*([a-df-z])\s*/gi, ' $1').replace(/\s*,\s*/g, ' ').trim();
 }
@@ -131,6 +145,215 @@ export default (t: TestHarness) => {
     testInvalidSubPath('M0');
     testInvalidSubPath('L0,0');
 
+    // commands arrive as they are parsed, before the chunk that ends their subpath
+    const chunks = new Subject<string>();
+    const received = new Array<string>();
+    const streamed = new Array<SubPath>();
+    const done = chunks.pipe(
+      fromSVGPathData(),
+      concatMap(subPath => {
+        streamed.push(subPath);
+        received.push('M');
+        return from(subPath.commands);
+      }),
+    ).forEach(command => { received.push(command.type + command.toPoint.x + ',' + command.toPoint.y); });
+    chunks.next('M0 0 L10 0 L10 1');
+    t.eq(received, ['M', 'L10,0'], 'commands before the end of the subpath');
+    t.eq(streamed[0].closed, false);
+    chunks.next('0 L0 10 Z M5');
+    t.eq(received, ['M', 'L10,0', 'L10,10', 'L0,10']);
+    t.eq(streamed[0].closed, true, 'closed once the closepath is parsed');
+    chunks.next(' 5 L6 6');
+    chunks.complete();
+    await done;
+    t.eq(received, ['M', 'L10,0', 'L10,10', 'L0,10', 'M', 'L6,6']);
+    const readAgain = await from(streamed[0].commands).pipe( toArray() ).toPromise().catch((e: Error) => e);
+    t.ok(readAgain instanceof Error && /can only be read once/.test(readAgain.message), 'streamed commands are not kept');
+
+    // operators that read whether a subpath is closed do so once its commands are in, even while they
+    // are still being parsed
+    const closedPathData = ['M0 0 L10 0 L1', '0 10 Z M20 20', ' L30 30'];
+    const collected = await subPathsToArray(of(closedPathData.join('')).pipe( fromSVGPathData() ));
+    const write = async (subPaths: Observable<SubPath>) => (await subPaths.pipe( toSVGPathData(), toArray() ).toPromise()).join(' ');
+    for (const [name, operator] of [
+      ['invertSubPaths', invertSubPaths()],
+      ['curvifySubPaths', curvifySubPaths()],
+      ['flattenSubPaths', flattenSubPaths()],
+      ['transformSubPathPoints', transformSubPathPoints({transformPoint: ({x, y}) => ({x: x * 2, y})})],
+      ['packSubPaths', (subPaths: Observable<SubPath>) => subPaths.pipe( packSubPaths(), unpackSubPaths() )],
+    ] as Array<[string, (subPaths: Observable<SubPath>) => Observable<SubPath>]>) {
+      const chunks = new Subject<string>();
+      const written = write(chunks.pipe( fromSVGPathData(), operator ));
+      closedPathData.forEach(chunk => chunks.next(chunk));
+      chunks.complete();
+      t.eq(await written, await write(from(collected).pipe( operator )), name + ' on streamed subpaths');
+    }
+
+  });
+
+  t.test('svgPathDataEvents', async t => {
+
+    const events = await from(['M1', '0,2', '0 L3', '0,40 z', ' l5 5']).pipe(
+      svgPathDataEvents(),
+      toArray(),
+    ).toPromise();
+    t.eq(events, [
+      {type: 'M', toPoint: {x:10, y:20}},
+      {type: PathCommand.Type.LINE, toPoint: {x:30, y:40}},
+      {type: 'Z', toPoint: {x:10, y:20}},
+      {type: 'M', toPoint: {x:10, y:20}},
+      {type: PathCommand.Type.LINE, toPoint: {x:15, y:25}},
+    ]);
+
+    const input = new Subject<string>();
+    const received = new Array<PathEvent>();
+    let completed = false;
+    input.pipe( svgPathDataEvents() ).subscribe(
+      event => received.push(event),
+      undefined,
+      () => completed = true,
+    );
+    input.next('M0,0 L10,10 L20,20 L3');
+    t.eq(received.length, 3, 'commands are emitted before the subpath is complete');
+    input.next('0,30 C');
+    t.eq(received.length, 4);
+    input.next('1,2 3,4 5,6');
+    t.eq(received.length, 4);
+    input.complete();
+    t.eq(received.length, 5);
+    t.ok(completed);
+
+    const [smooth] = await subPathsToArray(of('M0,0 C10,0 20,10 20,20 T40,40 Q50,40 50,50 S60,70 70,70').pipe( fromSVGPathData() ));
+    t.eq(smooth.commands.slice(1), [
+      {type: PathCommand.Type.QUADRATIC_CURVE, controlPoints: [{x:20, y:20}], toPoint: {x:40, y:40}},
+      {type: PathCommand.Type.QUADRATIC_CURVE, controlPoints: [{x:50, y:40}], toPoint: {x:50, y:50}},
+      {type: PathCommand.Type.CUBIC_CURVE, controlPoints: [{x:50, y:50}, {x:60, y:70}], toPoint: {x:70, y:70}},
+    ], 'smooth curves only reflect control points of the same kind of curve');
+
+    const testError = (chunks: string[], offset: number, token: string) => {
+      t.test(`error position: ${JSON.stringify(chunks)}`, async t => {
+        let thrown: any = undefined;
+        try {
+          await from(chunks).pipe( svgPathDataEvents() ).toPromise();
+        }
+        catch (e) {
+          thrown = e;
+        }
+        t.ok(thrown instanceof SVGPathDataError);
+        t.eq(thrown && thrown.offset, offset);
+        t.eq(thrown && thrown.token, token);
+      });
+    };
+
+    testError(['L0,0'], 0, 'L');
+    testError(['10,0'], 0, '10');
+    testError(['M0,0 X1'], 5, 'X');
+    testError(['M0,0 L10'], 8, '');
+    testError(['M0,0 ', 'L1,1 ', 'Q'], 11, '');
+    testError(['M0,0 L1,1 M'], 11, '');
+    testError(['M0,0 L1,1 L', 'M2,2'], 11, 'M');
+    testError(['M0,0 L1', '0 2 Q1,2,3,4,5,6'], 23, '');
+    testError(['M0,0 L1,1 Z 5'], 12, '5');
+    testError(['M0,0 L1,1#'], 9, '#');
+
+  });
+
+  t.test('SVG path data grammar', async t => {
+
+    const M = (x: number, y: number) => ({type: 'M', toPoint: {x, y}});
+    const L = (x: number, y: number): PathCommand => ({type: PathCommand.Type.LINE, toPoint: {x, y}});
+    const Z = (x: number, y: number) => ({type: 'Z', toPoint: {x, y}});
+    const A = (radiusX: number, radiusY: number, rotateDegrees: number, largeArcFlag: boolean, sweepFlag: boolean, x: number, y: number) => (
+      {type: PathCommand.Type.ARC, radiusX, radiusY, rotateDegrees, largeArcFlag, sweepFlag, toPoint: {x, y}}
+    );
+    const C = (x1: number, y1: number, x2: number, y2: number, x: number, y: number) => (
+      {type: PathCommand.Type.CUBIC_CURVE, controlPoints: [{x: x1, y: y1}, {x: x2, y: y2}], toPoint: {x, y}}
+    );
+
+    const parse = async (pathData: string) => {
+      const events = new Array<PathEvent>();
+      let error: any = undefined;
+      try {
+        await of(pathData).pipe( svgPathDataEvents() ).forEach(event => events.push(event));
+      }
+      catch (e) {
+        error = e;
+      }
+      return { events, error };
+    };
+
+    const valid: Array<[string, object[]]> = [
+      ['', []],
+      [' \t\r\n\f', []],
+      ['M.5.5', [M(0.5, 0.5)]],
+      ['M-.5-.5', [M(-0.5, -0.5)]],
+      ['M0,0L10-20', [M(0, 0), L(10, -20)]],
+      ['M1e-3,2E+2', [M(0.001, 200)]],
+      ['M1.5e1.5', [M(15, 0.5)]],
+      ['M1..5', [M(1, 0.5)]],
+      ['M1. 2.', [M(1, 2)]],
+      ['M+1+2', [M(1, 2)]],
+      ['M0,0\n\tL1\r\n,\f2', [M(0, 0), L(1, 2)]],
+      ['M0 0a25 25 0 1150 50', [M(0, 0), A(25, 25, 0, true, true, 50, 50)]],
+      ['M0 0a25,25,0,1,0,50,50', [M(0, 0), A(25, 25, 0, true, false, 50, 50)]],
+      ['M0 0A25 25-30 01-50-50', [M(0, 0), A(25, 25, -30, false, true, -50, -50)]],
+      ['M0 0A25 25 0 1 1 50 50 25 25 0 0 0 0 0', [M(0, 0), A(25, 25, 0, true, true, 50, 50), A(25, 25, 0, false, false, 0, 0)]],
+      ['M10 20 30 40 50 60', [M(10, 20), L(30, 40), L(50, 60)]],
+      ['m10 20 30 40', [M(10, 20), L(40, 60)]],
+      ['M0 0L1 2 3 4', [M(0, 0), L(1, 2), L(3, 4)]],
+      ['M0 0H10V10h-5v-5z', [M(0, 0), L(10, 0), L(10, 10), L(5, 10), L(5, 5), Z(0, 0)]],
+      ['M0 0C1 2 3 4 5 6 7 8 9 10 11 12', [M(0, 0), C(1, 2, 3, 4, 5, 6), C(7, 8, 9, 10, 11, 12)]],
+      ['M0 0L1 1ZL2 2', [M(0, 0), L(1, 1), Z(0, 0), M(0, 0), L(2, 2)]],
+      ['M0 0L1 1Zm2 2z', [M(0, 0), L(1, 1), Z(0, 0), M(2, 2), Z(2, 2)]],
+    ];
+
+    for (const [pathData, expected] of valid) {
+      const { events, error } = await parse(pathData);
+      t.eq(error, undefined, `no error: ${JSON.stringify(pathData)}`);
+      t.eq(events, expected, `parsed: ${JSON.stringify(pathData)}`);
+    }
+
+    // everything up to the first error is still emitted
+    const invalid: Array<[string, object[], number, string]> = [
+      ['M0 0 L10 20 L30', [M(0, 0), L(10, 20)], 15, ''],
+      ['M,0 0', [], 1, ','],
+      ['M0,,0', [], 3, ','],
+      ['M0 0 L,10 20', [M(0, 0)], 6, ','],
+      ['M0 0 L10,20,', [M(0, 0), L(10, 20)], 11, ','],
+      ['M0 0 L10,20,L1 1', [M(0, 0), L(10, 20)], 11, ','],
+      ['M0 0 Z,', [M(0, 0), Z(0, 0)], 6, ','],
+      ['M0 0 A25 25 0 2 0 50 50', [M(0, 0)], 14, '2'],
+      ['M0 0 A25 25 0 -1 0 50 50', [M(0, 0)], 14, '-'],
+      ['M0 0 A25 25 0 1 1 50 50 25', [M(0, 0), A(25, 25, 0, true, true, 50, 50)], 26, ''],
+      ['M1e', [], 1, '1e'],
+      ['M1e+ 2', [], 1, '1e+'],
+      ['M. 2', [], 1, '.'],
+      ['M0 0 L1 2 #', [M(0, 0), L(1, 2)], 10, '#'],
+      ['M0 0 e', [M(0, 0)], 5, 'e'],
+      ['M0 0 L1 2 X3', [M(0, 0), L(1, 2)], 10, 'X'],
+      ['L1 2', [], 0, 'L'],
+      ['M0 0 L', [M(0, 0)], 6, ''],
+    ];
+
+    for (const [pathData, expected, offset, token] of invalid) {
+      const { events, error } = await parse(pathData);
+      t.ok(error instanceof SVGPathDataError, `error: ${JSON.stringify(pathData)}`);
+      t.eq(error && [error.offset, error.token], [offset, token], `error position: ${JSON.stringify(pathData)}`);
+      t.eq(events, expected, `parsed before error: ${JSON.stringify(pathData)}`);
+    }
+
+    const subPaths = new Array<SubPath>();
+    let subPathError: any = undefined;
+    await of('M0 0 L10 0 L10 10 Z M20 20 L30 30 L40').pipe( fromSVGPathData() ).forEach(subPath => {
+      subPaths.push(subPath);
+    })
+    .catch(e => { subPathError = e; });
+    t.ok(subPathError instanceof SVGPathDataError);
+    t.eq(await subPathsToArray(from(subPaths)), [
+      {startPoint: {x:0, y:0}, commands: [L(10, 0), L(10, 10)], closed: true},
+      {startPoint: {x:20, y:20}, commands: [L(30, 30)], closed: false},
+    ], 'subpaths are emitted up to the first error');
+
   });
 
   t.test('toSVGPathData', async t => {
@@ -186,6 +409,115 @@ export default (t: TestHarness) => {
 
   });
 
+  t.test('toSVGPathData options', async t => {
+
+    const write = async (pathData: string, options: SVGPathDataOptions) => (
+      (await of(pathData).pipe( fromSVGPathData(), toSVGPathData(options), toArray() ).toPromise()).join(options.minify ? '' : ' ')
+    );
+
+    const pathData = 'M10,10 L20,10 L20,20 L10.123456,20.5 C10,30 20,40 30,40 S50,40 50,30 Q60,20 70,30 T90,30 A5 5 30 1 0 100,-0.5 Z M0.5,0.5 L-0.25,-0.75';
+
+    t.eq(await write(pathData, {}), 'M10,10 L20,10 L20,20 L10.123456,20.5 C10,30 20,40 30,40 C40,40 50,40 50,30 Q60,20 70,30 Q80,40 90,30 A5 5 30 1 0 100,-0.5 Z M0.5,0.5 L-0.25,-0.75');
+    t.eq(await write(pathData, {precision: 2}), 'M10,10 L20,10 L20,20 L10.12,20.5 C10,30 20,40 30,40 C40,40 50,40 50,30 Q60,20 70,30 Q80,40 90,30 A5 5 30 1 0 100,-0.5 Z M0.5,0.5 L-0.25,-0.75');
+    t.eq(await write(pathData, {shorthands: true}), 'M10,10 H20 V20 L10.123456,20.5 C10,30 20,40 30,40 S50,40 50,30 Q60,20 70,30 T90,30 A5 5 30 1 0 100,-0.5 Z M0.5,0.5 L-0.25,-0.75');
+    t.eq(
+      await write(pathData, {coordinates: 'relative', precision: 2}),
+      'M10,10 l10,0 l0,10 l-9.88,0.5 c-0.12,9.5 9.88,19.5 19.88,19.5 c10,0 20,0 20,-10 q10,-10 20,0 q10,10 20,0 a5 5 30 1 0 10,-30.5 z m-9.5,-9.5 l-0.75,-1.25',
+    );
+    t.eq(
+      await write(pathData, {coordinates: 'relative', shorthands: true, minify: true, precision: 2}),
+      'M10 10h10v10l-9.88.5c-.12 9.5 9.88 19.5 19.88 19.5s20 0 20-10q10-10 20 0t20 0a5 5 30 1010-30.5zm-9.5-9.5-.75-1.25',
+    );
+    t.eq(await write('M0,0 L0.5,0.5 L0.25,0.75 L100,100', {minify: true}), 'M0 0 .5.5.25.75 100 100');
+    t.eq(
+      await of('M0,0 L0.5,0.5 L0.25,0.75 L100,100 Z').pipe( fromSVGPathData(), toSVGPathData({minify: true}), toArray() ).toPromise(),
+      ['M0 0', ' .5.5', '.25.75', ' 100 100', 'Z'],
+      'minified commands are emitted separately, with their separators',
+    );
+    t.eq(await write('M100,100 L101,101 L300,300', {coordinates: 'shortest'}), 'M100,100 l1,1 L300,300');
+    t.eq(await write('M0,0 L1.005,2.5 L3,3', {precision: 0}), 'M0,0 L1,3 L3,3');
+    t.eq(await write('M0,0 L-0.001,0', {precision: 2}), 'M0,0 L0,0', 'no negative zero');
+
+    // relative coordinates follow the rounded points, so the rounding errors do not add up
+    const steps = Array.from({length: 100}, () => 'l0.3333,0.6666').join(' ');
+    const rounded = await write('M0,0 ' + steps, {coordinates: 'relative', precision: 1});
+    const [{ commands }] = await subPathsToArray(of(rounded).pipe( fromSVGPathData() ));
+    const last = commands[commands.length - 1];
+    t.ok(Math.abs(last.toPoint.x - 33.33) < 0.05 && Math.abs(last.toPoint.y - 66.66) < 0.05, 'no drift');
+
+    // every combination reads back as the same path
+    const original = await subPathsToArray(of(pathData).pipe( fromSVGPathData() ));
+    for (const coordinates of ['absolute', 'relative', 'shortest'] as const) {
+      for (const minify of [false, true]) {
+        const options = {coordinates, minify, shorthands: true};
+        const written = await write(pathData, options);
+        t.eq(await subPathsToArray(of(written).pipe( fromSVGPathData() )), original, `read back ${JSON.stringify(options)}`);
+      }
+    }
+
+    t.throws(() => toSVGPathData({precision: -1}));
+    t.throws(() => toSVGPathData({precision: 1.5}));
+
+  });
+
+  t.test('lossless round trip', async t => {
+
+    const parse = (pathData: string) => of(pathData).pipe( fromSVGPathData({lossless: true, spans: true}) );
+    const write = async (subPaths: Observable<SubPath>) => (await subPaths.pipe( toSVGPathData(), toArray() ).toPromise()).join('');
+
+    for (const pathData of [
+      '  M 10 10 h 5 v5 l1,1 2,2 Z m 5 5 c1 1 2 2 3 3 s 4 4 5 5 q1,1 2,2 t3,3 a5,5 0 1 0 10,10 z L 3 3  ',
+      'M.5.5.5.5L1e2-3',
+      'm1,1 2,2 3,3',
+      'M0,0\nL10,0\tL10,10\r\nZ',
+      'M0 0a25 25 0 1150 50',
+    ]) {
+      t.eq(await write(parse(pathData)), pathData, `round trip ${JSON.stringify(pathData)}`);
+    }
+
+    const [first, second, third] = await parse('M 10 10 h 5 Z m 5 5 s 4 4 5 5 Z L 3 3 ').pipe( toArray() ).toPromise();
+    t.eq(first.svgPathData, 'M 10 10 h 5 Z');
+    t.eq(second.svgPathData, ' m 5 5 s 4 4 5 5 Z');
+    t.eq(third.svgPathData, ' L 3 3 ');
+    const [h] = await from(first.commands).pipe( toArray() ).toPromise();
+    t.eq(h.source, {text: ' h 5', span: {start: 8, end: 11}});
+    t.eq(h.toPoint, {x: 15, y: 10});
+
+    const [{ commands }] = await of('M0,0 L10,10').pipe( fromSVGPathData({lossless: true}), toArray() ).toPromise();
+    t.eq(await from(commands).pipe( toArray() ).toPromise(), [{type: PathCommand.Type.LINE, toPoint: {x: 10, y: 10}, source: {text: ' L10,10'}}], 'no spans unless asked for');
+
+    const pathData = '  M 10 10 h 5 v5 l1,1 2,2 Z m 5 5 c1 1 2 2 3 3 s 4 4 5 5 q1,1 2,2 t3,3 a5,5 0 1 0 10,10 z L 3 3  ';
+    // a relative moveto depends on where the subpath before it ended
+    t.eq(
+      await write(parse(pathData).pipe( filter((_, i) => i !== 0) )),
+      'M15,15 c1 1 2 2 3 3 s 4 4 5 5 q1,1 2,2 t3,3 a5,5 0 1 0 10,10Z L 3 3  ',
+    );
+    // a shorthand curve depends on the one before it
+    t.eq(
+      await write(parse(pathData).pipe( map((subPath, i) => i !== 1 ? subPath : {
+        startPoint: subPath.startPoint,
+        commands: from(subPath.commands).pipe( filter((_, j) => j !== 0) ),
+        closed: subPath.closed,
+      }) )),
+      '  M 10 10 h 5 v5 l1,1 2,2 ZM15,15C19,19 22,22 23,23 q1,1 2,2 t3,3 a5,5 0 1 0 10,10Z L 3 3  ',
+    );
+    // and so does a command that repeats the letter of the one before
+    t.eq(
+      await write(parse('M0,0 L1,1 2,2 3,3').pipe( map(subPath => ({
+        startPoint: subPath.startPoint,
+        commands: from(subPath.commands).pipe( filter((_, j) => j !== 1) ),
+        closed: subPath.closed,
+      })) )),
+      'M0,0 L1,1L3,3',
+    );
+    // changed commands are written out again
+    t.eq(await write(parse('M0,0 L10,10 L20,0').pipe( transformSubPathPoints({transformPoint: ({x, y}) => ({x: x * 2, y})}) )), 'M0,0L20,10L40,0');
+    // as is everything when asked for a particular form
+    const relative = await parse('M 0 0 L 10 10').pipe( toSVGPathData({coordinates: 'relative'}), toArray() ).toPromise();
+    t.eq(relative.join(''), 'M0,0l10,10');
+
+  });
+
   t.test('invertSubPaths', async t => {
 
     const inverted = await from<SubPath[]>([
@@ -341,6 +673,245 @@ export default (t: TestHarness) => {
       }
     ]);
 
+    for (const pathData of ['M0,0 A50,25 30 0 0 80,40', 'M0,0 A50,25 -60 1 1 80,40', 'M10,10 A50,50 0 0 0 110,10']) {
+      const [rotated] = await subPathsToArray(of(pathData).pipe( fromSVGPathData(), curvifySubPaths() ));
+      const last = rotated.commands[rotated.commands.length-1].toPoint;
+      const { toPoint } = (await subPathsToArray(of(pathData).pipe( fromSVGPathData() )))[0].commands[0];
+      t.ok(Math.abs(last.x - toPoint.x) < 1e-9 && Math.abs(last.y - toPoint.y) < 1e-9, `curvified arc ends at its toPoint: ${pathData}`);
+    }
+
+    // sweep flag 0 goes the other way round: the half circle bulges upwards
+    const [halfCircle] = await subPathsToArray(of('M10,10 A50,50 0 0 0 110,10').pipe( fromSVGPathData(), curvifySubPaths() ));
+    t.eq(halfCircle.commands.length, 2);
+    t.ok(Math.abs(halfCircle.commands[0].toPoint.x - 60) < 1e-9 && Math.abs(halfCircle.commands[0].toPoint.y - 60) < 1e-9);
+
+  });
+
+  t.test('quadraticToCubicSubPaths', async t => {
+
+    const [raised] = await subPathsToArray(of('M0,0 Q30,60 90,0 L100,0 A10,10 0 0 0 120,0').pipe( fromSVGPathData(), quadraticToCubicSubPaths() ));
+    t.eq(raised.commands, [
+      {type: PathCommand.Type.CUBIC_CURVE, controlPoints: [{x: 20, y: 40}, {x: 50, y: 40}], toPoint: {x: 90, y: 0}},
+      {type: PathCommand.Type.LINE, toPoint: {x: 100, y: 0}},
+      {type: PathCommand.Type.ARC, radiusX: 10, radiusY: 10, rotateDegrees: 0, largeArcFlag: false, sweepFlag: false, toPoint: {x: 120, y: 0}},
+    ]);
+
+  });
+
+  t.test('cubicToQuadraticSubPaths', async t => {
+
+    const bezier = (points: PathCommand.Point[], t: number) => {
+      const mt = 1 - t;
+      const weights = points.length === 3 ? [mt*mt, 2*mt*t, t*t] : [mt*mt*mt, 3*mt*mt*t, 3*mt*t*t, t*t*t];
+      return {
+        x: points.reduce((sum, p, i) => sum + p.x * weights[i], 0),
+        y: points.reduce((sum, p, i) => sum + p.y * weights[i], 0),
+      };
+    };
+
+    const cubic = [{x: 0, y: 0}, {x: 150, y: -40}, {x: -50, y: 120}, {x: 100, y: 80}];
+    for (const tolerance of [1, 0.1, 0.01]) {
+      const [result] = await subPathsToArray(of('M0,0 C150,-40 -50,120 100,80').pipe(
+        fromSVGPathData(),
+        cubicToQuadraticSubPaths({tolerance}),
+      ));
+      t.ok(result.commands.every(command => command.type === PathCommand.Type.QUADRATIC_CURVE), 'all quadratic curves');
+      const polyline = [result.startPoint];
+      let lastPoint = result.startPoint;
+      for (const command of result.commands) {
+        if (command.type !== PathCommand.Type.QUADRATIC_CURVE) continue;
+        const points = [lastPoint, ...command.controlPoints, command.toPoint];
+        for (let i = 1; i <= 200; i++) polyline.push(bezier(points, i / 200));
+        lastPoint = command.toPoint;
+      }
+      let maxDistance = 0;
+      for (let i = 0; i <= 200; i++) maxDistance = Math.max(maxDistance, distanceToPolyline(bezier(cubic, i / 200), polyline));
+      t.ok(maxDistance <= tolerance, `${result.commands.length} quadratics within ${tolerance}`);
+    }
+
+    // cubics that were raised from quadratics come back exactly
+    const original = 'M0,0 Q30,60 90,0 L100,0 Q110,-20 120,0';
+    const roundTrip = await of(original).pipe( fromSVGPathData(), quadraticToCubicSubPaths(), cubicToQuadraticSubPaths(), toSVGPathData(), toArray() ).toPromise();
+    t.eq(roundTrip.join(' '), original);
+
+    const [arc] = await subPathsToArray(of('M0,0 A50,50 0 0 0 100,0').pipe( fromSVGPathData(), cubicToQuadraticSubPaths() ));
+    t.ok(arc.commands.length > 1 && arc.commands.every(command => command.type === PathCommand.Type.QUADRATIC_CURVE), 'arcs converted');
+    t.eq(arc.commands[arc.commands.length - 1].toPoint, {x: 100, y: 0});
+
+    t.throws(() => cubicToQuadraticSubPaths({tolerance: 0}));
+
+  });
+
+  t.test('flattenSubPaths', async t => {
+
+    const flatten = async (pathData: string, tolerance: number) => {
+      const [subPath] = await subPathsToArray(of(pathData).pipe( fromSVGPathData(), flattenSubPaths({tolerance}) ));
+      for (const command of subPath.commands) {
+        t.eq(command.type, PathCommand.Type.LINE);
+      }
+      return [subPath.startPoint, ...subPath.commands.map(c => c.toPoint)];
+    };
+
+    t.eq(await flatten('M0,0 L100,0 L100,100', 1), [{x:0, y:0}, {x:100, y:0}, {x:100, y:100}]);
+
+    const cubic = await flatten('M0,0 C100,0 0,100 100,100', 0.1);
+    t.eq(cubic[cubic.length-1], {x:100, y:100});
+    let maxError = 0;
+    for (let i = 0; i <= 1000; i++) {
+      const t = i / 1000, mt = 1 - t;
+      const pt = {x: 3*mt*mt*t*100 + t*t*t*100, y: 3*mt*t*t*100 + t*t*t*100};
+      maxError = Math.max(maxError, distanceToPolyline(pt, cubic));
+    }
+    t.ok(maxError <= 0.1, 'cubic within tolerance');
+    const coarse = await flatten('M0,0 C100,0 0,100 100,100', 5);
+    t.ok(coarse.length < cubic.length, 'fewer points for higher tolerance');
+
+    const quadratic = await flatten('M0,0 Q50,100 100,0', 0.05);
+    maxError = 0;
+    for (let i = 0; i <= 1000; i++) {
+      const t = i / 1000, mt = 1 - t;
+      const pt = {x: 2*mt*t*50 + t*t*100, y: 2*mt*t*100};
+      maxError = Math.max(maxError, distanceToPolyline(pt, quadratic));
+    }
+    t.ok(maxError <= 0.05, 'quadratic within tolerance');
+
+    const arc = await flatten('M10,10 A50,50 0 1 1 110,10', 0.5);
+    t.eq(arc[arc.length-1], {x:110, y:10});
+    for (let i = 1; i < arc.length; i++) {
+      const a = arc[i-1], b = arc[i];
+      t.ok(Math.abs(Math.hypot(b.x - 60, b.y - 10) - 50) < 1e-9, 'arc point on circle');
+      const sagitta = 50 - Math.hypot((a.x + b.x) / 2 - 60, (a.y + b.y) / 2 - 10);
+      t.ok(sagitta <= 0.5, 'arc chord within tolerance');
+    }
+    t.ok(arc.every(pt => pt.y <= 10 + 1e-9), 'positive-angle sweep from the left goes over the top');
+
+    let thrown: any = undefined;
+    try {
+      flattenSubPaths({tolerance: -1});
+    }
+    catch (e) {
+      thrown = e;
+    }
+    t.notEq(thrown, undefined);
+
+  });
+
+  t.test('packSubPaths', async t => {
+
+    const packed = await of(`
+      M0,0
+      L100,0
+      Q150,0 150,60
+      C150,90 90,150 0,150
+      Z
+    `)
+    .pipe(
+      fromSVGPathData(),
+      packSubPaths({arrayType: Float32Array, stride: 3}),
+      toArray(),
+    )
+    .toPromise();
+
+    t.eq(packed.length, 1);
+    const [subPath] = packed;
+    t.ok(subPath.xBuffer.data instanceof Float32Array);
+    t.eq(subPath.xBuffer.stride, 3);
+    t.eq(subPath.yBuffer.stride, 3);
+    t.eq(subPath.xBuffer.offset, 0);
+    t.eq(subPath.yBuffer.offset, 1);
+    const xs = [0, 100, 400/3, 150, 150, 150, 90, 0];
+    const ys = [0, 0, 0, 20, 60, 90, 150, 150];
+    t.eq(
+      Array.from(subPath.xBuffer.data),
+      xs.map((x, i) => [x, ys[i], 0]).reduce((a, b) => a.concat(b)).map(Math.fround),
+    );
+    t.eq(Array.from(subPath.indexBuffer.data), [1, 4, 7]);
+    t.eq(subPath.closed, true);
+
+    const [unpacked] = await subPathsToArray(from(packed).pipe( unpackSubPaths() ));
+    t.eq(unpacked, {
+      closed: true,
+      startPoint: {x:0, y:0},
+      commands: [
+        {type: PathCommand.Type.LINE, toPoint: {x:100, y:0}},
+        {type: PathCommand.Type.CUBIC_CURVE, controlPoints: [{x:Math.fround(400/3), y:0}, {x:150, y:20}], toPoint: {x:150, y:60}},
+        {type: PathCommand.Type.CUBIC_CURVE, controlPoints: [{x:150, y:90}, {x:90, y:150}], toPoint: {x:0, y:150}},
+      ],
+    });
+
+    const [fromPacked] = await subPathsToArray(from(packed));
+    t.eq(fromPacked.commands, unpacked.commands);
+
+    const shared: PackedSubPath = {
+      startPoint: {x:10, y:20},
+      closed: false,
+      commands: [],
+      xBuffer: {data: [10, 20, 30, 40, 99], offset: 0, stride: 2, length: 2},
+      yBuffer: {data: [10, 20, 30, 40, 99], offset: 1, stride: 2, length: 2},
+      indexBuffer: {data: [1, 99], offset: 0, stride: 1, length: 1},
+    };
+    const [fromShared] = await subPathsToArray(of(shared).pipe( unpackSubPaths() ));
+    t.eq(fromShared, {
+      closed: false,
+      startPoint: {x:10, y:20},
+      commands: [
+        {type: PathCommand.Type.LINE, toPoint: {x:30, y:40}},
+      ],
+    });
+
+    // without the lengths, the values after the subpath are read as another command
+    const unbounded: PackedSubPath = {
+      ...shared,
+      indexBuffer: {data: [1, 99], offset: 0, stride: 1},
+    };
+    const error = await subPathsToArray(of(unbounded).pipe( unpackSubPaths() )).catch((e: Error) => e);
+    t.ok(error instanceof Error && /invalid packed command index: 99/.test(error.message));
+
+    let thrown: any = undefined;
+    try {
+      packSubPaths({stride: 1});
+    }
+    catch (e) {
+      thrown = e;
+    }
+    t.notEq(thrown, undefined);
+
+  });
+
+  t.test('shapes', async t => {
+
+    const write = async (subPath: SubPath) => (await of(subPath).pipe( toSVGPathData({precision: 3}), toArray() ).toPromise()).join(' ');
+
+    const square = [{x:0, y:0}, {x:10, y:0}, {x:10, y:10}, {x:0, y:10}];
+    t.eq(await write(polygon(square)), 'M0,0 L10,0 L10,10 L0,10 Z');
+    t.eq(await write(polyline(square)), 'M0,0 L10,0 L10,10 L0,10');
+    t.eq(await write(line(1, 2, 3, 4)), 'M1,2 L3,4');
+    t.eq(
+      await write(polygon(square, {cornerRadius: 2})),
+      'M2,0 L8,0 C9.105,0 10,0.895 10,2 L10,8 C10,9.105 9.105,10 8,10 L2,10 C0.895,10 0,9.105 0,8 L0,2 C0,0.895 0.895,0 2,0 Z',
+      'rounded like a rectangle',
+    );
+    t.eq(await write(polygon(square, {cornerRadius: ['20%', '10%']})), await write(polygon(square, {cornerRadius: [2, 1]})), 'percentages');
+    t.eq(await write(polyline(square, {cornerRadius: 20})), 'M0,0 L5,0 C7.761,0 10,2.239 10,5 C10,7.761 7.761,10 5,10 L0,10', 'limited by the sides');
+
+    t.eq(await write(regularPolygon({centerX: 0, centerY: 0, radius: 10, sides: 4})), 'M0,-10 L10,0 L0,10 L-10,0 Z');
+    t.eq(await write(regularPolygon({centerX: 5, centerY: 5, radius: 10, sides: 3, rotation: 180})), 'M5,15 L-3.66,0 L13.66,0 Z');
+
+    const [fivePoints] = await subPathsToArray(of(star({centerX: 0, centerY: 0, points: 5, innerRadius: 4, outerRadius: 10})));
+    t.eq(fivePoints.commands.length, 9);
+    const distances = [fivePoints.startPoint, ...fivePoints.commands.map(command => command.toPoint)].map(p => Math.hypot(p.x, p.y));
+    t.ok(distances.every((d, i) => Math.abs(d - (i % 2 ? 4 : 10)) < 1e-9), 'alternating radii');
+
+    const [roundedInside] = await subPathsToArray(of(star({
+      centerX: 0, centerY: 0, points: 4, innerRadius: 4, outerRadius: 10, innerCornerRadius: 1,
+    })));
+    t.eq(roundedInside.commands.map(command => command.type).join(''), 'LCLLCLLCLLC', 'only the inner corners rounded');
+
+    t.throws(() => regularPolygon({centerX: 0, centerY: 0, radius: 10, sides: 2}));
+    t.throws(() => star({centerX: 0, centerY: 0, points: 1.5, innerRadius: 4, outerRadius: 10}));
+    t.throws(() => polygon([]));
+    t.throws(() => rectangle({x: 0, y: 0, width: 10, height: 10, radius: ['10', '10%']}));
+
   });
 
 }
@@ -1,6 +1,10 @@
 
-import { Observable, OperatorFunction, of, ObservableInput, from } from 'rxjs';
+import { Observable, OperatorFunction, of, ObservableInput, from, defer, Subscriber } from 'rxjs';
 import { map, concatAll, concatMap, toArray } from 'rxjs/operators';
+import {
+  arcCenterParameters, arcPointAtAngle, splitBezier, distanceToSegment, isPathDataWhitespace, NumberState,
+  isCompleteNumber, nextNumberState,
+} from './geometry';
 
 export namespace PathCommand {
   export const enum Type {
@@ -15,6 +19,16 @@ export namespace PathCommand {
     readonly y: number;
   }
 
+  // how a command was written in the path data it was parsed from, in lossless mode
+  export interface Source {
+    // including any whitespace and separators before the command, so that joining them together
+    // gives back the original path data
+    readonly text: string;
+    // offsets of the command itself in the path data, from its letter or first parameter to the end
+    // of its last parameter
+    readonly span?: {readonly start: number, readonly end: number};
+  }
+
   export interface PointTransformer {
     transformPoint(pt: Point): Point;
   }
@@ -23,18 +37,21 @@ export namespace PathCommand {
     readonly type: Type.LINE;
     readonly controlPoints?: [];
     readonly toPoint: Point;
+    readonly source?: Source;
   }
 
   export interface QuadraticCurve {
     readonly type: Type.QUADRATIC_CURVE;
     readonly controlPoints: readonly [Point];
     readonly toPoint: Point;
+    readonly source?: Source;
   }
 
   export interface CubicCurve {
     readonly type: Type.CUBIC_CURVE;
     readonly controlPoints: readonly [Point, Point];
     readonly toPoint: Point;
+    readonly source?: Source;
   }
 
   export interface Arc {
@@ -45,6 +62,7 @@ export namespace PathCommand {
     readonly largeArcFlag?: boolean;
     readonly sweepFlag?: boolean;  
     readonly toPoint: Point;
+    readonly source?: Source;
   }
 }
 
@@ -53,10 +71,14 @@ export type PathCommand = PathCommand.Line | PathCommand.QuadraticCurve | PathCo
 export interface SubPath<TCommand extends PathCommand = PathCommand> {
   readonly startPoint: PathCommand.Point;
   readonly commands: ObservableInput<TCommand>;
+  // a subpath streamed by fromSVGPathData() only knows this once its commands are complete, so operators
+  // read it after collecting the commands, and those that pass subpaths on before that read it with a getter
   readonly closed?: boolean;
   readonly svgPathData?: string;
 }
 
+export type FillRule = 'nonzero' | 'evenodd';
+
 export function pathCommandToString(cmd: PathCommand): string {
   const p = cmd.toPoint;
   switch (cmd.type) {
@@ -77,358 +99,920 @@ export function pathCommandToString(cmd: PathCommand): string {
   }
 }
 
-export function toSVGPathData(): OperatorFunction<SubPath, string> {
-  return input => input.pipe(
-    map(subPath => {
-      const { svgPathData } = subPath;
-      if (typeof svgPathData === 'string') return of(svgPathData);
-      return new Observable<string>(subscriber => {
-        subscriber.next(`M${subPath.startPoint.x},${subPath.startPoint.y}`);
-        return from(subPath.commands).subscribe(
-          cmd => { subscriber.next(pathCommandToString(cmd)); },
-          e => subscriber.error(e),
-          () => {
-            if (subPath.closed) subscriber.next('Z');
-            subscriber.complete();
-          }
-        );
-      });
-    }),
-    concatAll(),
+export interface SVGPathDataOptions {
+  // most digits to give after the decimal point
+  precision?: number;
+  // 'shortest' picks whichever of absolute or relative coordinates is shorter for each command
+  coordinates?: 'absolute' | 'relative' | 'shortest';
+  // use H, V, S and T where they give the same command
+  shorthands?: boolean;
+  // leave out repeated command letters, leading zeros and separators that are not needed
+  minify?: boolean;
+}
+
+// the parameters of a command, grouped the way they are written out. booleans are arc flags
+type PathDataGroups = Array<Array<number | boolean>>;
+
+interface PathDataCommand {
+  readonly letter: string;
+  readonly groups: PathDataGroups;
+}
+
+// writes path data one command at a time, keeping track of the point that a reader would be at. when
+// rounding, that is the rounded point, so that relative coordinates do not drift away from the path
+function pathDataWriter(options: SVGPathDataOptions) {
+  const { precision, coordinates = 'absolute', shorthands = false, minify = false } = options;
+  if (precision !== undefined && !(Number.isInteger(precision) && precision >= 0 && precision <= 20)) {
+    throw new Error('invalid precision: ' + precision);
+  }
+  const scale = precision === undefined ? 1 : Math.pow(10, precision);
+  const round = precision === undefined ? (n: number) => n : (n: number) => Math.round(n * scale) / scale || 0;
+  const roundPoint = (p: PathCommand.Point) => ({x: round(p.x), y: round(p.y)});
+  const samePoint = (a: PathCommand.Point, b: PathCommand.Point) => a.x === b.x && a.y === b.y;
+  // the text of parsed commands is kept only when writing with no options
+  const preserving = precision === undefined && coordinates === 'absolute' && !shorthands && !minify;
+
+  let position: PathCommand.Point | null = null;
+  let startPoint: PathCommand.Point = {x: 0, y: 0};
+  // the letter that may be left out of the next command
+  let lastLetter = '';
+  // the number at the end of the text so far, if the next number might need separating from it
+  let lastNumber = '';
+  // the control point a shorthand curve would reflect
+  let mirror: {type: 'Q' | 'C', point: PathCommand.Point} | null = null;
+  // the last command if it was written as it was parsed, and whether the last thing written was a closepath
+  let lastVerbatim: PathCommand | null = null;
+  let closed = false;
+
+  const formatNumber = (n: number | boolean) => {
+    if (typeof n === 'boolean') return n ? '1' : '0';
+    const text = String(n);
+    return minify ? text.replace(/^(-?)0\./, '$1.') : text;
+  };
+
+  // the text for a command along with the state after it, without committing to it
+  const format = ({ letter, groups }: PathDataCommand) => {
+    if (!minify) {
+      return {
+        text: letter + groups.map(group => group.map(formatNumber).join(',')).join(' '),
+        lastLetter: letter,
+        lastNumber: '',
+      };
+    }
+    let text = letter === lastLetter ? '' : letter;
+    let previous = text ? '' : lastNumber;
+    for (const value of ([] as Array<number | boolean>).concat(...groups)) {
+      const next = formatNumber(value);
+      const separated = previous !== '' && !(
+        next[0] === '-'
+        || (next[0] === '.' && /[.e]/.test(previous))
+      );
+      text += (separated ? ' ' : '') + next;
+      // a flag is always one character, so nothing after it needs separating
+      previous = typeof value === 'boolean' ? '' : next;
+    }
+    // more coordinates after a moveto are lines
+    const implicitLetter = letter === 'M' ? 'L' : letter === 'm' ? 'l' : letter;
+    return {text, lastLetter: implicitLetter, lastNumber: previous};
+  };
+
+  const commit = (result: ReturnType<typeof format>) => {
+    lastLetter = result.lastLetter;
+    lastNumber = result.lastNumber;
+    return result.text;
+  };
+
+  // picks between absolute and relative versions of the command
+  const write = (absolute: PathDataCommand, relative: PathDataCommand | null) => {
+    if (!relative || coordinates === 'absolute') return commit(format(absolute));
+    if (coordinates === 'relative') return commit(format(relative));
+    const a = format(absolute), r = format(relative);
+    return commit(r.text.length < a.text.length ? r : a);
+  };
+
+  const relativeTo = (base: PathCommand.Point) => (p: PathCommand.Point) => [round(p.x - base.x), round(p.y - base.y)];
+
+  // the control point of a shorthand curve, with the same arithmetic as the parser
+  const reflect = (base: PathCommand.Point, type: 'Q' | 'C') => (
+    mirror && mirror.type === type ? roundPoint({x: base.x + (base.x - mirror.point.x), y: base.y + (base.y - mirror.point.y)}) : base
   );
+
+  const moveTo = (point: PathCommand.Point) => {
+    const to = roundPoint(point);
+    const from = position;
+    lastLetter = lastNumber = '';
+    position = startPoint = to;
+    mirror = null;
+    lastVerbatim = null;
+    closed = false;
+    return write({letter: 'M', groups: [[to.x, to.y]]}, from && {letter: 'm', groups: [relativeTo(from)(to)]});
+  };
+
+  const writeCommand = (cmd: PathCommand) => {
+    const base = position!;
+    const rel = relativeTo(base);
+    const to = roundPoint(cmd.toPoint);
+    position = to;
+    switch (cmd.type) {
+      case PathCommand.Type.LINE: {
+        mirror = null;
+        if (shorthands && to.y === base.y) {
+          return write({letter: 'H', groups: [[to.x]]}, {letter: 'h', groups: [[round(to.x - base.x)]]});
+        }
+        if (shorthands && to.x === base.x) {
+          return write({letter: 'V', groups: [[to.y]]}, {letter: 'v', groups: [[round(to.y - base.y)]]});
+        }
+        return write({letter: 'L', groups: [[to.x, to.y]]}, {letter: 'l', groups: [rel(to)]});
+      }
+      case PathCommand.Type.QUADRATIC_CURVE: {
+        const c = roundPoint(cmd.controlPoints[0]);
+        const reflected = reflect(base, 'Q');
+        mirror = {type: 'Q', point: c};
+        if (shorthands && samePoint(c, reflected)) {
+          return write({letter: 'T', groups: [[to.x, to.y]]}, {letter: 't', groups: [rel(to)]});
+        }
+        return write(
+          {letter: 'Q', groups: [[c.x, c.y], [to.x, to.y]]},
+          {letter: 'q', groups: [rel(c), rel(to)]},
+        );
+      }
+      case PathCommand.Type.CUBIC_CURVE: {
+        const c1 = roundPoint(cmd.controlPoints[0]), c2 = roundPoint(cmd.controlPoints[1]);
+        const reflected = reflect(base, 'C');
+        mirror = {type: 'C', point: c2};
+        if (shorthands && samePoint(c1, reflected)) {
+          return write(
+            {letter: 'S', groups: [[c2.x, c2.y], [to.x, to.y]]},
+            {letter: 's', groups: [rel(c2), rel(to)]},
+          );
+        }
+        return write(
+          {letter: 'C', groups: [[c1.x, c1.y], [c2.x, c2.y], [to.x, to.y]]},
+          {letter: 'c', groups: [rel(c1), rel(c2), rel(to)]},
+        );
+      }
+      case PathCommand.Type.ARC: {
+        mirror = null;
+        const shape = [[round(cmd.radiusX)], [round(cmd.radiusY)], [round(cmd.rotateDegrees)], [!!cmd.largeArcFlag], [!!cmd.sweepFlag]];
+        return write(
+          {letter: 'A', groups: [...shape, [to.x, to.y]]},
+          {letter: 'a', groups: [...shape, rel(to)]},
+        );
+      }
+    }
+  };
+
+  // whether the text a command was parsed from would still be read as the same command here
+  const isUnchanged = (cmd: PathCommand) => {
+    const context = commandSources.get(cmd);
+    if (!context || !cmd.source || !position || !samePoint(position, context.base)) return false;
+    if (context.previous && context.previous !== lastVerbatim) return false;
+    if (cmd.type === PathCommand.Type.CUBIC_CURVE && context.letter.toUpperCase() === 'S') {
+      return samePoint(cmd.controlPoints[0], reflect(position, 'C'));
+    }
+    if (cmd.type === PathCommand.Type.QUADRATIC_CURVE && context.letter.toUpperCase() === 'T') {
+      return samePoint(cmd.controlPoints[0], reflect(position, 'Q'));
+    }
+    return true;
+  };
+
+  const command = (cmd: PathCommand) => {
+    const verbatim = preserving && isUnchanged(cmd);
+    const text = writeCommand(cmd);
+    lastVerbatim = verbatim ? cmd : null;
+    closed = false;
+    return verbatim ? cmd.source!.text : text;
+  };
+
+  const closePath = () => {
+    position = startPoint;
+    mirror = null;
+    lastVerbatim = null;
+    closed = true;
+    return commit(format({letter: coordinates === 'relative' ? 'z' : 'Z', groups: []}));
+  };
+
+  // the text a subpath was parsed from, if it would still be read as the same subpath here
+  const parsedSubPath = (subPath: SubPath, context: SubPathSourceContext): string | null => {
+    if (!preserving || (context.continuesClosePath && !closed)) return null;
+    if (context.relative && (context.base && position ? !samePoint(context.base, position) : context.base !== position)) {
+      return null;
+    }
+    position = context.endPoint;
+    startPoint = subPath.startPoint;
+    mirror = lastVerbatim = null;
+    closed = !!subPath.closed;
+    return subPath.svgPathData!;
+  };
+
+  // path data written some other way leaves the reader somewhere unknown
+  const unknownPosition = () => {
+    position = null;
+    mirror = lastVerbatim = null;
+    closed = false;
+  };
+
+  return { moveTo, command, closePath, parsedSubPath, unknownPosition };
 }
 
-function pathCommands(startPoint: PathCommand.Point, input: Observable<string>): Observable<PathCommand> {
-  let lastPoint = startPoint;
-  let qMirror = lastPoint;
-  let cMirror = lastPoint;
-  return new Observable(subscriber => {
-    const onCompleteCommand = (cmdString: string) => {
-      const match = cmdString.match(/^\s*([a-df-z])\s*((?!\s)[^a-df-z]+)?$/i)!;
-      const commandCode = match[1], commandParameters = match[2] ? match[2].trim().split(/\s*,\s*|\s+/g).map(parseFloat) : [];
-      switch (commandCode) {
-        case 'L': {
-          if (commandParameters.length < 2 || commandParameters.length % 2) {
-            subscriber.error(new Error('invalid number of parameters: ' + cmdString));
-            return;
-          }
-          for (let i = 0; i < commandParameters.length; i += 2) {
-            lastPoint = {x: commandParameters[i], y: commandParameters[i+1]};
-            subscriber.next({type:PathCommand.Type.LINE, toPoint:lastPoint});
-          }
-          qMirror = cMirror = lastPoint;
-          return;
+// each moveto, command and closepath is emitted separately, as it is by pathCommandToString, except that
+// with no options subpaths and commands parsed in lossless mode are given back as they were written wherever
+// they would still be read the same way. joining it all together with no separators then gives back the
+// original text. other parts are joined with spaces, apart from minified ones, which start with whatever
+// separator they need and so are joined with no separators
+export function toSVGPathData(options: SVGPathDataOptions = {}): OperatorFunction<SubPath, string> {
+  // checking the options now rather than on subscribing
+  pathDataWriter(options);
+  return input => defer(() => {
+    const writer = pathDataWriter(options);
+    return input.pipe(
+      concatMap(subPath => {
+        const { svgPathData } = subPath;
+        const sourceContext = subPathSources.get(subPath);
+        if (sourceContext) {
+          // otherwise it is written out again, keeping the text of any commands that still apply
+          const text = writer.parsedSubPath(subPath, sourceContext);
+          if (text !== null) return of(text);
         }
-        case 'l': {
-          if (commandParameters.length < 2 || commandParameters.length % 2) {
-            subscriber.error(new Error('invalid number of parameters: ' + cmdString));
-            return;
-          }
-          for (let i = 0; i < commandParameters.length; i += 2) {
-            lastPoint = {x: lastPoint.x + commandParameters[i], y: lastPoint.y + commandParameters[i+1]};
-            subscriber.next({type:PathCommand.Type.LINE, toPoint:lastPoint});
-          }
-          qMirror = cMirror = lastPoint;
-          return;
+        else if (typeof svgPathData === 'string') {
+          writer.unknownPosition();
+          return of(svgPathData);
         }
-        case 'H': {
-          if (commandParameters.length < 1) {
-            subscriber.error(new Error('invalid number of parameters: ' + cmdString));
-            return;
-          }
-          for (let i = 0; i < commandParameters.length; i++) {
-            lastPoint = {x: commandParameters[i], y: lastPoint.y};
-            subscriber.next({type:PathCommand.Type.LINE, toPoint:lastPoint});
-          }
-          qMirror = cMirror = lastPoint;
-          return;
+        return new Observable<string>(subscriber => {
+          subscriber.next(writer.moveTo(subPath.startPoint));
+          return from(subPath.commands).subscribe(
+            cmd => { subscriber.next(writer.command(cmd)); },
+            e => subscriber.error(e),
+            () => {
+              if (subPath.closed) subscriber.next(writer.closePath());
+              subscriber.complete();
+            }
+          );
+        });
+      }),
+    );
+  });
+}
+
+export class SVGPathDataError extends Error {
+  constructor(message: string, readonly offset: number, readonly token: string) {
+    super(`${message} at offset ${offset}` + (token ? `: ${JSON.stringify(token)}` : ''));
+    this.name = 'SVGPathDataError';
+  }
+}
+
+export namespace PathEvent {
+  export interface MoveTo {
+    readonly type: 'M';
+    readonly toPoint: PathCommand.Point;
+    // with empty text after a closepath, when the next command starts a new subpath without a moveto
+    readonly source?: PathCommand.Source;
+  }
+
+  export interface ClosePath {
+    readonly type: 'Z';
+    // the start point of the subpath being closed
+    readonly toPoint: PathCommand.Point;
+    readonly source?: PathCommand.Source;
+  }
+}
+
+export type PathEvent = PathEvent.MoveTo | PathCommand | PathEvent.ClosePath;
+
+export interface SVGPathDataParseOptions {
+  // keep how each command was written, so that toSVGPathData can give back the same text for the
+  // parts that have not changed
+  lossless?: boolean;
+  // in lossless mode, also give where each command is in the path data
+  spans?: boolean;
+}
+
+// what the source text of a parsed command relies on, to check that it still applies when writing
+interface CommandSourceContext {
+  // the current point before the command
+  readonly base: PathCommand.Point;
+  // the command as written, or the one it repeats
+  readonly letter: string;
+  // the event before a command with no letter of its own, which has to be written before it as it was
+  readonly previous: PathEvent | null;
+}
+
+const commandSources = new WeakMap<PathEvent, CommandSourceContext>();
+
+interface SubPathSourceContext {
+  // whether the start point is relative to the current point before the subpath, if there was one
+  readonly relative: boolean;
+  readonly base: PathCommand.Point | null;
+  // when there was no moveto after a closepath, which only starts a new subpath after another closepath
+  readonly continuesClosePath: boolean;
+  readonly endPoint: PathCommand.Point;
+}
+
+const subPathSources = new WeakMap<SubPath, SubPathSourceContext>();
+
+interface PathDataToken {
+  readonly type: 'command' | 'number' | 'flag' | 'end';
+  readonly text: string;
+  readonly offset: number;
+}
+
+const PATH_DATA_PARAMETER_COUNTS: {readonly [command: string]: number} = {
+  M: 2, L: 2, H: 1, V: 1, C: 6, S: 4, Q: 4, T: 2, A: 7, Z: 0,
+};
+
+// follows the path data grammar of SVG 2: https://www.w3.org/TR/SVG2/paths.html#PathDataBNF
+// numbers need no separator where the next one could not continue the previous one ("M.5.5", "L10-20")
+// and arc flags are always a single character ("a25 25 0 1150 50")
+export function svgPathDataEvents(options: SVGPathDataParseOptions = {}): OperatorFunction<string, PathEvent> {
+  const { lossless = false, spans = false } = options;
+  return input => new Observable(subscriber => {
+    let command: string | null = null;
+    let parameterCount = 0;
+    let parameters = new Array<number>();
+    let executed = false;
+    let startPoint: PathCommand.Point = {x: 0, y: 0};
+    let lastPoint = startPoint;
+    // the second-to-last point of the previous command, if it was a curve of the same kind
+    let qMirror: PathCommand.Point | null = null;
+    let cMirror: PathCommand.Point | null = null;
+    let needsMove = false;
+
+    let offset = 0;
+    let numberState = NumberState.NONE, numberText = '', numberOffset = 0;
+    // offset of a comma read since the last parameter, or -1
+    let commaOffset = -1;
+
+    // in lossless mode, the text read since the last event, and where it starts
+    let sourceText = '', sourceOffset = 0;
+    // where the current command starts, or -1, and whether it has a letter of its own
+    let spanStart = -1, hasLetter = false;
+    // end of the last token, which ends any command it completes
+    let tokenEnd = 0;
+    // each event is held back until the next one, so that it can be given any text at the very end
+    let held: {
+      event: PathEvent,
+      text: string,
+      span: {start: number, end: number},
+      context: CommandSourceContext | null,
+      hasLetter: boolean,
+    } | null = null;
+    let lastReleased: PathEvent | null = null;
+
+    const release = () => {
+      if (!held) return;
+      const { event, text, span, context, hasLetter } = held;
+      const source: PathCommand.Source = spans ? {text, span} : {text};
+      const sourced: PathEvent = {...event, source};
+      if (context) commandSources.set(sourced, {...context, previous: hasLetter ? null : lastReleased});
+      held = null;
+      lastReleased = sourced;
+      subscriber.next(sourced);
+    };
+
+    const takeSource = (end: number) => {
+      const text = sourceText.slice(0, end - sourceOffset);
+      sourceText = sourceText.slice(end - sourceOffset);
+      sourceOffset = end;
+      return text;
+    };
+
+    // a moveto with no text of its own starts a subpath after a closepath
+    const emit = (event: PathEvent, context: CommandSourceContext | null, hasText = true) => {
+      if (!lossless) {
+        subscriber.next(event);
+        return;
+      }
+      release();
+      const end = hasText ? tokenEnd : sourceOffset;
+      held = {event, text: takeSource(end), span: {start: hasText ? spanStart : end, end}, context, hasLetter};
+      if (hasText) {
+        spanStart = -1;
+        hasLetter = false;
+      }
+    };
+
+    const fail = (message: string, offset: number, text: string) => {
+      release();
+      subscriber.error(new SVGPathDataError(message, offset, text));
+    };
+
+    const execute = (command: string, p: number[]) => {
+      const relative = command === command.toLowerCase();
+      const base = lastPoint;
+      const point = (i: number): PathCommand.Point => (
+        relative
+        ? {x: base.x + p[i], y: base.y + p[i+1]}
+        : {x: p[i], y: p[i+1]}
+      );
+      const upper = command.toUpperCase();
+      if (upper === 'M') {
+        startPoint = lastPoint = point(0);
+        qMirror = cMirror = null;
+        needsMove = false;
+        emit({type: 'M', toPoint: lastPoint}, {base, letter: command, previous: null});
+        return;
+      }
+      if (needsMove) {
+        // drawing after a closepath starts a new subpath from the same point
+        needsMove = false;
+        emit({type: 'M', toPoint: lastPoint}, null, false);
+      }
+      let next: PathCommand;
+      let nextQMirror: PathCommand.Point | null = null, nextCMirror: PathCommand.Point | null = null;
+      switch (upper) {
+        case 'L': {
+          next = {type: PathCommand.Type.LINE, toPoint: point(0)};
+          break;
         }
-        case 'h': {
-          if (commandParameters.length < 1) {
-            subscriber.error(new Error('invalid number of parameters: ' + cmdString));
-            return;
-          }
-          for (let i = 0; i < commandParameters.length; i++) {
-            lastPoint = {x: lastPoint.x + commandParameters[i], y: lastPoint.y};
-            subscriber.next({type:PathCommand.Type.LINE, toPoint:lastPoint});
-          }
-          qMirror = cMirror = lastPoint;
-          return;
+        case 'H': {
+          next = {type: PathCommand.Type.LINE, toPoint: {x: relative ? base.x + p[0] : p[0], y: base.y}};
+          break;
         }
         case 'V': {
-          if (commandParameters.length < 1) {
-            subscriber.error(new Error('invalid number of parameters: ' + cmdString));
-            return;
-          }
-          for (let i = 0; i < commandParameters.length; i++) {
-            lastPoint = {x: lastPoint.x, y: commandParameters[i]};
-            subscriber.next({type:PathCommand.Type.LINE, toPoint:lastPoint});
-          }
-          qMirror = cMirror = lastPoint;
-          return;
-        }
-        case 'v': {
-          if (commandParameters.length < 1) {
-            subscriber.error(new Error('invalid number of parameters: ' + cmdString));
-            return;
-          }
-          for (let i = 0; i < commandParameters.length; i++) {
-            lastPoint = {x: lastPoint.x, y: lastPoint.y + commandParameters[i]};
-            subscriber.next({type:PathCommand.Type.LINE, toPoint:lastPoint});
-          }
-          qMirror = cMirror = lastPoint;
-          return;
+          next = {type: PathCommand.Type.LINE, toPoint: {x: base.x, y: relative ? base.y + p[0] : p[0]}};
+          break;
         }
         case 'Q': {
-          if (commandParameters.length < 4 || commandParameters.length % 4) {
-            subscriber.error(new Error('invalid number of parameters: ' + cmdString));
-            return;
-          }
-          for (let i = 0; i < commandParameters.length; i += 4) {
-            qMirror = {x: commandParameters[i], y: commandParameters[i+1]};
-            lastPoint = {x: commandParameters[i+2], y: commandParameters[i+3]};
-            subscriber.next({type: PathCommand.Type.QUADRATIC_CURVE, controlPoints: [qMirror], toPoint: lastPoint});
-          }
-          return;
-        }
-        case 'q': {
-          if (commandParameters.length < 4 || commandParameters.length % 4) {
-            subscriber.error(new Error('invalid number of parameters: ' + cmdString));
-            return;
-          }
-          for (let i = 0; i < commandParameters.length; i += 4) {
-            qMirror = {x: lastPoint.x + commandParameters[i], y: lastPoint.y + commandParameters[i+1]};
-            lastPoint = {x: lastPoint.x + commandParameters[i+2], y: lastPoint.y + commandParameters[i+3]};
-            subscriber.next({type: PathCommand.Type.QUADRATIC_CURVE, controlPoints: [qMirror], toPoint: lastPoint});
-          }
-          return;
+          nextQMirror = point(0);
+          next = {type: PathCommand.Type.QUADRATIC_CURVE, controlPoints: [nextQMirror], toPoint: point(2)};
+          break;
         }
         case 'T': {
-          if (commandParameters.length < 2 || commandParameters.length % 2) {
-            subscriber.error(new Error('invalid number of parameters: ' + cmdString));
-            return;
-          }
-          for (let i = 0; i < commandParameters.length; i += 2) {
-            qMirror = {x: lastPoint.x + (lastPoint.x - qMirror.x), y: lastPoint.y + (lastPoint.y - qMirror.y)};
-            lastPoint = {x: commandParameters[i], y: commandParameters[i+1]};
-            subscriber.next({type: PathCommand.Type.QUADRATIC_CURVE, controlPoints: [qMirror], toPoint: lastPoint});
-          }
-          return;
-        }
-        case 't': {
-          if (commandParameters.length < 2 || commandParameters.length % 2) {
-            subscriber.error(new Error('invalid number of parameters: ' + cmdString));
-            return;
-          }
-          for (let i = 0; i < commandParameters.length; i += 2) {
-            qMirror = {x: lastPoint.x + (lastPoint.x - qMirror.x), y: lastPoint.y + (lastPoint.y - qMirror.y)};
-            lastPoint = {x: lastPoint.x + commandParameters[i], y: lastPoint.y + commandParameters[i+1]};
-            subscriber.next({type: PathCommand.Type.QUADRATIC_CURVE, controlPoints: [qMirror], toPoint: lastPoint});
-          }
-          return;
+          nextQMirror = qMirror ? {x: base.x + (base.x - qMirror.x), y: base.y + (base.y - qMirror.y)} : base;
+          next = {type: PathCommand.Type.QUADRATIC_CURVE, controlPoints: [nextQMirror], toPoint: point(0)};
+          break;
         }
         case 'C': {
-          if (commandParameters.length < 6 || commandParameters.length % 6) {
-            subscriber.error(new Error('invalid number of parameters: ' + cmdString));
+          nextCMirror = point(2);
+          next = {type: PathCommand.Type.CUBIC_CURVE, controlPoints: [point(0), nextCMirror], toPoint: point(4)};
+          break;
+        }
+        case 'S': {
+          const ctrlPt1 = cMirror ? {x: base.x + (base.x - cMirror.x), y: base.y + (base.y - cMirror.y)} : base;
+          nextCMirror = point(0);
+          next = {type: PathCommand.Type.CUBIC_CURVE, controlPoints: [ctrlPt1, nextCMirror], toPoint: point(2)};
+          break;
+        }
+        case 'A': {
+          next = {
+            type: PathCommand.Type.ARC,
+            radiusX: p[0],
+            radiusY: p[1],
+            rotateDegrees: p[2],
+            largeArcFlag: p[3] === 1,
+            sweepFlag: p[4] === 1,
+            toPoint: point(5),
+          };
+          break;
+        }
+        default: {
+          throw new Error('unknown command: ' + command);
+        }
+      }
+      qMirror = nextQMirror;
+      cMirror = nextCMirror;
+      lastPoint = next.toPoint;
+      emit(next, {base, letter: command, previous: null});
+    };
+
+    const closePath = () => {
+      if (needsMove) return;
+      lastPoint = startPoint;
+      qMirror = cMirror = null;
+      needsMove = true;
+      emit({type: 'Z', toPoint: startPoint}, null);
+    };
+
+    const checkComplete = (token: PathDataToken) => {
+      if (commaOffset !== -1) {
+        fail('unexpected comma', commaOffset, ',');
+        return false;
+      }
+      if (command === null) return true;
+      if (parameters.length > 0) {
+        fail(`incomplete parameters for ${command} command, expected number`, token.offset, token.text);
+        return false;
+      }
+      if (!executed) {
+        fail(`missing parameters for ${command} command, expected number`, token.offset, token.text);
+        return false;
+      }
+      return true;
+    };
+
+    const onToken = (token: PathDataToken) => {
+      switch (token.type) {
+        case 'command': {
+          if (!checkComplete(token)) return;
+          const upper = token.text.toUpperCase();
+          if (!(upper in PATH_DATA_PARAMETER_COUNTS)) {
+            fail('invalid command', token.offset, token.text);
             return;
           }
-          for (let i = 0; i < commandParameters.length; i += 6) {
-            const ctrlPt1 = {x: commandParameters[i], y: commandParameters[i+1]};
-            cMirror = {x: commandParameters[i+2], y: commandParameters[i+3]};
-            lastPoint = {x: commandParameters[i+4], y: commandParameters[i+5]};
-            subscriber.next({type: PathCommand.Type.CUBIC_CURVE, controlPoints: [ctrlPt1, cMirror], toPoint: lastPoint});
-          }
-          return;
-        }
-        case 'c': {
-          if (commandParameters.length < 6 || commandParameters.length % 6) {
-            subscriber.error(new Error('invalid number of parameters: ' + cmdString));
+          if (command === null && upper !== 'M') {
+            fail('expected M or m', token.offset, token.text);
             return;
           }
-          for (let i = 0; i < commandParameters.length; i += 6) {
-            const ctrlPt1 = {x: lastPoint.x + commandParameters[i], y: lastPoint.y + commandParameters[i+1]};
-            cMirror = {x: lastPoint.x + commandParameters[i+2], y: lastPoint.y + commandParameters[i+3]};
-            lastPoint = {x: lastPoint.x + commandParameters[i+4], y: lastPoint.y + commandParameters[i+5]};
-            subscriber.next({type: PathCommand.Type.CUBIC_CURVE, controlPoints: [ctrlPt1, cMirror], toPoint: lastPoint});
+          spanStart = token.offset;
+          tokenEnd = token.offset + 1;
+          hasLetter = true;
+          command = token.text;
+          parameterCount = PATH_DATA_PARAMETER_COUNTS[upper];
+          parameters = [];
+          executed = false;
+          if (upper === 'Z') {
+            closePath();
+            executed = true;
           }
           return;
         }
-        case 'S': {
-          if (commandParameters.length < 4 || commandParameters.length % 4) {
-            subscriber.error(new Error('invalid number of parameters: ' + cmdString));
+        case 'flag':
+        case 'number': {
+          if (command === null) {
+            fail('expected M or m', token.offset, token.text);
             return;
           }
-          for (let i = 0; i < commandParameters.length; i += 4) {
-            const ctrlPt1 = {x: lastPoint.x + (lastPoint.x - cMirror.x), y: lastPoint.y + (lastPoint.y - cMirror.y)};
-            cMirror = {x: commandParameters[i], y: commandParameters[i+1]};
-            lastPoint = {x: commandParameters[i+2], y: commandParameters[i+3]};
-            subscriber.next({type: PathCommand.Type.CUBIC_CURVE, controlPoints: [ctrlPt1, cMirror], toPoint: lastPoint});
-          }
-          return;
-        }
-        case 's': {
-          if (commandParameters.length < 4 || commandParameters.length % 4) {
-            subscriber.error(new Error('invalid number of parameters: ' + cmdString));
+          if (parameterCount === 0) {
+            fail(`unexpected number after ${command} command`, token.offset, token.text);
             return;
           }
-          for (let i = 0; i < commandParameters.length; i += 4) {
-            const ctrlPt1 = {x: lastPoint.x + (lastPoint.x - cMirror.x), y: lastPoint.y + (lastPoint.y - cMirror.y)};
-            cMirror = {x: lastPoint.x + commandParameters[i], y: lastPoint.y + commandParameters[i+1]};
-            lastPoint = {x: lastPoint.x + commandParameters[i+2], y: lastPoint.y + commandParameters[i+3]};
-            subscriber.next({type: PathCommand.Type.CUBIC_CURVE, controlPoints: [ctrlPt1, cMirror], toPoint: lastPoint});
+          commaOffset = -1;
+          if (spanStart === -1) spanStart = token.offset;
+          tokenEnd = token.offset + token.text.length;
+          parameters.push(+token.text);
+          if (parameters.length === parameterCount) {
+            execute(command, parameters);
+            parameters = [];
+            executed = true;
+            // additional coordinate pairs after a moveto are treated as lineto
+            if (command === 'M') command = 'L';
+            else if (command === 'm') command = 'l';
           }
           return;
         }
-        case 'A': {
-          if (commandParameters.length < 7 || commandParameters.length % 7) {
-            subscriber.error(new Error('invalid number of parameters: ' + cmdString));
-            return;
-          }
-          for (let i = 0; i < commandParameters.length; i += 7) {
-            lastPoint = {x: commandParameters[i+5], y: commandParameters[i+6]};
-            subscriber.next({
-              type: PathCommand.Type.ARC,
-              radiusX: commandParameters[i],
-              radiusY: commandParameters[i+1],
-              rotateDegrees: commandParameters[i+2],
-              largeArcFlag: !!commandParameters[i+3],
-              sweepFlag: !!commandParameters[i+4],
-              toPoint: lastPoint,
-            });
-          }
+        case 'end': {
+          if (!checkComplete(token)) return;
+          // anything after the last command goes with it
+          if (held) held.text += takeSource(token.offset);
+          release();
+          subscriber.complete();
           return;
         }
-        case 'a': {
-          if (commandParameters.length < 7 || commandParameters.length % 7) {
-            subscriber.error(new Error('invalid number of parameters: ' + cmdString));
-            return;
-          }
-          for (let i = 0; i < commandParameters.length; i += 7) {
-            lastPoint = {x: lastPoint.x + commandParameters[i+5], y: lastPoint.y + commandParameters[i+6]};
-            subscriber.next({
-              type: PathCommand.Type.ARC,
-              radiusX: commandParameters[i],
-              radiusY: commandParameters[i+1],
-              rotateDegrees: commandParameters[i+2],
-              largeArcFlag: !!commandParameters[i+3],
-              sweepFlag: !!commandParameters[i+4],
-              toPoint: lastPoint,
-            });
-          }
+      }
+    };
+
+    const isExpectingFlag = () => (
+      (command === 'A' || command === 'a') && (parameters.length === 3 || parameters.length === 4)
+    );
+
+    const finishNumber = (): boolean => {
+      const text = numberText, state = numberState;
+      numberState = NumberState.NONE;
+      numberText = '';
+      if (!isCompleteNumber(state)) {
+        fail('invalid number', numberOffset, text);
+        return false;
+      }
+      onToken({type: 'number', text, offset: numberOffset});
+      return !subscriber.closed;
+    };
+
+    const onChar = (c: string) => {
+      if (numberState !== NumberState.NONE) {
+        const nextState = nextNumberState(numberState, c);
+        if (nextState !== NumberState.NONE) {
+          numberState = nextState;
+          numberText += c;
           return;
         }
-        default: {
-          subscriber.error(new Error('invalid command: ' + cmdString));
+        if (!finishNumber()) return;
+      }
+      if (isPathDataWhitespace(c)) {
+        return;
+      }
+      if (c === ',') {
+        // a comma may only appear once, between two parameters
+        if (commaOffset !== -1 || command === null || parameterCount === 0 || (parameters.length === 0 && !executed)) {
+          fail('unexpected comma', offset, c);
           return;
         }
+        commaOffset = offset;
+        return;
+      }
+      if (isExpectingFlag()) {
+        if (c === '0' || c === '1') {
+          onToken({type: 'flag', text: c, offset});
+        }
+        else {
+          fail('invalid flag, expected 0 or 1', offset, c);
+        }
+        return;
+      }
+      const state = nextNumberState(NumberState.NONE, c);
+      if (state !== NumberState.NONE) {
+        numberState = state;
+        numberText = c;
+        numberOffset = offset;
+        return;
       }
+      if (/^[a-z]$/i.test(c)) {
+        onToken({type: 'command', text: c, offset});
+        return;
+      }
+      fail('unexpected character', offset, c);
     };
-    let prefix = '';
+
     return input.subscribe(
-      str => {
-        str = prefix + str;
-        for (;;) {
-          const match = str.match(/^\s*[a-df-z][^a-df-z]*(?=[a-df-z])/i);
-          if (!match) break;
-          onCompleteCommand(match[0]);
-          str = str.slice(match[0].length);
-        }
-        prefix = str;
+      chunk => {
+        if (lossless) sourceText += chunk;
+        for (let i = 0; i < chunk.length && !subscriber.closed; i++, offset++) {
+          onChar(chunk[i]);
+        }
       },
       e => subscriber.error(e),
       () => {
-        if (/\S/.test(prefix)) {
-          onCompleteCommand(prefix);
-        }
-        subscriber.complete();
+        if (numberState !== NumberState.NONE && !finishNumber()) return;
+        onToken({type: 'end', text: '', offset});
       },
     );
   });
 }
 
-function splitSubPathStrings(): OperatorFunction<string, string> {
+// each subpath has the text it was parsed from as its svgPathData, so it is only emitted once complete
+function losslessSubPaths(options: SVGPathDataParseOptions): OperatorFunction<string, SubPath> {
   return input => new Observable(subscriber => {
-    let str = '';
-    return input.subscribe(
-      chunk => {
-        str += chunk;
-        for (;;) {
-          const match = str.match(/^\s*(\S[^zm]*)(?=m)/i);
-          if (!match) {
+    let startPoint: PathCommand.Point | null = null;
+    let commands = new Array<PathCommand>();
+    let lastPoint: PathCommand.Point | null = null;
+    let sourceTexts = new Array<string>();
+    let sourceContext: Omit<SubPathSourceContext, 'endPoint'> | null = null;
+    const flush = (closed: boolean) => {
+      if (startPoint) {
+        const subPath: SubPath = {startPoint, commands, closed, svgPathData: sourceTexts.join('')};
+        subPathSources.set(subPath, {...sourceContext!, endPoint: lastPoint!});
+        subscriber.next(subPath);
+        startPoint = null;
+        commands = [];
+        sourceTexts = [];
+      }
+    };
+    return input.pipe( svgPathDataEvents(options) ).subscribe(
+      event => {
+        const base = lastPoint;
+        if (event.type === 'M') flush(false);
+        lastPoint = event.toPoint;
+        if (event.source) sourceTexts.push(event.source.text);
+        switch (event.type) {
+          case 'M': {
+            startPoint = event.toPoint;
+            const context = commandSources.get(event);
+            sourceContext = {relative: !context || context.letter === 'm', base, continuesClosePath: !context};
             return;
           }
-          if (match[1][0].toLowerCase() !== 'm') {
-            subscriber.error(new Error('expected M or m, got '+match[1][0]));
+          case 'Z': {
+            flush(true);
             return;
           }
-          subscriber.next(match[1]);
-          str = str.slice(match[0].length);
-        }
-      },
-      (e) => subscriber.error(e),
-      () => {
-        const match = str.match(/^\s*(\S[\s\S]*)$/i);
-        if (match) {
-          if (match[1][0].toLowerCase() !== 'm') {
-            subscriber.error(new Error('expected M or m, got '+match[1][0]));
+          default: {
+            commands.push(event);
             return;
           }
-          subscriber.next(match[1]);
         }
+      },
+      e => {
+        // as with rendering, everything up to the error is still used
+        flush(false);
+        subscriber.error(e);
+      },
+      () => {
+        flush(false);
         subscriber.complete();
       },
     );
   });
 }
 
-export function fromSVGPathData(): OperatorFunction<string, SubPath> {
-  return input => {
-    let lastPoint = {x:0, y:0};
-    return input.pipe(
-      splitSubPathStrings(),
-      concatMap((subPathString): Observable<SubPath> => {
-        const match = subPathString.match(/^\s*(m)([^a-df-z]*)([^mz]*)(z\s*)?$/i)!;
-        const moveParams = match[2].trim().split(/\s*,\s*|\s+/g).map(parseFloat);
-        if (moveParams.length < 2 || moveParams.length % 2) {
-          throw new Error('invalid number of parameters: ' + match[1] + match[2]);
-        }
-        lastPoint = (
-          match[1] === 'm'
-          ? {x: lastPoint.x + moveParams[0], y: lastPoint.y + moveParams[1]}
-          : {x:               moveParams[0], y:               moveParams[1]}
-        );
-        let commandStr = match[3];
-        if (moveParams.length > 2) {
-          commandStr = `${match[1] === 'm' ? 'l' : 'L'}${moveParams.slice(2).join(' ')} ${commandStr}`;
-        }
-        const closed = !!match[4];
-        const startPoint = lastPoint;
-        return pathCommands(startPoint, of(commandStr)).pipe(
-          toArray(),
-          map(commands => {
-            lastPoint = commands[commands.length-1].toPoint;
-            return { closed, startPoint, commands };
-          }),
-        )
-      }),
-    );
+interface StreamedSubPath {
+  readonly subPath: SubPath;
+  next(command: PathCommand): void;
+  end(closed: boolean): void;
+}
+
+// a subpath emitted as soon as its moveto is parsed. its commands are kept only until something
+// subscribes to them, and then passed on as they are parsed without being kept, so a subpath read as it
+// arrives is never held in memory in full. commands read that way cannot be read again, but ones that
+// were all parsed before anything subscribed can be read any number of times
+function streamedSubPath(startPoint: PathCommand.Point): StreamedSubPath {
+  let kept: PathCommand[] | null = [];
+  let reader: Subscriber<PathCommand> | null = null;
+  let ended = false, closed = false;
+  const commands = new Observable<PathCommand>(subscriber => {
+    if (!kept) {
+      subscriber.error(new Error('the commands of a streamed subpath can only be read once'));
+      return;
+    }
+    for (const command of kept) subscriber.next(command);
+    if (ended) {
+      subscriber.complete();
+      return;
+    }
+    kept = null;
+    reader = subscriber;
+    return () => { reader = null; };
+  });
+  return {
+    subPath: {startPoint, commands, get closed() { return closed; }},
+    next(command) {
+      if (reader) reader.next(command);
+      else if (kept) kept.push(command);
+    },
+    end(isClosed) {
+      ended = true;
+      closed = isClosed;
+      if (reader) reader.complete();
+    },
   };
 }
 
+// each subpath is emitted at its moveto, with commands that follow as they are parsed, so that memory
+// stays bounded however long a subpath is. whether it is closed is known once its commands complete.
+// in lossless mode, each subpath has the text it was parsed from as its svgPathData
+export function fromSVGPathData(options: SVGPathDataParseOptions = {}): OperatorFunction<string, SubPath> {
+  if (options.lossless) return losslessSubPaths(options);
+  return input => new Observable(subscriber => {
+    let current: StreamedSubPath | null = null;
+    const end = (closed: boolean) => {
+      if (current) current.end(closed);
+      current = null;
+    };
+    return input.pipe( svgPathDataEvents(options) ).subscribe(
+      event => {
+        switch (event.type) {
+          case 'M': {
+            end(false);
+            current = streamedSubPath(event.toPoint);
+            subscriber.next(current.subPath);
+            return;
+          }
+          case 'Z': {
+            end(true);
+            return;
+          }
+          default: {
+            if (current) current.next(event);
+            return;
+          }
+        }
+      },
+      e => {
+        // as with rendering, everything up to the error is still used
+        end(false);
+        subscriber.error(e);
+      },
+      () => {
+        end(false);
+        subscriber.complete();
+      },
+    );
+  });
+}
+
 export namespace PackedSubPath {
   export interface Buffer {
     data: ArrayLike<number>;
     offset: number;
     stride: number;
+    // number of elements, for when data holds more than this buffer after it, as when several subpaths
+    // share one array. without it, the buffer runs to the end of data. packSubPaths() gives every subpath
+    // its own arrays, so it never sets this
+    length?: number;
+  }
+
+  export interface Options {
+    arrayType?: Float32ArrayConstructor | Float64ArrayConstructor;
+    stride?: number;
   }
 }
 
+// xBuffer/yBuffer hold the start point followed by every point of every command (both control points
+// of a cubic curve, then its toPoint), and indexBuffer holds the point index of each command's toPoint
 export interface PackedSubPath extends SubPath<PathCommand.Line | PathCommand.CubicCurve> {
   xBuffer: PackedSubPath.Buffer;
   yBuffer: PackedSubPath.Buffer;
   indexBuffer: PackedSubPath.Buffer;
 }
 
+function packedBufferLength(buffer: PackedSubPath.Buffer): number {
+  if (typeof buffer.length === 'number') return buffer.length;
+  return Math.max(0, Math.ceil((buffer.data.length - buffer.offset) / buffer.stride));
+}
+
+function unpackCommands(packed: PackedSubPath): Array<PathCommand.Line | PathCommand.CubicCurve> {
+  const { xBuffer, yBuffer, indexBuffer } = packed;
+  const point = (i: number): PathCommand.Point => ({
+    x: xBuffer.data[xBuffer.offset + i * xBuffer.stride],
+    y: yBuffer.data[yBuffer.offset + i * yBuffer.stride],
+  });
+  const commandCount = packedBufferLength(indexBuffer);
+  const commands = new Array<PathCommand.Line | PathCommand.CubicCurve>(commandCount);
+  let lastIndex = 0;
+  for (let i = 0; i < commandCount; i++) {
+    const index = indexBuffer.data[indexBuffer.offset + i * indexBuffer.stride];
+    switch (index - lastIndex) {
+      case 1: {
+        commands[i] = {type: PathCommand.Type.LINE, toPoint: point(index)};
+        break;
+      }
+      case 3: {
+        commands[i] = {
+          type: PathCommand.Type.CUBIC_CURVE,
+          controlPoints: [point(index-2), point(index-1)],
+          toPoint: point(index),
+        };
+        break;
+      }
+      default: {
+        throw new Error('invalid packed command index: ' + index);
+      }
+    }
+    lastIndex = index;
+  }
+  return commands;
+}
+
+export function packSubPaths(options: PackedSubPath.Options = {}): OperatorFunction<SubPath, PackedSubPath> {
+  const { arrayType = Float64Array, stride = 2 } = options;
+  if (!(stride >= 2) || stride !== Math.floor(stride)) {
+    throw new Error('invalid stride: ' + stride);
+  }
+  return input => input.pipe(
+    curvifySubPaths(),
+    concatMap(subPath => from(subPath.commands).pipe(
+      toArray(),
+      map((commands): PackedSubPath => {
+        let pointCount = 1;
+        for (const command of commands) {
+          pointCount += command.type === PathCommand.Type.LINE ? 1 : 3;
+        }
+        const data = new arrayType(pointCount * stride);
+        const indices = new Uint32Array(commands.length);
+        let i = 0;
+        const pushPoint = (pt: PathCommand.Point) => {
+          data[i * stride] = pt.x;
+          data[i * stride + 1] = pt.y;
+          i++;
+        };
+        pushPoint(subPath.startPoint);
+        let lastPoint = subPath.startPoint;
+        for (let j = 0; j < commands.length; j++) {
+          const command = commands[j];
+          switch (command.type) {
+            case PathCommand.Type.LINE: {
+              break;
+            }
+            case PathCommand.Type.QUADRATIC_CURVE: {
+              // degree elevation: the cubic is the exact same curve
+              const [c] = command.controlPoints;
+              const p = command.toPoint;
+              pushPoint({x: lastPoint.x + (c.x - lastPoint.x) * 2/3, y: lastPoint.y + (c.y - lastPoint.y) * 2/3});
+              pushPoint({x: p.x + (c.x - p.x) * 2/3, y: p.y + (c.y - p.y) * 2/3});
+              break;
+            }
+            case PathCommand.Type.CUBIC_CURVE: {
+              pushPoint(command.controlPoints[0]);
+              pushPoint(command.controlPoints[1]);
+              break;
+            }
+          }
+          pushPoint(command.toPoint);
+          indices[j] = i - 1;
+          lastPoint = command.toPoint;
+        }
+        const packed: PackedSubPath = {
+          startPoint: subPath.startPoint,
+          closed: !!subPath.closed,
+          xBuffer: {data, offset: 0, stride},
+          yBuffer: {data, offset: 1, stride},
+          indexBuffer: {data: indices, offset: 0, stride: 1},
+          commands: defer(() => unpackCommands(packed)),
+        };
+        return packed;
+      }),
+    )),
+  );
+}
+
+export function unpackSubPaths(): OperatorFunction<PackedSubPath, SubPath<PathCommand.Line | PathCommand.CubicCurve>> {
+  return map(packed => ({
+    startPoint: {
+      x: packed.xBuffer.data[packed.xBuffer.offset],
+      y: packed.yBuffer.data[packed.yBuffer.offset],
+    },
+    commands: unpackCommands(packed),
+    closed: !!packed.closed,
+  }));
+}
+
 export function invertSubPaths(): OperatorFunction<SubPath, SubPath> {
   return input => input.pipe(
     concatMap(subPath => from(subPath.commands).pipe(
@@ -533,7 +1117,7 @@ export function transformPathCommandPoints(transformer: PathCommand.PointTransfo
           ],
           toPoint: transformer.transformPoint(command.toPoint),
         };
-        case PathCommand.Type.ARC: throw new Error('unable to transform arc point-by-point');
+        case PathCommand.Type.ARC: throw new Error('unable to transform arc point-by-point, use a Matrix2D with transformPathCommands()');
       }
     }),
   );
@@ -544,7 +1128,7 @@ export function transformSubPathPoints(transformer: PathCommand.PointTransformer
   return map(subPath => ({
     startPoint: transformer.transformPoint(subPath.startPoint),
     commands: operator(from(subPath.commands)),
-    closed: subPath.closed,
+    get closed() { return subPath.closed; },
   }));
 }
 
@@ -559,68 +1143,14 @@ export function curvifyArcCommands(startPoint: PathCommand.Point): OperatorFunct
           lastPoint = command.toPoint;
           return;
         }
-        if (command.radiusX === 0 || command.radiusY === 0) {
-          lastPoint = command.toPoint;
-          subscriber.next({type: PathCommand.Type.LINE, toPoint: lastPoint});
-          return;
-        }
-        const sinphi = Math.sin(command.rotateDegrees * Math.PI / 180);
-        const cosphi = Math.cos(command.rotateDegrees * Math.PI / 360);
-        const pxp =  cosphi * (lastPoint.x - command.toPoint.x) / 2 + sinphi * (lastPoint.y - command.toPoint.y) / 2;
-        const pyp = -sinphi * (lastPoint.x - command.toPoint.y) / 2 + cosphi * (lastPoint.y - command.toPoint.y) / 2;      
-        if (pxp === 0 && pyp === 0) {
+        const arc = arcCenterParameters(lastPoint, command);
+        if (!arc) {
           lastPoint = command.toPoint;
           subscriber.next({type: PathCommand.Type.LINE, toPoint: lastPoint});
           return;
         }
-        let rx = Math.abs(command.radiusX);
-        let ry = Math.abs(command.radiusY);
-        const lambda = (pxp*pxp) / (rx*rx) + (pyp*pyp) / (ry*ry);
-        if (lambda > 1) {
-          const lsqrt = Math.sqrt(lambda);
-          rx *= lsqrt;
-          ry *= lsqrt;
-        }
-        let centerX: number, centerY: number, ang1: number, ang2: number;
-        {
-          const rxsq  = rx*rx;
-          const rysq  = ry*ry;
-          const pxpsq = pxp*pxp;
-          const pypsq = pyp*pyp;
-        
-          let radicant = (rxsq * rysq) - (rxsq * pypsq) - (rysq * pxpsq);
-        
-          if (radicant < 0) radicant = 0;
-        
-          radicant /= (rxsq * pypsq) + (rysq * pxpsq);
-          radicant = Math.sqrt(radicant) * (!!command.largeArcFlag === !!command.sweepFlag ? -1 : 1);
-        
-          const centerxp = radicant *  rx / ry * pyp;
-          const centeryp = radicant * -ry / rx * pxp;
-        
-          centerX = cosphi * centerxp - sinphi * centeryp + (lastPoint.x + command.toPoint.x) / 2;
-          centerY = sinphi * centerxp + cosphi * centeryp + (lastPoint.y + command.toPoint.y) / 2;
-        
-          const vx1 = ( pxp - centerxp) / rx;
-          const vy1 = ( pyp - centeryp) / ry;
-          const vx2 = (-pxp - centerxp) / rx;
-          const vy2 = (-pyp - centeryp) / ry;
-      
-          {
-            const sign = (vy1 < 0 ? -1 : 1);
-            const dot = vx1;
-            ang1 = sign * Math.acos(dot > 1 ? 1 : dot < -1 ? -1 : dot);
-          }
-          {
-            const sign = ((vx1*vy2 - vy1*vx2) < 0) ? -1 : 1;
-            const dot = vx1*vx2 + vy1*vy2;
-            ang2 = sign * Math.acos(dot > 1 ? 1 : dot < -1 ? -1 : dot);
-            if (!command.sweepFlag) {
-              if (ang2 > 0) ang2 -= Math.PI * 2;
-              if (ang2 < 0) ang2 += Math.PI * 2;
-            }
-          }
-        }
+        const { centerX, centerY, radiusX: rx, radiusY: ry, cosPhi: cosphi, sinPhi: sinphi } = arc;
+        let ang1 = arc.startAngle, ang2 = arc.sweepAngle;
 
         // If 'ang2' == 90.0000000001, then `ratio` will evaluate to
         // 1.0000000001. This causes `segments` to be greater than one, which is an
@@ -674,7 +1204,188 @@ export function curvifySubPaths(): OperatorFunction<SubPath, SubPath<Exclude<Pat
   return map(subPath => ({
     startPoint: subPath.startPoint,
     commands: from(subPath.commands).pipe( curvifyArcCommands(subPath.startPoint) ),
-    closed: subPath.closed,
+    get closed() { return subPath.closed; },
+  }));
+}
+
+// the cubic curve with the same shape as a quadratic curve
+function raiseQuadratic(startPoint: PathCommand.Point, command: PathCommand.QuadraticCurve): PathCommand.CubicCurve {
+  const [c] = command.controlPoints, p = command.toPoint;
+  return {
+    type: PathCommand.Type.CUBIC_CURVE,
+    controlPoints: [
+      {x: startPoint.x + (c.x - startPoint.x) * 2 / 3, y: startPoint.y + (c.y - startPoint.y) * 2 / 3},
+      {x: p.x + (c.x - p.x) * 2 / 3, y: p.y + (c.y - p.y) * 2 / 3},
+    ],
+    toPoint: p,
+  };
+}
+
+export function quadraticToCubicCommands(startPoint: PathCommand.Point): OperatorFunction<PathCommand, Exclude<PathCommand, PathCommand.QuadraticCurve>> {
+  return input => defer(() => {
+    let lastPoint = startPoint;
+    return input.pipe(
+      map(command => {
+        const fromPoint = lastPoint;
+        lastPoint = command.toPoint;
+        return command.type === PathCommand.Type.QUADRATIC_CURVE ? raiseQuadratic(fromPoint, command) : command;
+      }),
+    );
+  });
+}
+
+// replaces quadratic curves with cubic curves of exactly the same shape
+export function quadraticToCubicSubPaths(): OperatorFunction<SubPath, SubPath<Exclude<PathCommand, PathCommand.QuadraticCurve>>> {
+  return map(subPath => ({
+    startPoint: subPath.startPoint,
+    commands: from(subPath.commands).pipe( quadraticToCubicCommands(subPath.startPoint) ),
+    get closed() { return subPath.closed; },
+  }));
+}
+
+export interface CubicToQuadraticOptions {
+  // maximum distance between each cubic curve and the quadratic curves that replace it
+  tolerance?: number;
+}
+
+// splits the cubic into equal parts that are each close enough to the quadratic curve through its ends
+// with the control point at the average of the two the cubic's handles point towards. that is within
+// sqrt(3)/36 * |p3 - 3*p2 + 3*p1 - p0| of the cubic, which shrinks with the cube of the number of parts
+function cubicToQuadratics(points: PathCommand.Point[], tolerance: number, output: PathCommand.QuadraticCurve[]) {
+  const [p0, p1, p2, p3] = points;
+  const dx = p3.x - 3*p2.x + 3*p1.x - p0.x, dy = p3.y - 3*p2.y + 3*p1.y - p0.y;
+  const error = Math.sqrt(3) / 36 * Math.sqrt(dx*dx + dy*dy);
+  const count = Math.max(1, Math.ceil(Math.cbrt(error / tolerance)));
+  let rest = points;
+  for (let i = count; i > 0; i--) {
+    let part = rest;
+    if (i > 1) [part, rest] = splitBezier(rest, 1 / i);
+    const [q0, q1, q2, q3] = part;
+    output.push({
+      type: PathCommand.Type.QUADRATIC_CURVE,
+      controlPoints: [{x: (3*(q1.x + q2.x) - q0.x - q3.x) / 4, y: (3*(q1.y + q2.y) - q0.y - q3.y) / 4}],
+      toPoint: q3,
+    });
+  }
+}
+
+export function cubicToQuadraticCommands(
+  startPoint: PathCommand.Point,
+  options: CubicToQuadraticOptions = {},
+): OperatorFunction<PathCommand, PathCommand.Line | PathCommand.QuadraticCurve> {
+  const { tolerance = 0.25 } = options;
+  if (!(tolerance > 0)) throw new Error('invalid tolerance: ' + tolerance);
+  return input => defer(() => {
+    let lastPoint = startPoint;
+    return input.pipe(
+      curvifyArcCommands(startPoint),
+      concatMap(command => {
+        const fromPoint = lastPoint;
+        lastPoint = command.toPoint;
+        if (command.type !== PathCommand.Type.CUBIC_CURVE) return [command];
+        const output = new Array<PathCommand.QuadraticCurve>();
+        cubicToQuadratics([fromPoint, ...command.controlPoints, command.toPoint], tolerance, output);
+        return output;
+      }),
+    );
+  });
+}
+
+// replaces cubic curves and arcs with quadratic curves within the tolerance, for formats that only
+// have quadratic curves. raising the quadratics again gives back the cubics that were quadratics to begin with
+export function cubicToQuadraticSubPaths(options: CubicToQuadraticOptions = {}): OperatorFunction<SubPath, SubPath<PathCommand.Line | PathCommand.QuadraticCurve>> {
+  // checking the options now rather than on subscribing
+  cubicToQuadraticCommands({x: 0, y: 0}, options);
+  return map(subPath => ({
+    startPoint: subPath.startPoint,
+    commands: from(subPath.commands).pipe( cubicToQuadraticCommands(subPath.startPoint, options) ),
+    get closed() { return subPath.closed; },
+  }));
+}
+
+export interface FlattenOptions {
+  // maximum distance between the original path and the line segments that replace it
+  tolerance?: number;
+}
+
+const MAX_FLATTEN_DEPTH = 16;
+
+function flattenBezier(points: PathCommand.Point[], tolerance: number, output: PathCommand.Point[], depth: number) {
+  const first = points[0], last = points[points.length-1];
+  // the curve lies within the convex hull of its points, so if every control point is
+  // within tolerance of the chord, so is the whole curve
+  let flat = true;
+  for (let i = 1; i < points.length-1; i++) {
+    if (distanceToSegment(points[i], first, last) > tolerance) {
+      flat = false;
+      break;
+    }
+  }
+  if (flat || depth >= MAX_FLATTEN_DEPTH) {
+    output.push(last);
+    return;
+  }
+  const [left, right] = splitBezier(points, 0.5);
+  flattenBezier(left, tolerance, output, depth + 1);
+  flattenBezier(right, tolerance, output, depth + 1);
+}
+
+export function flattenPathCommands(
+  startPoint: PathCommand.Point,
+  options: FlattenOptions = {},
+): OperatorFunction<PathCommand, PathCommand.Line> {
+  const { tolerance = 0.25 } = options;
+  if (!(tolerance > 0)) throw new Error('invalid tolerance: ' + tolerance);
+  return input => new Observable(subscriber => {
+    let lastPoint = startPoint;
+    return input.subscribe(
+      command => {
+        const points = new Array<PathCommand.Point>();
+        switch (command.type) {
+          case PathCommand.Type.LINE: {
+            points.push(command.toPoint);
+            break;
+          }
+          case PathCommand.Type.QUADRATIC_CURVE:
+          case PathCommand.Type.CUBIC_CURVE: {
+            flattenBezier([lastPoint, ...command.controlPoints, command.toPoint], tolerance, points, 0);
+            break;
+          }
+          case PathCommand.Type.ARC: {
+            const arc = arcCenterParameters(lastPoint, command);
+            if (!arc) {
+              points.push(command.toPoint);
+              break;
+            }
+            // the largest angle whose chord stays within tolerance of the arc
+            const radius = Math.max(arc.radiusX, arc.radiusY);
+            const maxStep = 2 * Math.acos(Math.max(-1, 1 - tolerance / radius));
+            const segments = Math.max(1, Math.ceil(Math.abs(arc.sweepAngle) / maxStep));
+            for (let i = 1; i < segments; i++) {
+              points.push(arcPointAtAngle(arc, arc.startAngle + arc.sweepAngle * i / segments));
+            }
+            points.push(command.toPoint);
+            break;
+          }
+        }
+        for (const toPoint of points) {
+          subscriber.next({type: PathCommand.Type.LINE, toPoint});
+        }
+        lastPoint = command.toPoint;
+      },
+      e => subscriber.error(e),
+      () => subscriber.complete(),
+    );
+  });
+}
+
+export function flattenSubPaths(options: FlattenOptions = {}): OperatorFunction<SubPath, SubPath<PathCommand.Line>> {
+  const { tolerance = 0.25 } = options;
+  if (!(tolerance > 0)) throw new Error('invalid tolerance: ' + tolerance);
+  return map(subPath => ({
+    startPoint: subPath.startPoint,
+    commands: from(subPath.commands).pipe( flattenPathCommands(subPath.startPoint, options) ),
+    get closed() { return subPath.closed; },
   }));
 }
 
@@ -717,15 +1428,14 @@ const createAxisRadiusCalculator = (r: AxisRadius): ((width: number, height: num
   }
   else if (typeof y === 'number') {
     const xFactor = +x.slice(0, -1) / 100;
-    if (isNaN(xFactor) || x.slice(-1) !== '%') throw new Error('expecting percentage, got ' + y);
+    if (isNaN(xFactor) || x.slice(-1) !== '%') throw new Error('expecting percentage, got ' + x);
     return (width) => [width * xFactor, y] as const;
   }
   else {
     const xFactor = +x.slice(0, -1) / 100;
-    if (isNaN(xFactor) || x.slice(-1) !== '%') throw new Error('expecting percentage, got ' + y);
+    if (isNaN(xFactor) || x.slice(-1) !== '%') throw new Error('expecting percentage, got ' + x);
     const yFactor = +y.slice(0, -1) / 100;
     if (isNaN(yFactor) || y.slice(-1) !== '%') throw new Error('expecting percentage, got ' + y);
-    console.log(x, y, xFactor, yFactor);
     return (width, height) => [width * xFactor, height * yFactor] as const;
   }
 };
@@ -883,3 +1593,158 @@ export function oval(init: OvalInit): SubPath {
     closed: true,
   };
 }
+
+interface ShapeCorners {
+  // as for the corners of rectangle(), with percentages of the width and height of the shape
+  cornerRadius?: AxisRadius;
+}
+
+type CornerRadii = readonly (readonly [number, number])[];
+
+function shapeSize(points: readonly PathCommand.Point[]): [number, number] {
+  const xs = points.map(p => p.x), ys = points.map(p => p.y);
+  return [Math.max(...xs) - Math.min(...xs), Math.max(...ys) - Math.min(...ys)];
+}
+
+// scaled down by the two radii, a corner becomes a circular arc of radius 1 that touches both sides,
+// as each corner of rectangle() does. it is made smaller where the sides are too short for it
+function roundCorner(
+  previous: PathCommand.Point,
+  corner: PathCommand.Point,
+  next: PathCommand.Point,
+  [radiusX, radiusY]: readonly [number, number],
+): PathCommand.Point[] | null {
+  radiusX = Math.abs(radiusX);
+  radiusY = Math.abs(radiusY);
+  if (!(radiusX * radiusY)) return null;
+  const a = {x: (previous.x - corner.x) / radiusX, y: (previous.y - corner.y) / radiusY};
+  const b = {x: (next.x - corner.x) / radiusX, y: (next.y - corner.y) / radiusY};
+  const lengthA = Math.sqrt(a.x*a.x + a.y*a.y), lengthB = Math.sqrt(b.x*b.x + b.y*b.y);
+  if (lengthA === 0 || lengthB === 0) return null;
+  const angle = Math.acos(Math.max(-1, Math.min(1, (a.x*b.x + a.y*b.y) / (lengthA * lengthB))));
+  // carrying straight on, or turning right back
+  if (angle < 1e-9 || angle > Math.PI - 1e-9) return null;
+  const along = Math.min(1 / Math.tan(angle / 2), lengthA / 2, lengthB / 2);
+  const handle = 4 / 3 * Math.tan((Math.PI - angle) / 4) * along * Math.tan(angle / 2);
+  const unscale = (p: PathCommand.Point) => ({x: corner.x + p.x * radiusX, y: corner.y + p.y * radiusY});
+  const ua = {x: a.x / lengthA, y: a.y / lengthA}, ub = {x: b.x / lengthB, y: b.y / lengthB};
+  return [
+    {x: ua.x * along, y: ua.y * along},
+    {x: ua.x * (along - handle), y: ua.y * (along - handle)},
+    {x: ub.x * (along - handle), y: ub.y * (along - handle)},
+    {x: ub.x * along, y: ub.y * along},
+  ].map(unscale);
+}
+
+function roundedOutline(points: readonly PathCommand.Point[], closed: boolean, radii: CornerRadii): SubPath {
+  if (points.length === 0) throw new Error('invalid number of points: 0');
+  const count = points.length;
+  const rounded = points.map((corner, i) => {
+    if (!closed && (i === 0 || i === count - 1)) return null;
+    return roundCorner(points[(i + count - 1) % count], corner, points[(i + 1) % count], radii[i]);
+  });
+  const commands = new Array<PathCommand>();
+  const first = rounded[0];
+  const startPoint = first ? first[3] : points[0];
+  let lastPoint = startPoint;
+  const order = closed ? [...points.keys()].slice(1).concat(0) : [...points.keys()].slice(1);
+  for (const i of order) {
+    const corner = rounded[i];
+    const toPoint = corner ? corner[0] : points[i];
+    // the last corner of a closed shape is reached by closing it
+    if (closed && i === 0 && !corner) break;
+    if (toPoint.x !== lastPoint.x || toPoint.y !== lastPoint.y) {
+      commands.push({type: PathCommand.Type.LINE, toPoint});
+    }
+    if (corner) {
+      commands.push({type: PathCommand.Type.CUBIC_CURVE, controlPoints: [corner[1], corner[2]], toPoint: corner[3]});
+    }
+    lastPoint = corner ? corner[3] : toPoint;
+  }
+  return {startPoint, commands, closed};
+}
+
+function uniformRadii(points: readonly PathCommand.Point[], cornerRadius: AxisRadius = 0): CornerRadii {
+  const radius = createAxisRadiusCalculator(cornerRadius)(...shapeSize(points));
+  return points.map(() => radius);
+}
+
+export function polygon(points: readonly PathCommand.Point[], corners: ShapeCorners = {}): SubPath {
+  return roundedOutline(points, true, uniformRadii(points, corners.cornerRadius));
+}
+
+export function polyline(points: readonly PathCommand.Point[], corners: ShapeCorners = {}): SubPath {
+  return roundedOutline(points, false, uniformRadii(points, corners.cornerRadius));
+}
+
+export function line(x1: number, y1: number, x2: number, y2: number): SubPath {
+  return {
+    startPoint: {x: x1, y: y1},
+    commands: [{type: PathCommand.Type.LINE, toPoint: {x: x2, y: y2}}],
+    closed: false,
+  };
+}
+
+// the point at an angle in degrees clockwise from straight up
+function pointAround(centerX: number, centerY: number, radius: number, degrees: number): PathCommand.Point {
+  const radians = degrees * Math.PI / 180;
+  return {x: centerX + radius * Math.sin(radians), y: centerY - radius * Math.cos(radians)};
+}
+
+export interface RegularPolygonInit extends ShapeCorners {
+  centerX: number;
+  centerY: number;
+  radius: number;
+  sides: number;
+  // in degrees clockwise. with no rotation, the first corner is straight up from the center
+  rotation?: number;
+}
+
+export function regularPolygon(init: RegularPolygonInit): SubPath {
+  const { centerX, centerY, radius, sides, rotation = 0 } = init;
+  if (!(Number.isInteger(sides) && sides >= 3)) throw new Error('invalid number of sides: ' + sides);
+  const points = Array.from({length: sides}, (_, i) => pointAround(centerX, centerY, radius, rotation + 360 * i / sides));
+  return polygon(points, init);
+}
+
+export interface StarInit extends ShapeCorners {
+  centerX: number;
+  centerY: number;
+  points: number;
+  innerRadius: number;
+  outerRadius: number;
+  // in degrees clockwise. with no rotation, the first point is straight up from the center
+  rotation?: number;
+  innerCornerRadius?: AxisRadius;
+  outerCornerRadius?: AxisRadius;
+}
+
+export function star(init: StarInit): SubPath {
+  const { centerX, centerY, points: count, innerRadius, outerRadius, rotation = 0 } = init;
+  if (!(Number.isInteger(count) && count >= 2)) throw new Error('invalid number of points: ' + count);
+  const points = Array.from({length: count * 2}, (_, i) => pointAround(
+    centerX, centerY, i % 2 ? innerRadius : outerRadius, rotation + 180 * i / count,
+  ));
+  const size = shapeSize(points);
+  const outer = createAxisRadiusCalculator(init.outerCornerRadius ?? init.cornerRadius ?? 0)(...size);
+  const inner = createAxisRadiusCalculator(init.innerCornerRadius ?? init.cornerRadius ?? 0)(...size);
+  return roundedOutline(points, true, points.map((_, i) => i % 2 ? inner : outer));
+}
+
+export * from './triangulate';
+export * from './matrix';
+export * from './bounds';
+export * from './measure';
+export * from './trim';
+export * from './stroke';
+export * from './boolean';
+export * from './hittest';
+export * from './offset';
+export * from './simplify';
+export * from './split';
+export * from './intersect';
+export * from './rasterize';
+export * from './png';
+export * from './canvas';
+export * from './svgdocument';
+export * from './font';
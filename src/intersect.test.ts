@@ -0,0 +1,79 @@
+import { TestHarness } from 'zora';
+import { of, Observable } from 'rxjs';
+import { toArray } from 'rxjs/operators';
+import {
+  fromSVGPathData, intersections, selfIntersections, measurePath, splitCommandAt, PathIntersection, SubPath,
+} from '../lib/index';
+
+const parse = (pathData: string): Observable<SubPath> => of(pathData).pipe( fromSVGPathData() );
+
+const near = (a: number, b: number, epsilon = 1e-6) => Math.abs(a - b) < epsilon;
+
+async function points(found: Observable<PathIntersection>): Promise<string[]> {
+  const results = await found.pipe( toArray() ).toPromise();
+  return results.map(({ x, y }) => Math.round(x * 1000) / 1000 + ',' + Math.round(y * 1000) / 1000);
+}
+
+// the parameters given should lead back to the point on each path
+async function locationsMatch(a: string, b: string, results: PathIntersection[]): Promise<boolean> {
+  const [measureA, measureB] = await Promise.all([a, b].map(pathData => parse(pathData).pipe( measurePath() ).toPromise()));
+  const pointAt = (measure: typeof measureA, location: PathIntersection.Location) => {
+    const segment = measure.segments.find(s => s.subPathIndex === location.subPathIndex && s.commandIndex === location.commandIndex)!;
+    return location.t === 0 ? segment.startPoint : splitCommandAt(segment.startPoint, segment.command, location.t)[0].toPoint;
+  };
+  return results.every(result => {
+    const pa = pointAt(measureA, result.a), pb = pointAt(measureB, result.b);
+    return near(pa.x, result.x) && near(pa.y, result.y) && near(pb.x, result.x) && near(pb.y, result.y);
+  });
+}
+
+export default (t: TestHarness) => {
+
+  t.test('intersections', async t => {
+
+    t.eq(await points(intersections(parse('M0,0 L10,10'), parse('M0,10 L10,0'))), ['5,5']);
+    t.eq(await points(intersections(parse('M0,0 L10,10'), parse('M20,0 L30,10'))), [], 'no crossing');
+    t.eq(await points(intersections(parse('M0,-10 L100,-10'), parse('M0,-50 Q50,50 100,-50'))), ['27.639,-10', '72.361,-10'], 'line and quadratic');
+    t.eq(await points(intersections(parse('M0,0 L100,0'), parse('M0,-20 Q50,20 100,-20'))), ['50,0'], 'tangent');
+
+    const cubics = ['M0,0 C30,100 70,-100 100,0', 'M0,10 C50,-100 50,100 100,-10'];
+    const cubicResults = await intersections(parse(cubics[0]), parse(cubics[1])).pipe( toArray() ).toPromise();
+    t.eq(cubicResults.length, 3, 'cubic and cubic');
+    t.ok(await locationsMatch(cubics[0], cubics[1], cubicResults), 'locations of the points');
+    t.ok(cubicResults.every((result, i) => i === 0 || result.a.t > cubicResults[i - 1].a.t), 'in order along the first path');
+
+    const circle = 'M50,0 A50,50 0 0 1 50,100 A50,50 0 0 1 50,0 Z';
+    const arcResults = await intersections(parse('M-10,50 L110,50'), parse(circle)).pipe( toArray() ).toPromise();
+    t.eq(arcResults.map(({ x, y }) => Math.round(x * 1e6) / 1e6 + ',' + Math.round(y * 1e6) / 1e6), ['0,50', '100,50'], 'line and arc');
+    t.eq(arcResults.map(result => result.b.commandIndex), [1, 0]);
+    t.ok(arcResults.every(result => near(result.b.t, 0.5)), 'exact on the arc');
+    t.ok(await locationsMatch('M-10,50 L110,50', circle, arcResults), 'locations of the points');
+
+    t.eq(await points(intersections(parse('M0,0 L10,0'), parse('M5,0 L15,0'))), ['5,0', '10,0'], 'overlapping lines');
+    t.eq(await points(intersections(parse('M0,0 A50,50 0 0 1 100,0'), parse('M100,0 A50,50 0 0 0 0,0'))), ['0,0', '100,0'], 'overlapping arcs');
+    t.eq(await points(intersections(parse('M0,0 L50,0 L50,50'), parse('M40,-10 L60,10'))), ['50,0'], 'at a joint once');
+
+    const closing = await intersections(parse('M0,0 L10,0 L10,10 Z'), parse('M0,5 L20,5')).pipe( toArray() ).toPromise();
+    t.eq(closing.map(result => result.a.commandIndex), [1, 2], 'closing line');
+
+    const second = await intersections(parse('M0,0 L1,1 M0,10 L10,10'), parse('M5,0 L5,20')).pipe( toArray() ).toPromise();
+    t.eq(second.map(result => result.a.subPathIndex), [1]);
+
+  });
+
+  t.test('selfIntersections', async t => {
+
+    t.eq(await points(selfIntersections(parse('M0,0 L10,10 L10,0 L0,10 Z'))), ['5,5'], 'figure eight');
+    t.eq(await points(selfIntersections(parse('M0,0 L10,0 L10,10 L0,10 Z'))), [], 'joints are not crossings');
+    t.eq(await points(selfIntersections(parse('M0,0 L10,0 L10,10 L5,0'))), ['5,0'], 'touching at an end');
+    t.eq(await points(selfIntersections(parse('M0,0 L10,0 L10,10 L0,0'))), ['0,0'], 'open ends meeting');
+    t.eq(await points(selfIntersections(parse('M0,0 L10,10 M0,10 L10,0'))), ['5,5'], 'between subpaths');
+
+    const loop = 'M0,0 C100,100 -50,100 50,0';
+    const [result] = await selfIntersections(parse(loop)).pipe( toArray() ).toPromise();
+    t.ok(result && result.a.commandIndex === 0 && result.b.commandIndex === 0 && result.a.t < result.b.t, 'cubic loop');
+    t.ok(result && await locationsMatch(loop, loop, [result]), 'location of the point');
+
+  });
+
+};
@@ -0,0 +1,263 @@
+
+import { Observable, ObservableInput, from, forkJoin } from 'rxjs';
+import { map, concatMap, toArray } from 'rxjs/operators';
+import { PathCommand, SubPath } from './index';
+import {
+  SegmentGeometry, arcCenterParameters, arcPointAtAngle, arcDerivativeAtAngle, commandGeometry, curveIntersections,
+} from './geometry';
+
+export namespace PathIntersection {
+  export interface Location {
+    readonly subPathIndex: number;
+    // index of the command within its subpath, or the number of commands for the line closing it
+    readonly commandIndex: number;
+    // position within the command, as used by splitCommandAt()
+    readonly t: number;
+  }
+}
+
+export interface PathIntersection {
+  readonly x: number;
+  readonly y: number;
+  readonly a: PathIntersection.Location;
+  readonly b: PathIntersection.Location;
+}
+
+type Point = PathCommand.Point;
+
+interface Segment {
+  readonly subPathIndex: number;
+  readonly commandIndex: number;
+  readonly geometry: SegmentGeometry;
+  // lines and bezier curves to search, each covering an equal range of the parameter
+  readonly pieces: Point[][];
+  readonly isArc: boolean;
+  readonly size: number;
+  // the segment that carries on from the end of this one, if any
+  next: Segment | null;
+}
+
+// arcs are searched as cubic curves covering at most this angle each, then refined on the arc itself
+const ARC_PIECE_ANGLE = Math.PI / 16;
+// as a fraction of the size of the segments
+const DUPLICATE_EPSILON = 1e-6;
+const JOINT_EPSILON = 1e-7;
+
+const distance = (a: Point, b: Point) => Math.sqrt((a.x - b.x) * (a.x - b.x) + (a.y - b.y) * (a.y - b.y));
+
+function searchPieces(startPoint: Point, command: PathCommand): Point[][] {
+  switch (command.type) {
+    case PathCommand.Type.LINE: return [[startPoint, command.toPoint]];
+    case PathCommand.Type.QUADRATIC_CURVE: return [[startPoint, ...command.controlPoints, command.toPoint]];
+    case PathCommand.Type.CUBIC_CURVE: return [[startPoint, ...command.controlPoints, command.toPoint]];
+  }
+  const arc = arcCenterParameters(startPoint, command);
+  if (!arc) return [[startPoint, command.toPoint]];
+  const count = Math.max(1, Math.ceil(Math.abs(arc.sweepAngle) / ARC_PIECE_ANGLE));
+  const step = arc.sweepAngle / count, handle = 4 / 3 * Math.tan(step / 4);
+  const pieces = new Array<Point[]>();
+  for (let i = 0; i < count; i++) {
+    const a0 = arc.startAngle + step * i, a1 = a0 + step;
+    const p0 = arcPointAtAngle(arc, a0), p3 = arcPointAtAngle(arc, a1);
+    const d0 = arcDerivativeAtAngle(arc, a0), d3 = arcDerivativeAtAngle(arc, a1);
+    pieces.push([
+      p0,
+      {x: p0.x + d0.x * handle, y: p0.y + d0.y * handle},
+      {x: p3.x - d3.x * handle, y: p3.y - d3.y * handle},
+      p3,
+    ]);
+  }
+  return pieces;
+}
+
+function collectSegments(subPaths: ObservableInput<SubPath>): Observable<Segment[]> {
+  return from(subPaths).pipe(
+    concatMap((subPath, subPathIndex) => from(subPath.commands).pipe(
+      toArray(),
+      map(commands => {
+        const segments = new Array<Segment>();
+        let lastPoint = subPath.startPoint;
+        const addSegment = (command: PathCommand, commandIndex: number) => {
+          const startPoint = lastPoint;
+          lastPoint = command.toPoint;
+          const pieces = searchPieces(startPoint, command);
+          let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+          for (const p of ([] as Point[]).concat(...pieces)) {
+            minX = Math.min(minX, p.x);
+            minY = Math.min(minY, p.y);
+            maxX = Math.max(maxX, p.x);
+            maxY = Math.max(maxY, p.y);
+          }
+          const size = Math.max(maxX - minX, maxY - minY);
+          // commands that go nowhere cannot cross anything
+          if (size === 0) return;
+          const segment: Segment = {
+            subPathIndex,
+            commandIndex,
+            geometry: commandGeometry(startPoint, command),
+            pieces,
+            isArc: command.type === PathCommand.Type.ARC,
+            size,
+            next: null,
+          };
+          if (segments.length > 0) segments[segments.length - 1].next = segment;
+          segments.push(segment);
+        };
+        commands.forEach(addSegment);
+        if (subPath.closed) {
+          addSegment({type: PathCommand.Type.LINE, toPoint: subPath.startPoint}, commands.length);
+          if (segments.length > 1) segments[segments.length - 1].next = segments[0];
+        }
+        return segments;
+      }),
+    )),
+    toArray(),
+    map(segmentLists => ([] as Segment[]).concat(...segmentLists)),
+  );
+}
+
+// Newton's method on the exact geometry, for parameters found on the cubic curves standing in for arcs
+function refine(a: SegmentGeometry, b: SegmentGeometry, s: number, u: number): [number, number] {
+  let pa = a.point(s), pb = b.point(u);
+  let error = distance(pa, pb);
+  for (let i = 0; i < 16 && error > 0; i++) {
+    const da = a.derivative(s), db = b.derivative(u);
+    const determinant = db.x * da.y - da.x * db.y;
+    if (Math.abs(determinant) <= 1e-9 * Math.sqrt((da.x*da.x + da.y*da.y) * (db.x*db.x + db.y*db.y))) break;
+    const fx = pa.x - pb.x, fy = pa.y - pb.y;
+    const nextS = Math.min(1, Math.max(0, s + (fx * db.y - db.x * fy) / determinant));
+    const nextU = Math.min(1, Math.max(0, u + (fx * da.y - da.x * fy) / determinant));
+    const nextA = a.point(nextS), nextB = b.point(nextU);
+    const nextError = distance(nextA, nextB);
+    if (!(nextError < error)) break;
+    s = nextS;
+    u = nextU;
+    pa = nextA;
+    pb = nextB;
+    error = nextError;
+  }
+  return [s, u];
+}
+
+function segmentIntersections(a: Segment, b: Segment): PathIntersection[] {
+  const results = new Array<PathIntersection>();
+  const tolerance = Math.max(a.size, b.size) * DUPLICATE_EPSILON;
+  a.pieces.forEach((pieceA, i) => b.pieces.forEach((pieceB, j) => {
+    for (const { t0, t1 } of curveIntersections(pieceA, pieceB)) {
+      let s = (i + t0) / a.pieces.length, u = (j + t1) / b.pieces.length;
+      if (a.isArc || b.isArc) [s, u] = refine(a.geometry, b.geometry, s, u);
+      const pa = a.geometry.point(s), pb = b.geometry.point(u);
+      const point = {x: (pa.x + pb.x) / 2, y: (pa.y + pb.y) / 2};
+      // the ends of neighbouring pieces find the same point
+      if (results.some(result => distance(result, point) <= tolerance)) continue;
+      results.push({
+        ...point,
+        a: {subPathIndex: a.subPathIndex, commandIndex: a.commandIndex, t: s},
+        b: {subPathIndex: b.subPathIndex, commandIndex: b.commandIndex, t: u},
+      });
+    }
+  }));
+  // the curves standing in for arcs that run along each other meet at many points, but only the ends of
+  // the part they share matter
+  results.sort((x, y) => x.a.t - y.a.t);
+  const along = results.slice(1).map((result, i) => distance(
+    a.geometry.point((results[i].a.t + result.a.t) / 2),
+    b.geometry.point((results[i].b.t + result.b.t) / 2),
+  ) <= tolerance);
+  return results.filter((_, i) => !(i > 0 && i < results.length - 1 && along[i - 1] && along[i]));
+}
+
+// where a cubic curve crosses itself, solving B(s) = B(t) for s != t
+function cubicSelfIntersection(segment: Segment): PathIntersection | null {
+  if (segment.pieces.length !== 1 || segment.pieces[0].length !== 4) return null;
+  const [p0, p1, p2, p3] = segment.pieces[0];
+  const a = {x: -p0.x + 3*p1.x - 3*p2.x + p3.x, y: -p0.y + 3*p1.y - 3*p2.y + p3.y};
+  const b = {x: 3*p0.x - 6*p1.x + 3*p2.x, y: 3*p0.y - 6*p1.y + 3*p2.y};
+  const c = {x: 3*(p1.x - p0.x), y: 3*(p1.y - p0.y)};
+  const cross = (u: Point, v: Point) => u.x * v.y - u.y * v.x;
+  const aa = a.x*a.x + a.y*a.y;
+  const ab = cross(a, b);
+  if (aa === 0 || Math.abs(ab) <= 1e-12 * aa) return null;
+  // with B(s) - B(t) = (s - t) (a (s^2 + st + t^2) + b (s + t) + c), s + t and st follow from it being zero
+  const sum = -cross(a, c) / ab;
+  const product = sum * sum + (a.x * (b.x * sum + c.x) + a.y * (b.y * sum + c.y)) / aa;
+  const discriminant = sum * sum - 4 * product;
+  if (!(discriminant > 0)) return null;
+  const root = Math.sqrt(discriminant);
+  const s = (sum - root) / 2, t = (sum + root) / 2;
+  if (!(s >= 0 && t <= 1)) return null;
+  const point = segment.geometry.point(s);
+  return {
+    x: point.x,
+    y: point.y,
+    a: {subPathIndex: segment.subPathIndex, commandIndex: segment.commandIndex, t: s},
+    b: {subPathIndex: segment.subPathIndex, commandIndex: segment.commandIndex, t},
+  };
+}
+
+// a crossing at the end of a command is the same one as at the start of the next
+function sameLocation(x: PathIntersection.Location, y: PathIntersection.Location, segments: readonly Segment[]): boolean {
+  const normalize = (location: PathIntersection.Location) => {
+    const segment = segments.find(s => s.subPathIndex === location.subPathIndex && s.commandIndex === location.commandIndex)!;
+    return location.t >= 1 - JOINT_EPSILON && segment.next
+      ? {subPathIndex: segment.next.subPathIndex, commandIndex: segment.next.commandIndex, t: 0}
+      : location;
+  };
+  const nx = normalize(x), ny = normalize(y);
+  return nx.subPathIndex === ny.subPathIndex && nx.commandIndex === ny.commandIndex && Math.abs(nx.t - ny.t) <= JOINT_EPSILON;
+}
+
+function sortIntersections(
+  results: PathIntersection[],
+  segmentsA: readonly Segment[],
+  segmentsB: readonly Segment[],
+): PathIntersection[] {
+  const unique = results.filter((result, i) => !results.slice(0, i).some(other => (
+    distance(result, other) <= DUPLICATE_EPSILON * Math.max(1, Math.abs(result.x), Math.abs(result.y))
+    && sameLocation(result.a, other.a, segmentsA)
+    && sameLocation(result.b, other.b, segmentsB)
+  )));
+  const order = (x: PathIntersection.Location, y: PathIntersection.Location) => (
+    x.subPathIndex - y.subPathIndex || x.commandIndex - y.commandIndex || x.t - y.t
+  );
+  return unique.sort((x, y) => order(x.a, y.a) || order(x.b, y.b));
+}
+
+// every point where a command of one path meets a command of the other, in order along the first path.
+// where commands run along each other, the ends of the part they share are given
+export function intersections(a: ObservableInput<SubPath>, b: ObservableInput<SubPath>): Observable<PathIntersection> {
+  return forkJoin([collectSegments(a), collectSegments(b)]).pipe(
+    concatMap(([segmentsA, segmentsB]) => {
+      const results = new Array<PathIntersection>();
+      for (const segmentA of segmentsA) {
+        for (const segmentB of segmentsB) {
+          results.push(...segmentIntersections(segmentA, segmentB));
+        }
+      }
+      return sortIntersections(results, segmentsA, segmentsB);
+    }),
+  );
+}
+
+// every point where a path meets itself, other than where each command joins the next, with a being the
+// earlier of the two commands. cubic curves that loop back across themselves are included
+export function selfIntersections(subPaths: ObservableInput<SubPath>): Observable<PathIntersection> {
+  return collectSegments(subPaths).pipe(
+    concatMap(segments => {
+      const results = new Array<PathIntersection>();
+      segments.forEach((segmentA, i) => {
+        const loop = cubicSelfIntersection(segmentA);
+        if (loop) results.push(loop);
+        for (const segmentB of segments.slice(i + 1)) {
+          for (const result of segmentIntersections(segmentA, segmentB)) {
+            const tolerance = Math.max(segmentA.size, segmentB.size) * JOINT_EPSILON;
+            if (segmentA.next === segmentB && distance(result, segmentA.geometry.point(1)) <= tolerance) continue;
+            if (segmentB.next === segmentA && distance(result, segmentA.geometry.point(0)) <= tolerance) continue;
+            results.push(result);
+          }
+        }
+      });
+      return sortIntersections(results, segments, segments);
+    }),
+  );
+}
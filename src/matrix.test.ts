@@ -0,0 +1,153 @@
+import { TestHarness } from 'zora';
+import { of, from } from 'rxjs';
+import { toArray } from 'rxjs/operators';
+import {
+  fromSVGPathData, PathCommand, SubPath, Matrix2D, transformSubPaths, transformPathCommands, flattenSubPaths,
+} from '../lib/index';
+
+async function flattenedPoints(subPath: SubPath, tolerance: number): Promise<PathCommand.Point[]> {
+  const [flattened] = await of(subPath).pipe( flattenSubPaths({tolerance}), toArray() ).toPromise();
+  const commands = await from(flattened.commands).pipe( toArray() ).toPromise();
+  return [flattened.startPoint, ...commands.map(command => command.toPoint)];
+}
+
+function distanceToPolyline(pt: PathCommand.Point, polyline: PathCommand.Point[]): number {
+  let min = Infinity;
+  for (let i = 1; i < polyline.length; i++) {
+    const a = polyline[i-1], b = polyline[i];
+    const dx = b.x - a.x, dy = b.y - a.y;
+    const lengthSquared = dx*dx + dy*dy;
+    const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, ((pt.x - a.x) * dx + (pt.y - a.y) * dy) / lengthSquared));
+    min = Math.min(min, Math.hypot(a.x + dx*t - pt.x, a.y + dy*t - pt.y));
+  }
+  return min;
+}
+
+function closeTo(a: Matrix2D, b: Matrix2D): boolean {
+  return (['a', 'b', 'c', 'd', 'e', 'f'] as const).every(k => Math.abs(a[k] - b[k]) < 1e-9);
+}
+
+export default (t: TestHarness) => {
+
+  t.test('Matrix2D', async t => {
+
+    t.eq(Matrix2D.transformPoint(Matrix2D.translate(10, 20), {x: 1, y: 2}), {x: 11, y: 22});
+    t.eq(Matrix2D.transformPoint(Matrix2D.scale(2), {x: 1, y: 2}), {x: 2, y: 4});
+    t.eq(Matrix2D.transformPoint(Matrix2D.scale(2, 3), {x: 1, y: 2}), {x: 2, y: 6});
+    const rotated = Matrix2D.transformPoint(Matrix2D.rotate(90, 10, 10), {x: 20, y: 10});
+    t.ok(Math.abs(rotated.x - 10) < 1e-9 && Math.abs(rotated.y - 20) < 1e-9, 'rotate about a center');
+    t.ok(Math.abs(Matrix2D.transformPoint(Matrix2D.skewX(45), {x: 0, y: 10}).x - 10) < 1e-9, 'skewX');
+    t.ok(Math.abs(Matrix2D.transformPoint(Matrix2D.skewY(45), {x: 10, y: 0}).y - 10) < 1e-9, 'skewY');
+
+    // translate is applied after scale
+    const combined = Matrix2D.multiply(Matrix2D.translate(100, 0), Matrix2D.scale(2));
+    t.eq(Matrix2D.transformPoint(combined, {x: 5, y: 5}), {x: 110, y: 10});
+
+    const m = Matrix2D.multiply(Matrix2D.rotate(30), Matrix2D.skewX(10), Matrix2D.translate(5, -7), Matrix2D.scale(2, -3));
+    t.ok(closeTo(Matrix2D.multiply(m, Matrix2D.invert(m)), Matrix2D.IDENTITY), 'inverse');
+    let thrown: any = undefined;
+    try {
+      Matrix2D.invert(Matrix2D.scale(0, 1));
+    }
+    catch (e) {
+      thrown = e;
+    }
+    t.notEq(thrown, undefined);
+
+    t.ok(closeTo(
+      Matrix2D.fromSVGTransform('translate(10,20) rotate(45 5 5), scale(2)skewX(10) matrix(1 2 3 4 5 6) skewY(-5) translate(3)'),
+      Matrix2D.multiply(
+        Matrix2D.translate(10, 20),
+        Matrix2D.rotate(45, 5, 5),
+        Matrix2D.scale(2),
+        Matrix2D.skewX(10),
+        {a: 1, b: 2, c: 3, d: 4, e: 5, f: 6},
+        Matrix2D.skewY(-5),
+        Matrix2D.translate(3, 0),
+      ),
+    ), 'parse transform list');
+    t.eq(Matrix2D.fromSVGTransform(''), Matrix2D.IDENTITY);
+    t.eq(Matrix2D.fromSVGTransform(' scale( -1e1 , .5 ) '), Matrix2D.scale(-10, 0.5));
+    // numbers need no separator where the next could not continue the last, as in path data
+    t.eq(Matrix2D.fromSVGTransform('translate(10-20)'), Matrix2D.translate(10, -20), 'compact translate');
+    t.eq(Matrix2D.fromSVGTransform('scale(.5.5)'), Matrix2D.scale(0.5, 0.5), 'compact scale');
+    t.eq(Matrix2D.fromSVGTransform('rotate(90-5+5)'), Matrix2D.rotate(90, -5, 5), 'compact rotate');
+    t.eq(Matrix2D.fromSVGTransform('matrix(1,0,0,1,1e1-2e-1)'), {a: 1, b: 0, c: 0, d: 1, e: 10, f: -0.2}, 'compact exponents');
+
+    const invalid = [
+      'translate(1', 'rotate(1 2)', 'matrix(1 2 3)', 'spin(4)', 'scale(1px)', 'translate(1) x',
+      'translate(1,,2)', 'translate(,1)', 'translate(1,)', 'scale(1e)', 'scale(.)',
+    ];
+    for (const bad of invalid) {
+      let thrown: any = undefined;
+      try {
+        Matrix2D.fromSVGTransform(bad);
+      }
+      catch (e) {
+        thrown = e;
+      }
+      t.notEq(thrown, undefined, `invalid transform: ${bad}`);
+    }
+
+  });
+
+  t.test('transformSubPaths', async t => {
+
+    const [transformed] = await of('M0,0 L10,0 Q20,0 20,10 C20,20 10,20 0,20 Z').pipe(
+      fromSVGPathData(),
+      transformSubPaths(Matrix2D.translate(5, 5)),
+      toArray(),
+    ).toPromise();
+    t.eq(transformed.startPoint, {x: 5, y: 5});
+    t.eq(transformed.closed, true);
+    t.eq(await from(transformed.commands).pipe( toArray() ).toPromise(), [
+      {type: PathCommand.Type.LINE, toPoint: {x: 15, y: 5}},
+      {type: PathCommand.Type.QUADRATIC_CURVE, controlPoints: [{x: 25, y: 5}], toPoint: {x: 25, y: 15}},
+      {type: PathCommand.Type.CUBIC_CURVE, controlPoints: [{x: 25, y: 25}, {x: 15, y: 25}], toPoint: {x: 5, y: 25}},
+    ]);
+
+    t.eq(
+      await of<PathCommand>({type: PathCommand.Type.ARC, radiusX: 10, radiusY: 20, rotateDegrees: 15, largeArcFlag: true, sweepFlag: false, toPoint: {x: 30, y: 0}})
+        .pipe( transformPathCommands(Matrix2D.translate(1, 2)) )
+        .toPromise(),
+      {type: PathCommand.Type.ARC, radiusX: 10, radiusY: 20, rotateDegrees: 15, largeArcFlag: true, sweepFlag: false, toPoint: {x: 31, y: 2}},
+      'translation leaves the arc shape alone',
+    );
+
+    const mirrored = await of<PathCommand>({type: PathCommand.Type.ARC, radiusX: 10, radiusY: 10, rotateDegrees: 0, largeArcFlag: false, sweepFlag: true, toPoint: {x: 20, y: 0}})
+      .pipe( transformPathCommands(Matrix2D.scale(-2, 2)) )
+      .toPromise();
+    t.eq(mirrored, {type: PathCommand.Type.ARC, radiusX: 20, radiusY: 20, rotateDegrees: 0, largeArcFlag: false, sweepFlag: false, toPoint: {x: -40, y: 0}}, 'reflection flips the sweep');
+
+    const matrices = [
+      Matrix2D.rotate(30),
+      Matrix2D.scale(-1, 1),
+      Matrix2D.scale(3, 0.5),
+      Matrix2D.multiply(Matrix2D.skewX(35), Matrix2D.rotate(-70), Matrix2D.scale(1, -2)),
+      Matrix2D.fromSVGTransform('matrix(1.5 0.3 -0.8 0.6 40 -10)'),
+    ];
+    const arcs = [
+      'M0,0 A40,25 20 0 1 60,30',
+      'M0,0 A40,25 20 1 0 60,30',
+      'M10,10 A10,30 -45 1 1 50,50',
+      'M0,0 A5,5 0 0 1 100,0',
+    ];
+    for (const matrix of matrices) {
+      for (const pathData of arcs) {
+        const [original] = await of(pathData).pipe( fromSVGPathData(), toArray() ).toPromise();
+        const expected = (await flattenedPoints(original, 0.001)).map(pt => Matrix2D.transformPoint(matrix, pt));
+        const [transformedArc] = await of(original).pipe( transformSubPaths(matrix), toArray() ).toPromise();
+        const actual = await flattenedPoints(transformedArc, 0.001);
+        const [command] = await from(transformedArc.commands).pipe( toArray() ).toPromise();
+        t.eq(command.type, PathCommand.Type.ARC, `still an arc: ${pathData}`);
+        const error = Math.max(
+          ...actual.map(pt => distanceToPolyline(pt, expected)),
+          ...expected.map(pt => distanceToPolyline(pt, actual)),
+        );
+        t.ok(error < 0.01, `transformed arc matches transformed points: ${pathData} ${JSON.stringify(matrix)}`);
+      }
+    }
+
+  });
+
+}
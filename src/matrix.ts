@@ -0,0 +1,232 @@
+
+import { OperatorFunction, from } from 'rxjs';
+import { map } from 'rxjs/operators';
+import { PathCommand, SubPath } from './index';
+import { scanNumberList } from './geometry';
+
+// same layout as SVGMatrix/DOMMatrix: x' = a*x + c*y + e, y' = b*x + d*y + f
+export interface Matrix2D {
+  readonly a: number;
+  readonly b: number;
+  readonly c: number;
+  readonly d: number;
+  readonly e: number;
+  readonly f: number;
+}
+
+export namespace Matrix2D {
+
+  export const IDENTITY: Matrix2D = {a: 1, b: 0, c: 0, d: 1, e: 0, f: 0};
+
+  export function translate(tx: number, ty = 0): Matrix2D {
+    return {a: 1, b: 0, c: 0, d: 1, e: tx, f: ty};
+  }
+
+  export function scale(sx: number, sy = sx): Matrix2D {
+    return {a: sx, b: 0, c: 0, d: sy, e: 0, f: 0};
+  }
+
+  export function rotate(degrees: number, centerX = 0, centerY = 0): Matrix2D {
+    const radians = degrees * Math.PI / 180;
+    const cos = Math.cos(radians), sin = Math.sin(radians);
+    const rotation = {a: cos, b: sin, c: -sin, d: cos, e: 0, f: 0};
+    if (centerX === 0 && centerY === 0) return rotation;
+    return multiply(translate(centerX, centerY), rotation, translate(-centerX, -centerY));
+  }
+
+  export function skewX(degrees: number): Matrix2D {
+    return {a: 1, b: 0, c: Math.tan(degrees * Math.PI / 180), d: 1, e: 0, f: 0};
+  }
+
+  export function skewY(degrees: number): Matrix2D {
+    return {a: 1, b: Math.tan(degrees * Math.PI / 180), c: 0, d: 1, e: 0, f: 0};
+  }
+
+  // as in an SVG transform list, the last matrix is the first to be applied to a point
+  export function multiply(...matrices: Matrix2D[]): Matrix2D {
+    let result = IDENTITY;
+    for (const m of matrices) {
+      result = {
+        a: result.a * m.a + result.c * m.b,
+        b: result.b * m.a + result.d * m.b,
+        c: result.a * m.c + result.c * m.d,
+        d: result.b * m.c + result.d * m.d,
+        e: result.a * m.e + result.c * m.f + result.e,
+        f: result.b * m.e + result.d * m.f + result.f,
+      };
+    }
+    return result;
+  }
+
+  export function determinant(m: Matrix2D): number {
+    return m.a * m.d - m.b * m.c;
+  }
+
+  export function invert(m: Matrix2D): Matrix2D {
+    const det = determinant(m);
+    if (det === 0 || !isFinite(det)) throw new Error('matrix is not invertible');
+    return {
+      a: m.d / det,
+      b: -m.b / det,
+      c: -m.c / det,
+      d: m.a / det,
+      e: (m.c * m.f - m.d * m.e) / det,
+      f: (m.b * m.e - m.a * m.f) / det,
+    };
+  }
+
+  export function transformPoint(m: Matrix2D, pt: PathCommand.Point): PathCommand.Point {
+    return {
+      x: m.a * pt.x + m.c * pt.y + m.e,
+      y: m.b * pt.x + m.d * pt.y + m.f,
+    };
+  }
+
+  export function toPointTransformer(m: Matrix2D): PathCommand.PointTransformer {
+    return { transformPoint: pt => transformPoint(m, pt) };
+  }
+
+  const TRANSFORM_FUNCTION = /^[\s,]*([a-zA-Z]+)\s*\(([^)]*)\)/;
+
+  // parses the value of an SVG transform attribute, e.g. "translate(10, 20) rotate(45 5 5)"
+  export function fromSVGTransform(transform: string): Matrix2D {
+    const matrices = new Array<Matrix2D>();
+    let rest = transform;
+    while (/\S/.test(rest.replace(/,/g, ''))) {
+      const match = rest.match(TRANSFORM_FUNCTION);
+      if (!match) throw new Error('invalid transform: ' + transform);
+      const [, name, argString] = match;
+      const n = scanNumberList(argString);
+      if (!n) throw new Error('invalid transform arguments: ' + match[0].trim());
+      const argCountError = () => new Error('invalid number of transform arguments: ' + match[0].trim());
+      switch (name) {
+        case 'matrix': {
+          if (n.length !== 6) throw argCountError();
+          matrices.push({a: n[0], b: n[1], c: n[2], d: n[3], e: n[4], f: n[5]});
+          break;
+        }
+        case 'translate': {
+          if (n.length !== 1 && n.length !== 2) throw argCountError();
+          matrices.push(translate(n[0], n[1]));
+          break;
+        }
+        case 'scale': {
+          if (n.length !== 1 && n.length !== 2) throw argCountError();
+          matrices.push(scale(n[0], n[1]));
+          break;
+        }
+        case 'rotate': {
+          if (n.length !== 1 && n.length !== 3) throw argCountError();
+          matrices.push(rotate(n[0], n[1], n[2]));
+          break;
+        }
+        case 'skewX': {
+          if (n.length !== 1) throw argCountError();
+          matrices.push(skewX(n[0]));
+          break;
+        }
+        case 'skewY': {
+          if (n.length !== 1) throw argCountError();
+          matrices.push(skewY(n[0]));
+          break;
+        }
+        default: {
+          throw new Error('unknown transform function: ' + name);
+        }
+      }
+      rest = rest.slice(match[0].length);
+    }
+    return multiply(...matrices);
+  }
+
+}
+
+const ARC_EPSILON = 1e-10;
+
+// the image of an ellipse under an affine transform is another ellipse, whose radii and rotation are
+// found from the eigenvalues/eigenvectors of N*N^T, where N maps the unit circle onto the new ellipse
+function transformArc(m: Matrix2D, arc: PathCommand.Arc): PathCommand {
+  const toPoint = Matrix2D.transformPoint(m, arc.toPoint);
+  if (arc.radiusX === 0 || arc.radiusY === 0) {
+    return {type: PathCommand.Type.LINE, toPoint};
+  }
+  if (m.a === 1 && m.b === 0 && m.c === 0 && m.d === 1) {
+    return {...arc, toPoint};
+  }
+  const rx = Math.abs(arc.radiusX), ry = Math.abs(arc.radiusY);
+  const phi = arc.rotateDegrees * Math.PI / 180;
+  const cos = Math.cos(phi), sin = Math.sin(phi);
+  const n11 = rx * (m.a * cos + m.c * sin), n21 = rx * (m.b * cos + m.d * sin);
+  const n12 = ry * (m.c * cos - m.a * sin), n22 = ry * (m.d * cos - m.b * sin);
+  const j = n11*n11 + n12*n12;
+  const k = n21*n21 + n22*n22;
+  const l = n11*n21 + n12*n22;
+  const mean = (j + k) / 2;
+  const root = Math.sqrt((j - k) * (j - k) / 4 + l * l);
+  const major = Math.sqrt(mean + root);
+  const minor = Math.sqrt(Math.max(0, mean - root));
+  const sweepFlag = Matrix2D.determinant(m) < 0 ? !arc.sweepFlag : !!arc.sweepFlag;
+  if (root <= ARC_EPSILON * mean) {
+    // still a circle: any rotation will do, so keep the original one
+    return {
+      type: PathCommand.Type.ARC,
+      radiusX: major,
+      radiusY: major,
+      rotateDegrees: arc.rotateDegrees,
+      largeArcFlag: !!arc.largeArcFlag,
+      sweepFlag,
+      toPoint,
+    };
+  }
+  let majorDegrees = Math.atan2(2 * l, j - k) / 2 * 180 / Math.PI;
+  // keep the x radius as the larger one only if it was originally
+  let radiusX = major, radiusY = minor;
+  if (rx < ry) {
+    radiusX = minor;
+    radiusY = major;
+    majorDegrees += majorDegrees > 0 ? -90 : 90;
+  }
+  return {
+    type: PathCommand.Type.ARC,
+    radiusX,
+    radiusY,
+    rotateDegrees: majorDegrees,
+    largeArcFlag: !!arc.largeArcFlag,
+    sweepFlag,
+    toPoint,
+  };
+}
+
+export function transformPathCommands(matrix: Matrix2D): OperatorFunction<PathCommand, PathCommand> {
+  return map((command): PathCommand => {
+    switch (command.type) {
+      case PathCommand.Type.LINE: return {
+        type: PathCommand.Type.LINE,
+        toPoint: Matrix2D.transformPoint(matrix, command.toPoint),
+      };
+      case PathCommand.Type.QUADRATIC_CURVE: return {
+        type: PathCommand.Type.QUADRATIC_CURVE,
+        controlPoints: [Matrix2D.transformPoint(matrix, command.controlPoints[0])],
+        toPoint: Matrix2D.transformPoint(matrix, command.toPoint),
+      };
+      case PathCommand.Type.CUBIC_CURVE: return {
+        type: PathCommand.Type.CUBIC_CURVE,
+        controlPoints: [
+          Matrix2D.transformPoint(matrix, command.controlPoints[0]),
+          Matrix2D.transformPoint(matrix, command.controlPoints[1]),
+        ],
+        toPoint: Matrix2D.transformPoint(matrix, command.toPoint),
+      };
+      case PathCommand.Type.ARC: return transformArc(matrix, command);
+    }
+  });
+}
+
+export function transformSubPaths(matrix: Matrix2D): OperatorFunction<SubPath, SubPath> {
+  const operator = transformPathCommands(matrix);
+  return map(subPath => ({
+    startPoint: Matrix2D.transformPoint(matrix, subPath.startPoint),
+    commands: operator(from(subPath.commands)),
+    get closed() { return subPath.closed; },
+  }));
+}
@@ -0,0 +1,115 @@
+import { TestHarness } from 'zora';
+import { of, EMPTY } from 'rxjs';
+import { toArray } from 'rxjs/operators';
+import {
+  fromSVGPathData, oval, measurePath, measureSubPaths, flattenSubPaths, PathMeasure,
+} from '../lib/index';
+
+async function measure(pathData: string): Promise<PathMeasure> {
+  return of(pathData).pipe( fromSVGPathData(), measurePath() ).toPromise();
+}
+
+const near = (a: number, b: number, epsilon = 1e-6) => Math.abs(a - b) < epsilon;
+
+export default (t: TestHarness) => {
+
+  t.test('measurePath', async t => {
+
+    const lines = await measure('M0,0 L30,40 L30,0 Z');
+    t.eq(lines.totalLength, 50 + 40 + 30);
+    t.eq(lines.segments.map(s => s.length), [50, 40, 30]);
+    t.eq(lines.segments.map(s => s.offset), [0, 50, 90]);
+    t.eq(lines.segments.map(s => s.commandIndex), [0, 1, 2], 'closing line counts as a segment');
+
+    t.eq((await measure('M0,0 L10,0 M0,10 L0,30')).totalLength, 30);
+    t.eq((await measure('M5,5')).totalLength, 0);
+    t.eq((await measure('M5,5')).pointAtLength(10), {x: 5, y: 5, tangentDegrees: 0, subPathIndex: 0, commandIndex: 0, t: 0});
+
+    t.ok(near((await measure('M0,0 A50,50 0 0 1 100,0')).totalLength, 50 * Math.PI), 'semicircle');
+    t.ok(near((await measure('M0,0 A0,50 0 0 1 100,0')).totalLength, 100), 'zero radius arc is a line');
+    t.ok(near((await measure('M0,0 Q50,0 100,0')).totalLength, 100), 'straight quadratic');
+
+    const [circle] = await of(oval({centerX: 0, centerY: 0, radiusX: 10, radiusY: 10})).pipe( measureSubPaths(), toArray() ).toPromise();
+    t.ok(near(circle.totalLength, 20 * Math.PI, 0.05), 'oval made of cubics');
+
+    // compare against a very finely flattened version
+    for (const pathData of [
+      'M0,0 C150,-40 -50,120 100,80',
+      'M0,0 Q100,100 200,0',
+      'M0,0 A40,20 45 1 1 30,10',
+      'M0,0 A10,30 10 1 1 50,50 A10,10 0 0 0 60,60 Z',
+    ]) {
+      const exact = await measure(pathData);
+      const approximate = await of(pathData).pipe( fromSVGPathData(), flattenSubPaths({tolerance: 1e-5}), measurePath() ).toPromise();
+      t.ok(near(exact.totalLength, approximate.totalLength, 1e-3), 'length of ' + pathData);
+    }
+
+    t.eq(await EMPTY.pipe( measureSubPaths(), toArray() ).toPromise(), []);
+    const empty = await EMPTY.pipe( measurePath() ).toPromise();
+    t.eq(empty.totalLength, 0);
+    try {
+      empty.pointAtLength(0);
+      t.fail('should throw on an empty path');
+    }
+    catch (e) {
+      t.ok(e instanceof Error);
+    }
+
+  });
+
+  t.test('pointAtLength', async t => {
+
+    const square = await measure('M0,0 L10,0 L10,10 L0,10 Z');
+    t.eq(square.pointAtLength(5), {x: 5, y: 0, tangentDegrees: 0, subPathIndex: 0, commandIndex: 0, t: 0.5});
+    t.eq(square.pointAtLength(15), {x: 10, y: 5, tangentDegrees: 90, subPathIndex: 0, commandIndex: 1, t: 0.5});
+    t.eq(square.pointAtLength(35), {x: 0, y: 5, tangentDegrees: -90, subPathIndex: 0, commandIndex: 3, t: 0.5});
+    t.eq(square.pointAtLength(-5), square.pointAtLength(0), 'clamped at the start');
+    t.eq(square.pointAtLength(50), square.pointAtLength(40), 'clamped at the end');
+    t.eq(square.pointAtLength(40).x, 0);
+    t.eq(square.pointAtLength(40).y, 0);
+    t.eq(square.pointAt(0.25), square.pointAtLength(10));
+    t.eq(square.pointAt(0.5).x, 10);
+    t.eq(square.pointAt(0.5).y, 10);
+
+    const twoParts = await of('M0,0 L10,0 M100,100 L100,110').pipe( fromSVGPathData(), measurePath() ).toPromise();
+    const second = twoParts.pointAtLength(15);
+    t.eq([second.x, second.y, second.subPathIndex, second.commandIndex], [100, 105, 1, 0]);
+
+    // y-down coordinates, so sweeping over the top of a semicircle starts out heading up
+    const semicircle = await measure('M0,0 A50,50 0 0 1 100,0');
+    const top = semicircle.pointAt(0.5);
+    t.ok(near(top.x, 50) && near(top.y, -50), 'middle of the semicircle');
+    t.ok(near(top.tangentDegrees, 0), 'tangent at the top of the semicircle');
+    t.ok(near(top.t, 0.5));
+    t.ok(near(semicircle.pointAt(0).tangentDegrees, -90), 'tangent at the start of the semicircle');
+    const quarter = semicircle.pointAtLength(12.5 * Math.PI);
+    t.ok(near(quarter.x, 50 - 50 * Math.SQRT1_2) && near(quarter.y, -50 * Math.SQRT1_2), 'an eighth of the way round');
+
+    // positions agree with a very finely flattened version
+    for (const pathData of ['M0,0 A40,20 30 1 1 30,10', 'M0,0 C150,-40 -50,120 100,80']) {
+      const exact = await measure(pathData);
+      const approximate = await of(pathData).pipe( fromSVGPathData(), flattenSubPaths({tolerance: 1e-5}), measurePath() ).toPromise();
+      for (const fraction of [0.1, 0.3, 0.7, 0.9]) {
+        const a = exact.pointAt(fraction), b = approximate.pointAt(fraction);
+        t.ok(near(a.x, b.x, 1e-2) && near(a.y, b.y, 1e-2), `point at ${fraction} of ${pathData}`);
+        t.ok(near(a.tangentDegrees, b.tangentDegrees, 1), `tangent at ${fraction} of ${pathData}`);
+      }
+    }
+
+    const cubic = await measure('M0,0 C0,100 100,100 100,0');
+    const middle = cubic.pointAt(0.5);
+    t.ok(near(middle.x, 50) && near(middle.y, 75) && near(middle.t, 0.5), 'middle of a symmetric cubic');
+    t.ok(near(middle.tangentDegrees, 0));
+    t.ok(near(cubic.pointAt(0).tangentDegrees, 90));
+    t.ok(near(cubic.pointAt(1).tangentDegrees, -90));
+
+    // control point on top of the start point
+    const cusp = await measure('M0,0 C0,0 100,100 100,0');
+    t.ok(near(cusp.pointAt(0).tangentDegrees, 45, 1e-3), 'tangent falls back to the direction of the curve');
+
+    const parameters = [0, 0.1, 0.2, 0.5, 0.8, 0.9, 1].map(fraction => cusp.pointAt(fraction).t);
+    t.ok(parameters.every((t, i) => i === 0 || t > parameters[i - 1]), 'parameter increases with length');
+
+  });
+
+};
@@ -0,0 +1,130 @@
+
+import { OperatorFunction, from, Observable } from 'rxjs';
+import { map, concatMap, toArray } from 'rxjs/operators';
+import { PathCommand, SubPath } from './index';
+import { SegmentGeometry, commandGeometry, parameterAtLength, hypot } from './geometry';
+
+export namespace PathMeasure {
+  export interface Segment {
+    readonly subPathIndex: number;
+    // index of the command within its subpath, or the number of commands for the line closing it
+    readonly commandIndex: number;
+    readonly startPoint: PathCommand.Point;
+    readonly command: PathCommand;
+    readonly length: number;
+    // distance along the whole path to the start of this segment
+    readonly offset: number;
+    // true for the implicit line back to the start of a closed subpath
+    readonly closing: boolean;
+  }
+
+  export interface Position {
+    readonly x: number;
+    readonly y: number;
+    // direction of the path at this point, as for an SVG marker with orient="auto"
+    readonly tangentDegrees: number;
+    readonly subPathIndex: number;
+    readonly commandIndex: number;
+    // position within the command: the curve parameter for beziers, the fraction of the sweep angle
+    // for arcs and the fraction of the distance for lines
+    readonly t: number;
+  }
+}
+
+export interface PathMeasure {
+  readonly totalLength: number;
+  readonly segments: readonly PathMeasure.Segment[];
+  // the distance is clamped to the range [0, totalLength]
+  pointAtLength(distance: number): PathMeasure.Position;
+  // position at a fraction of the total length
+  pointAt(fraction: number): PathMeasure.Position;
+}
+
+function tangentDegrees(geometry: SegmentGeometry, t: number): number {
+  let d = geometry.derivative(t);
+  if (hypot(d) < 1e-12) {
+    // stationary point (e.g. a control point on top of an end point): look just next to it
+    d = geometry.derivative(t < 0.5 ? t + 1e-6 : t - 1e-6);
+  }
+  return Math.atan2(d.y, d.x) * 180 / Math.PI;
+}
+
+function measureSubPathArray(subPaths: ReadonlyArray<SubPath & {commands: readonly PathCommand[]}>): PathMeasure {
+  const segments = new Array<PathMeasure.Segment>();
+  const geometries = new Array<SegmentGeometry>();
+  let offset = 0;
+  const addSegment = (
+    subPathIndex: number,
+    commandIndex: number,
+    startPoint: PathCommand.Point,
+    command: PathCommand,
+    closing: boolean,
+  ) => {
+    const geometry = commandGeometry(startPoint, command);
+    const length = geometry.lengthTo(1);
+    segments.push({subPathIndex, commandIndex, startPoint, command, length, offset, closing});
+    geometries.push(geometry);
+    offset += length;
+  };
+  subPaths.forEach((subPath, subPathIndex) => {
+    let lastPoint = subPath.startPoint;
+    subPath.commands.forEach((command, commandIndex) => {
+      addSegment(subPathIndex, commandIndex, lastPoint, command, false);
+      lastPoint = command.toPoint;
+    });
+    if (subPath.closed && subPath.commands.length > 0) {
+      addSegment(subPathIndex, subPath.commands.length, lastPoint, {type: PathCommand.Type.LINE, toPoint: subPath.startPoint}, true);
+    }
+  });
+  const totalLength = offset;
+  const pointAtLength = (distance: number): PathMeasure.Position => {
+    if (segments.length === 0) {
+      if (subPaths.length === 0) throw new Error('cannot find a point on an empty path');
+      const { x, y } = subPaths[0].startPoint;
+      return {x, y, tangentDegrees: 0, subPathIndex: 0, commandIndex: 0, t: 0};
+    }
+    distance = Math.max(0, Math.min(totalLength, distance));
+    let index = segments.findIndex(segment => segment.length > 0 && distance <= segment.offset + segment.length);
+    if (index === -1) index = 0;
+    const segment = segments[index], geometry = geometries[index];
+    const t = parameterAtLength(geometry, segment.length, distance - segment.offset);
+    const { x, y } = geometry.point(t);
+    return {
+      x,
+      y,
+      tangentDegrees: tangentDegrees(geometry, t),
+      subPathIndex: segment.subPathIndex,
+      commandIndex: segment.commandIndex,
+      t,
+    };
+  };
+  return {
+    totalLength,
+    segments,
+    pointAtLength,
+    pointAt: fraction => pointAtLength(fraction * totalLength),
+  };
+}
+
+function subPathWithCommandArray(subPath: SubPath): Observable<SubPath & {commands: PathCommand[]}> {
+  return from(subPath.commands).pipe(
+    toArray(),
+    map(commands => ({startPoint: subPath.startPoint, commands, closed: subPath.closed})),
+  );
+}
+
+// emits a measure of each subpath on its own
+export function measureSubPaths(): OperatorFunction<SubPath, PathMeasure> {
+  return concatMap(subPath => subPathWithCommandArray(subPath).pipe(
+    map(withCommands => measureSubPathArray([withCommands])),
+  ));
+}
+
+// emits a single measure of all the subpaths together on completion, like SVGPathElement.getTotalLength()
+export function measurePath(): OperatorFunction<SubPath, PathMeasure> {
+  return input => input.pipe(
+    concatMap(subPathWithCommandArray),
+    toArray(),
+    map(measureSubPathArray),
+  );
+}
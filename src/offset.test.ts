@@ -0,0 +1,83 @@
+import { TestHarness } from 'zora';
+import { of, from, OperatorFunction } from 'rxjs';
+import { toArray, concatMap } from 'rxjs/operators';
+import {
+  fromSVGPathData, toSVGPathData, offsetSubPaths, triangulateSubPaths, TriangleMesh, SubPath,
+} from '../lib/index';
+
+function meshArea(mesh: TriangleMesh): number {
+  const { xBuffer, yBuffer, indexBuffer } = mesh;
+  const x = (i: number) => xBuffer.data[xBuffer.offset + i * xBuffer.stride];
+  const y = (i: number) => yBuffer.data[yBuffer.offset + i * yBuffer.stride];
+  let area = 0;
+  for (let i = 0; i < indexBuffer.data.length; i += 3) {
+    const a = indexBuffer.data[i], b = indexBuffer.data[i+1], c = indexBuffer.data[i+2];
+    area += Math.abs((x(b) - x(a)) * (y(c) - y(a)) - (x(c) - x(a)) * (y(b) - y(a))) / 2;
+  }
+  return area;
+}
+
+async function apply(pathData: string, operator: OperatorFunction<SubPath, SubPath>): Promise<string> {
+  const parts = await of(pathData).pipe( fromSVGPathData(), operator, toSVGPathData(), toArray() ).toPromise();
+  return parts.join(' ');
+}
+
+async function areaAfter(pathData: string, operator: OperatorFunction<SubPath, SubPath>): Promise<number> {
+  const mesh = await of(pathData).pipe(
+    fromSVGPathData(),
+    operator,
+    triangulateSubPaths({fillRule: 'nonzero', tolerance: 0.001}),
+  ).toPromise();
+  return meshArea(mesh);
+}
+
+const near = (a: number, b: number, epsilon = 1e-6) => Math.abs(a - b) < epsilon;
+
+export default (t: TestHarness) => {
+
+  t.test('offsetSubPaths', async t => {
+
+    const square = 'M0,0 L100,0 L100,100 L0,100 Z';
+    t.eq(await apply(square, offsetSubPaths(0)), square);
+    t.eq(await apply(square, offsetSubPaths(-10)), 'M10,10 L90,10 L90,90 L10,90 Z');
+    t.eq(await apply(square, offsetSubPaths(-50)), '', 'shrunk away to nothing');
+    t.eq(await apply(square, offsetSubPaths(-60)), '');
+    t.eq(await apply(square, offsetSubPaths(10, {join: 'bevel'})), 'M-10,100 L-10,0 L0,-10 L100,-10 L110,0 L110,100 L100,110 L0,110 Z');
+    t.eq(await apply(square, offsetSubPaths(10)), 'M-10,110 L-10,-10 L110,-10 L110,110 Z', 'starts at a corner');
+
+    t.ok(near(await areaAfter(square, offsetSubPaths(10)), 120 * 120), 'miter outset area');
+    t.ok(near(await areaAfter(square, offsetSubPaths(10, {join: 'round'})), 10000 + 4000 + Math.PI * 100, 0.1), 'round outset area');
+    t.ok(near(await areaAfter(square, offsetSubPaths(10, {join: 'bevel'})), 120 * 120 - 200), 'bevel outset area');
+    t.ok(near(await areaAfter(square, offsetSubPaths(10, {join: 'miter', miterLimit: 1.2})), 120 * 120 - 200), 'miter limit');
+    t.ok(near(await areaAfter('M0,0 L0,100 L100,100 L100,0 Z', offsetSubPaths(10)), 120 * 120), 'either direction');
+
+    // the hole grows while the outside shrinks
+    const frame = 'M0,0 L100,0 L100,100 L0,100 Z M30,30 L30,70 L70,70 L70,30 Z';
+    t.ok(near(await areaAfter(frame, offsetSubPaths(-5)), 90 * 90 - 50 * 50), 'inset with a hole');
+    t.ok(near(await areaAfter(frame, offsetSubPaths(5)), 110 * 110 - 30 * 30), 'outset with a hole');
+    t.ok(near(await areaAfter(frame, offsetSubPaths(20)), 140 * 140), 'hole filled in');
+
+    // the notch is narrower than the inset, so its sides would cross over without the loop being removed
+    const notched = 'M0,0 L100,0 L100,100 L55,100 L55,40 L45,40 L45,100 L0,100 Z';
+    const inset = await of(notched).pipe( fromSVGPathData(), offsetSubPaths(-10), toArray() ).toPromise();
+    t.eq(inset.length, 1, 'no loops');
+    t.ok(near(await areaAfter(notched, offsetSubPaths(-10)), 80 * 80 - 30 * 60), 'notched inset area');
+
+    const circle = 'M50,0 A50,50 0 0 1 50,100 A50,50 0 0 1 50,0 Z';
+    for (const distance of [10, -10, -30]) {
+      const offset = await of(circle).pipe( fromSVGPathData(), offsetSubPaths(distance, {tolerance: 0.01}), toArray() ).toPromise();
+      t.eq(offset.length, 1);
+      const types = await from(offset).pipe( concatMap(subPath => subPath.commands), toArray() ).toPromise();
+      t.ok(types.every(command => command.type === 'C'), 'curves kept as curves');
+      const radius = 50 + distance;
+      t.ok(near(await areaAfter(circle, offsetSubPaths(distance, {tolerance: 0.01})), Math.PI * radius * radius, radius), `offset circle by ${distance}`);
+    }
+
+    t.throws(() => offsetSubPaths(NaN));
+    t.throws(() => offsetSubPaths(Infinity));
+    t.throws(() => offsetSubPaths(10, {miterLimit: 0.5}));
+    t.throws(() => offsetSubPaths(10, {tolerance: 0}));
+
+  });
+
+};
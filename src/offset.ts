@@ -0,0 +1,37 @@
+
+import { OperatorFunction, from } from 'rxjs';
+import { concatMap, map, toArray } from 'rxjs/operators';
+import { SubPath, FillRule, StrokeLineJoin, booleanSubPaths, strokeSubPaths } from './index';
+
+export interface OffsetOptions {
+  join?: StrokeLineJoin;
+  // longest a corner may reach before falling back to a bevel, as a multiple of the distance
+  miterLimit?: number;
+  // furthest the offset sides of curves may be from the true offset curves
+  tolerance?: number;
+  fillRule?: FillRule;
+}
+
+// grows the filled area of the subpaths by a distance, or shrinks it if the distance is negative,
+// emitting closed subpaths on completion. the outline is stroked to twice the distance, then the
+// stroke is added to or taken away from the original area, which removes any loops where the offset
+// outline would cross itself
+export function offsetSubPaths(distance: number, options: OffsetOptions = {}): OperatorFunction<SubPath, SubPath> {
+  if (!isFinite(distance)) throw new Error('invalid offset distance: ' + distance);
+  const { join = 'miter', miterLimit = 4, tolerance = 0.25, fillRule = 'nonzero' } = options;
+  const strokeOptions = {width: 2 * Math.abs(distance), join, miterLimit, tolerance};
+  // checking these now rather than on completion
+  strokeSubPaths(strokeOptions);
+  if (distance === 0) return input => input;
+  return input => input.pipe(
+    toArray(),
+    concatMap(subPaths => {
+      // fills are implicitly closed
+      const outlines = from(subPaths).pipe( map(subPath => ({...subPath, closed: true})) );
+      const band = outlines.pipe( strokeSubPaths(strokeOptions) );
+      return outlines.pipe(
+        booleanSubPaths(distance > 0 ? 'union' : 'subtract', band, {fillRule, otherFillRule: 'nonzero'}),
+      );
+    }),
+  );
+}
@@ -0,0 +1,60 @@
+import { TestHarness } from 'zora';
+import { encodePNG } from '../lib/index';
+
+interface Chunk {
+  type: string;
+  data: Uint8Array;
+}
+
+function readChunks(png: Uint8Array): Chunk[] {
+  const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+  const chunks = new Array<Chunk>();
+  for (let offset = 8; offset < png.length;) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...png.subarray(offset + 4, offset + 8));
+    chunks.push({type, data: png.subarray(offset + 8, offset + 8 + length)});
+    offset += 12 + length;
+  }
+  return chunks;
+}
+
+// the encoder only writes stored blocks, which are simple to read back
+function readStored(zlib: Uint8Array): number[] {
+  const bytes = new Array<number>();
+  let offset = 2, last = false;
+  while (!last) {
+    last = (zlib[offset] & 1) === 1;
+    const length = zlib[offset + 1] | (zlib[offset + 2] << 8);
+    bytes.push(...zlib.subarray(offset + 5, offset + 5 + length));
+    offset += 5 + length;
+  }
+  return bytes;
+}
+
+export default (t: TestHarness) => {
+
+  t.test('encodePNG', async t => {
+
+    const png = encodePNG({width: 2, height: 2, data: Uint8Array.of(0, 64, 128, 255)});
+    t.eq(Array.from(png.subarray(0, 8)), [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a], 'signature');
+    const chunks = readChunks(png);
+    t.eq(chunks.map(chunk => chunk.type), ['IHDR', 'IDAT', 'IEND']);
+    t.eq(Array.from(chunks[0].data), [0, 0, 0, 2, 0, 0, 0, 2, 8, 0, 0, 0, 0], 'grey header');
+    t.eq(readStored(chunks[1].data), [0, 0, 64, 0, 128, 255], 'rows with filter bytes');
+    // the CRC of an empty IEND chunk is always the same
+    t.eq(Array.from(png.subarray(png.length - 4)), [0xae, 0x42, 0x60, 0x82], 'checksum');
+
+    const rgba = readChunks(encodePNG({width: 1, height: 1, data: Uint8Array.of(1, 2, 3, 4)}));
+    t.eq(rgba[0].data[9], 6, 'RGBA colour type');
+
+    const large = new Uint8Array(200 * 200 * 3).map((_, i) => i % 7);
+    const stored = readStored(readChunks(encodePNG({width: 200, height: 200, data: large}))[1].data);
+    t.eq(stored.length, 200 * (200 * 3 + 1), 'split across blocks');
+    t.eq(stored.slice(1, 8), [0, 1, 2, 3, 4, 5, 6]);
+
+    t.throws(() => encodePNG({width: 2, height: 2, data: new Uint8Array(5)}));
+    t.throws(() => encodePNG({width: 0, height: 2, data: new Uint8Array(0)}));
+
+  });
+
+};
@@ -0,0 +1,95 @@
+
+// 8 bits per channel, with the number of channels following from the length of data: 1 for grey,
+// 2 for grey and alpha, 3 for RGB and 4 for RGBA. a CoverageMask can be written as a grey image
+export interface PNGImage {
+  readonly width: number;
+  readonly height: number;
+  readonly data: Uint8Array;
+}
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const COLOR_TYPES = [0, 4, 2, 6];
+const MAX_STORED_BLOCK = 0xffff;
+
+let crcTable: Uint32Array | undefined;
+
+function crc32(bytes: Uint8Array, start: number, end: number): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = start; i < end; i++) {
+    crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function adler32(bytes: Uint8Array): number {
+  let a = 1, b = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    a = (a + bytes[i]) % 65521;
+    b = (b + a) % 65521;
+  }
+  return ((b << 16) | a) >>> 0;
+}
+
+// a zlib stream of uncompressed deflate blocks, which keeps the encoder small at the cost of file size
+function zlibStored(bytes: Uint8Array): Uint8Array {
+  const blockCount = Math.max(1, Math.ceil(bytes.length / MAX_STORED_BLOCK));
+  const output = new Uint8Array(2 + blockCount * 5 + bytes.length + 4);
+  const view = new DataView(output.buffer);
+  output[0] = 0x78;
+  output[1] = 0x01;
+  let offset = 2;
+  for (let i = 0; i < blockCount; i++) {
+    const block = bytes.subarray(i * MAX_STORED_BLOCK, (i + 1) * MAX_STORED_BLOCK);
+    output[offset] = i === blockCount - 1 ? 1 : 0;
+    view.setUint16(offset + 1, block.length, true);
+    view.setUint16(offset + 3, ~block.length & 0xffff, true);
+    output.set(block, offset + 5);
+    offset += 5 + block.length;
+  }
+  view.setUint32(offset, adler32(bytes));
+  return output;
+}
+
+export function encodePNG(image: PNGImage): Uint8Array {
+  const { width, height, data } = image;
+  if (!(Number.isInteger(width) && width >= 1)) throw new Error('invalid width: ' + width);
+  if (!(Number.isInteger(height) && height >= 1)) throw new Error('invalid height: ' + height);
+  const channels = data.length / (width * height);
+  if (!(channels >= 1 && channels <= 4 && Number.isInteger(channels))) throw new Error('invalid data length: ' + data.length);
+  // each row starts with the filter type, which is always 0 for none
+  const rowLength = width * channels;
+  const raw = new Uint8Array((rowLength + 1) * height);
+  for (let y = 0; y < height; y++) {
+    raw.set(data.subarray(y * rowLength, (y + 1) * rowLength), y * (rowLength + 1) + 1);
+  }
+  const header = new Uint8Array(13);
+  const headerView = new DataView(header.buffer);
+  headerView.setUint32(0, width);
+  headerView.setUint32(4, height);
+  header[8] = 8;
+  header[9] = COLOR_TYPES[channels - 1];
+  const chunks: [string, Uint8Array][] = [['IHDR', header], ['IDAT', zlibStored(raw)], ['IEND', new Uint8Array(0)]];
+  const output = new Uint8Array(PNG_SIGNATURE.length + chunks.reduce((total, [, chunk]) => total + 12 + chunk.length, 0));
+  const view = new DataView(output.buffer);
+  output.set(PNG_SIGNATURE);
+  let offset = PNG_SIGNATURE.length;
+  for (const [type, chunk] of chunks) {
+    view.setUint32(offset, chunk.length);
+    for (let i = 0; i < 4; i++) output[offset + 4 + i] = type.charCodeAt(i);
+    output.set(chunk, offset + 8);
+    // the checksum covers the type as well as the data
+    view.setUint32(offset + 8 + chunk.length, crc32(output, offset + 4, offset + 8 + chunk.length));
+    offset += 12 + chunk.length;
+  }
+  return output;
+}
@@ -0,0 +1,54 @@
+import { TestHarness } from 'zora';
+import { of, from } from 'rxjs';
+import { fromSVGPathData, rasterizeSubPaths, rectangle, oval, Matrix2D, CoverageMask, SubPath } from '../lib/index';
+
+function coverage(mask: CoverageMask): number {
+  return mask.data.reduce((total, value) => total + value, 0) / 255;
+}
+
+export default (t: TestHarness) => {
+
+  t.test('rasterizeSubPaths', async t => {
+
+    const rasterize = (subPaths: SubPath[], options: CoverageMask.Options) => from(subPaths).pipe( rasterizeSubPaths(options) ).toPromise();
+
+    const square = await rasterize([rectangle({x: 1, y: 1, width: 2, height: 2})], {width: 4, height: 4});
+    t.eq(Array.from(square.data), [
+      0, 0, 0, 0,
+      0, 255, 255, 0,
+      0, 255, 255, 0,
+      0, 0, 0, 0,
+    ], 'whole pixels');
+
+    const half = await rasterize([rectangle({x: 0.5, y: 0, width: 1, height: 1})], {width: 2, height: 1});
+    t.eq(Array.from(half.data), [128, 128], 'part pixels');
+
+    const circle = await rasterize([oval({centerX: 50, centerY: 50, radius: 40})], {width: 100, height: 100});
+    t.ok(Math.abs(coverage(circle) / (Math.PI * 1600) - 1) < 0.005, 'circle area');
+
+    const clipped = await rasterize([rectangle({x: -10, y: -10, width: 15, height: 30})], {width: 10, height: 10});
+    t.eq(coverage(clipped), 50, 'clipped to the mask');
+
+    const frame = 'M0,0 L10,0 L10,10 L0,10 Z M2,2 L8,2 L8,8 L2,8 Z';
+    const evenOdd = await of(frame).pipe( fromSVGPathData(), rasterizeSubPaths({width: 10, height: 10, fillRule: 'evenodd'}) ).toPromise();
+    t.eq(coverage(evenOdd), 64, 'evenodd');
+    const nonzero = await of(frame).pipe( fromSVGPathData(), rasterizeSubPaths({width: 10, height: 10}) ).toPromise();
+    t.eq(coverage(nonzero), 100, 'nonzero');
+
+    const scaled = await rasterize([rectangle({x: 0, y: 0, width: 1, height: 1})], {
+      width: 8, height: 8, transform: Matrix2D.multiply(Matrix2D.translate(2, 2), Matrix2D.scale(4)),
+    });
+    t.eq(coverage(scaled), 16, 'transformed');
+    t.eq(scaled.data[2 * 8 + 2], 255);
+    t.eq(scaled.data[1 * 8 + 1], 0);
+
+    const empty = await rasterize([], {width: 3, height: 2});
+    t.eq(empty, {width: 3, height: 2, data: new Uint8Array(6)}, 'nothing to fill');
+
+    t.throws(() => rasterizeSubPaths({width: 1.5, height: 2}));
+    t.throws(() => rasterizeSubPaths({width: 2, height: -1}));
+    t.throws(() => rasterizeSubPaths({width: 2, height: 2, samples: 0}));
+
+  });
+
+};
@@ -0,0 +1,136 @@
+
+import { OperatorFunction, from } from 'rxjs';
+import { map, concatMap, toArray } from 'rxjs/operators';
+import { PathCommand, SubPath, FillRule, FlattenOptions, flattenSubPaths } from './index';
+import { Matrix2D, transformSubPaths } from './matrix';
+
+export namespace CoverageMask {
+  export interface Options extends FlattenOptions {
+    width: number;
+    height: number;
+    fillRule?: FillRule;
+    // from path coordinates to pixels, where pixel (0, 0) covers the square from 0,0 to 1,1
+    transform?: Matrix2D;
+    // number of rows sampled within each pixel, with coverage across each row measured exactly
+    samples?: number;
+  }
+}
+
+// one byte of coverage per pixel, from 0 (outside) to 255 (inside), row by row from the top
+export interface CoverageMask {
+  readonly width: number;
+  readonly height: number;
+  readonly data: Uint8Array;
+}
+
+interface Edge {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+  winding: 1 | -1;
+}
+
+// every edge is stored top-to-bottom, with the winding recording its original direction
+function subPathEdges(subPath: SubPath<PathCommand.Line>): Promise<Edge[]> {
+  return from(subPath.commands).pipe(
+    map(command => command.toPoint),
+    toArray(),
+    map(points => {
+      const polygon = [subPath.startPoint, ...points];
+      const edges = new Array<Edge>();
+      for (let i = 0; i < polygon.length; i++) {
+        // fills are implicitly closed
+        const a = polygon[i], b = polygon[(i + 1) % polygon.length];
+        if (a.y === b.y) continue;
+        if (a.y < b.y) {
+          edges.push({x0: a.x, y0: a.y, x1: b.x, y1: b.y, winding: 1});
+        }
+        else {
+          edges.push({x0: b.x, y0: b.y, x1: a.x, y1: a.y, winding: -1});
+        }
+      }
+      return edges;
+    }),
+  ).toPromise();
+}
+
+// adds the part of each pixel from x0 to x1 that is covered
+function addSpan(row: Float64Array, x0: number, x1: number) {
+  x0 = Math.max(0, x0);
+  x1 = Math.min(row.length, x1);
+  if (!(x1 > x0)) return;
+  const first = Math.floor(x0), last = Math.floor(x1);
+  if (first === last) {
+    row[first] += x1 - x0;
+    return;
+  }
+  row[first] += first + 1 - x0;
+  for (let x = first + 1; x < last; x++) {
+    row[x] += 1;
+  }
+  if (last < row.length) row[last] += x1 - last;
+}
+
+function rasterizeEdges(edges: readonly Edge[], options: CoverageMask.Options): CoverageMask {
+  const { width, height, fillRule = 'nonzero', samples = 16 } = options;
+  const isInside = fillRule === 'evenodd' ? (w: number) => (w & 1) !== 0 : (w: number) => w !== 0;
+  const data = new Uint8Array(width * height);
+  const sorted = edges.filter(edge => edge.y1 > 0 && edge.y0 < height).sort((a, b) => a.y0 - b.y0);
+  const row = new Float64Array(width);
+  let active = new Array<Edge>(), next = 0;
+  for (let y = 0; y < height; y++) {
+    row.fill(0);
+    for (let sample = 0; sample < samples; sample++) {
+      const sampleY = y + (sample + 0.5) / samples;
+      while (next < sorted.length && sorted[next].y0 <= sampleY) {
+        active.push(sorted[next++]);
+      }
+      active = active.filter(edge => edge.y1 > sampleY);
+      const crossings = active
+        .map(edge => ({
+          x: edge.x0 + (sampleY - edge.y0) * (edge.x1 - edge.x0) / (edge.y1 - edge.y0),
+          winding: edge.winding,
+        }))
+        .sort((a, b) => a.x - b.x);
+      let winding = 0, left = 0;
+      for (const crossing of crossings) {
+        const wasInside = isInside(winding);
+        winding += crossing.winding;
+        const nowInside = isInside(winding);
+        if (!wasInside && nowInside) {
+          left = crossing.x;
+        }
+        else if (wasInside && !nowInside) {
+          addSpan(row, left, crossing.x);
+        }
+      }
+    }
+    for (let x = 0; x < width; x++) {
+      data[y * width + x] = Math.round(Math.min(1, row[x] / samples) * 255);
+    }
+  }
+  return {width, height, data};
+}
+
+function validateOptions(options: CoverageMask.Options) {
+  const { width, height, samples = 16 } = options;
+  if (!(Number.isInteger(width) && width >= 0)) throw new Error('invalid width: ' + width);
+  if (!(Number.isInteger(height) && height >= 0)) throw new Error('invalid height: ' + height);
+  if (!(Number.isInteger(samples) && samples >= 1)) throw new Error('invalid number of samples: ' + samples);
+}
+
+// the fill rule applies across all subpaths of the stream, so a single mask is emitted on completion
+export function rasterizeSubPaths(options: CoverageMask.Options): OperatorFunction<SubPath, CoverageMask> {
+  validateOptions(options);
+  // flattened after transforming, so the tolerance is in pixels
+  const { transform = Matrix2D.IDENTITY, tolerance = 0.1 } = options;
+  const flatten = flattenSubPaths({tolerance});
+  return input => input.pipe(
+    transformSubPaths(transform),
+    flatten,
+    concatMap(subPathEdges),
+    toArray(),
+    map(edgeLists => rasterizeEdges(([] as Edge[]).concat(...edgeLists), options)),
+  );
+}
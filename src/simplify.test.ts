@@ -0,0 +1,93 @@
+import { TestHarness } from 'zora';
+import { of, from, OperatorFunction } from 'rxjs';
+import { toArray } from 'rxjs/operators';
+import {
+  fromSVGPathData, toSVGPathData, simplifySubPaths, fitCurves, isPointNearStroke, SubPath, PathCommand,
+} from '../lib/index';
+
+async function apply(pathData: string, operator: OperatorFunction<SubPath, SubPath>): Promise<string> {
+  const parts = await of(pathData).pipe( fromSVGPathData(), operator, toSVGPathData(), toArray() ).toPromise();
+  return parts.join(' ');
+}
+
+async function commandsAfter(pathData: string, operator: OperatorFunction<SubPath, SubPath>): Promise<PathCommand[]> {
+  const [subPath] = await of(pathData).pipe( fromSVGPathData(), operator, toArray() ).toPromise();
+  return from(subPath.commands).pipe( toArray() ).toPromise();
+}
+
+function polyline(points: PathCommand.Point[]): string {
+  return points.map((p, i) => (i === 0 ? 'M' : 'L') + p.x + ',' + p.y).join(' ');
+}
+
+export default (t: TestHarness) => {
+
+  t.test('simplifySubPaths', async t => {
+
+    t.eq(await apply('M0,0 L5,0 L10,0 L10,5 L10,10', simplifySubPaths()), 'M0,0 L10,0 L10,10', 'collinear lines merged');
+    t.eq(await apply('M0,0 L0,0 L10,0', simplifySubPaths()), 'M0,0 L10,0', 'repeated points');
+    t.eq(await apply('M0,0 L10,0 L5,0', simplifySubPaths(1)), 'M0,0 L10,0 L5,0', 'doubling back is kept');
+    t.eq(await apply('M0,0 L5,0.4 L10,0 L10,10', simplifySubPaths(0.5)), 'M0,0 L10,0 L10,10');
+    t.eq(await apply('M0,0 L5,0.6 L10,0 L10,10', simplifySubPaths(0.5)), 'M0,0 L5,0.6 L10,0 L10,10');
+    t.eq(await apply('M0,0 L1,0 L2,0 C3,1 4,1 5,0 L6,0 L7,0', simplifySubPaths()), 'M0,0 L2,0 C3,1 4,1 5,0 L7,0', 'other commands kept');
+    t.eq(await apply('M0,0 L5,0 L10,0 L10,10 L5,10.1 L0,10 Z', simplifySubPaths(0.5)), 'M0,0 L10,0 L10,10 L0,10 Z');
+    t.eq(await apply('M5,0 L10,0 L10,10 L0,10 L0,0 Z', simplifySubPaths()), 'M10,0 L10,10 L0,10 L0,0 Z', 'start point on a side');
+    t.eq(await apply('M0,0 L10,0 L10,10 L0,10 L0,0 Z', simplifySubPaths()), 'M0,0 L10,0 L10,10 L0,10 Z', 'explicit closing line');
+
+    // a noisy line becomes a straight one
+    const noisy = Array.from({length: 1000}, (_, i) => ({x: i, y: Math.sin(i * 12.9898) * 0.1}));
+    const commands = await commandsAfter(polyline(noisy), simplifySubPaths(0.25));
+    t.eq(commands.length, 1);
+
+    t.throws(() => simplifySubPaths(-1));
+    t.throws(() => simplifySubPaths(NaN));
+
+  });
+
+  t.test('fitCurves', async t => {
+
+    const halfCircle = Array.from({length: 201}, (_, i) => {
+      const angle = i / 200 * Math.PI;
+      return {x: 100 - 100 * Math.cos(angle), y: 100 * Math.sin(angle)};
+    });
+    for (const tolerance of [1, 0.1, 0.01]) {
+      const curves = await of(polyline(halfCircle)).pipe( fromSVGPathData(), fitCurves(tolerance), toArray() ).toPromise();
+      const commands = await from(curves[0].commands).pipe( toArray() ).toPromise();
+      t.ok(commands.length > 0 && commands.length < 20, `${commands.length} curves for tolerance ${tolerance}`);
+      t.ok(commands.every(command => command.type === 'C'), 'all cubic curves');
+      const near = await Promise.all(halfCircle.map(point => isPointNearStroke(curves, point, tolerance * 2.001).toPromise()));
+      t.ok(near.every(Boolean), `every point within ${tolerance}`);
+      // the curves should meet smoothly
+      let lastHandle = {x: 0, y: 0}, lastPoint = halfCircle[0];
+      commands.forEach((command, i) => {
+        if (command.type !== 'C') return;
+        const [c1, c2] = command.controlPoints;
+        if (i > 0) {
+          const cross = (lastPoint.x - lastHandle.x) * (c1.y - lastPoint.y) - (lastPoint.y - lastHandle.y) * (c1.x - lastPoint.x);
+          const dot = (lastPoint.x - lastHandle.x) * (c1.x - lastPoint.x) + (lastPoint.y - lastHandle.y) * (c1.y - lastPoint.y);
+          t.ok(Math.abs(cross) < 1e-6 * Math.abs(dot) && dot > 0, 'tangents match where curves meet');
+        }
+        lastHandle = c2;
+        lastPoint = command.toPoint;
+      });
+    }
+
+    const circle = Array.from({length: 100}, (_, i) => {
+      const angle = i / 100 * 2 * Math.PI;
+      return {x: 100 * Math.cos(angle), y: 100 * Math.sin(angle)};
+    });
+    const ring = await commandsAfter(polyline(circle) + ' Z', fitCurves(0.5));
+    const first = ring[0], last = ring[ring.length - 1];
+    t.ok(first.type === 'C' && last.type === 'C', 'closed polyline fitted');
+    if (first.type === 'C' && last.type === 'C') {
+      t.eq(last.toPoint, circle[0], 'ends at the start');
+      t.ok(Math.abs(first.controlPoints[0].x - 100) < 1e-9 && Math.abs(last.controlPoints[1].x - 100) < 1e-9, 'smooth at the start');
+    }
+
+    t.eq(await apply('M0,0 L10,0', fitCurves(1)), 'M0,0 L10,0', 'single line kept');
+    t.eq(await apply('M0,0 Q5,5 10,0', fitCurves(1)), 'M0,0 Q5,5 10,0', 'other commands kept');
+
+    t.throws(() => fitCurves(-1));
+
+  });
+
+};
@@ -0,0 +1,255 @@
+
+import { OperatorFunction, Observable, from } from 'rxjs';
+import { map, concatMap, toArray } from 'rxjs/operators';
+import { PathCommand, SubPath } from './index';
+import { bezierPoint, bezierDerivative, distanceToSegment } from './geometry';
+
+type Point = PathCommand.Point;
+
+const MAX_REPARAMETERIZE_ITERATIONS = 4;
+
+const samePoint = (a: Point, b: Point) => a.x === b.x && a.y === b.y;
+
+const distance = (a: Point, b: Point) => Math.sqrt((a.x - b.x) * (a.x - b.x) + (a.y - b.y) * (a.y - b.y));
+
+const lineTo = (toPoint: Point): PathCommand => ({type: PathCommand.Type.LINE, toPoint});
+
+function unitDirection(a: Point, b: Point): Point {
+  const d = distance(a, b);
+  return d === 0 ? {x: 0, y: 0} : {x: (b.x - a.x) / d, y: (b.y - a.y) / d};
+}
+
+function validateTolerance(tolerance: number) {
+  if (!(tolerance >= 0) || !isFinite(tolerance)) throw new Error('invalid tolerance: ' + tolerance);
+}
+
+// replaces each run of lines using mapRun, given all its points, leaving other commands alone. a closed
+// subpath made only of lines is passed to mapRing instead, with the start point repeated at the end
+function mapLineRuns(
+  subPath: SubPath,
+  mapRun: (points: Point[]) => PathCommand[],
+  mapRing: (points: Point[]) => {startPoint: Point, commands: PathCommand[]},
+): Observable<SubPath> {
+  return from(subPath.commands).pipe(
+    toArray(),
+    map(commands => {
+      if (subPath.closed && commands.length > 0 && commands.every(command => command.type === PathCommand.Type.LINE)) {
+        const points = [subPath.startPoint, ...commands.map(command => command.toPoint)];
+        if (!samePoint(points[points.length - 1], subPath.startPoint)) points.push(subPath.startPoint);
+        return {...mapRing(points), closed: true};
+      }
+      const result = new Array<PathCommand>();
+      let run = [subPath.startPoint];
+      const endRun = () => {
+        if (run.length > 1) result.push(...mapRun(run));
+      };
+      for (const command of commands) {
+        if (command.type === PathCommand.Type.LINE) {
+          run.push(command.toPoint);
+          continue;
+        }
+        endRun();
+        result.push(command);
+        run = [command.toPoint];
+      }
+      endRun();
+      return {startPoint: subPath.startPoint, commands: result, closed: subPath.closed};
+    }),
+  );
+}
+
+// the points that have to be kept for every point to be within the tolerance of the lines between them.
+// distances are to the segments rather than the infinite lines, so a path doubling back on itself is kept
+function douglasPeucker(points: readonly Point[], tolerance: number): Point[] {
+  const keep = points.map(() => false);
+  keep[0] = keep[points.length - 1] = true;
+  const ranges = [[0, points.length - 1]];
+  while (ranges.length > 0) {
+    const [first, last] = ranges.pop()!;
+    let farthest = -1, farthestDistance = tolerance;
+    for (let i = first + 1; i < last; i++) {
+      const d = distanceToSegment(points[i], points[first], points[last]);
+      if (d > farthestDistance) {
+        farthest = i;
+        farthestDistance = d;
+      }
+    }
+    if (farthest !== -1) {
+      keep[farthest] = true;
+      ranges.push([first, farthest], [farthest, last]);
+    }
+  }
+  return points.filter((_, i) => keep[i]);
+}
+
+function simplifyRing(points: readonly Point[], tolerance: number): {startPoint: Point, commands: PathCommand[]} {
+  let kept = douglasPeucker(points, tolerance).slice(0, -1);
+  // the start point is always kept by the algorithm, but may itself be on a straight side
+  if (kept.length >= 3 && distanceToSegment(kept[0], kept[kept.length - 1], kept[1]) <= tolerance) {
+    kept = kept.slice(1);
+  }
+  return {startPoint: kept[0], commands: kept.slice(1).map(lineTo)};
+}
+
+// removes points from runs of lines where leaving them out moves the outline by no more than the
+// tolerance, which also merges lines that carry straight on. other commands are kept as they are
+export function simplifySubPaths(tolerance = 0): OperatorFunction<SubPath, SubPath> {
+  validateTolerance(tolerance);
+  return concatMap(subPath => mapLineRuns(
+    subPath,
+    points => douglasPeucker(points, tolerance).slice(1).map(lineTo),
+    points => simplifyRing(points, tolerance),
+  ));
+}
+
+function chordLengthParameters(points: readonly Point[]): number[] {
+  const u = [0];
+  for (let i = 1; i < points.length; i++) {
+    u.push(u[i - 1] + distance(points[i - 1], points[i]));
+  }
+  const total = u[u.length - 1];
+  return u.map(length => length / total);
+}
+
+// the least squares fit for the lengths of the handles along the given tangents, where tangent2 points
+// backwards from the end of the curve
+function generateBezier(points: readonly Point[], u: readonly number[], tangent1: Point, tangent2: Point): Point[] {
+  const first = points[0], last = points[points.length - 1];
+  let c00 = 0, c01 = 0, c11 = 0, x0 = 0, x1 = 0;
+  points.forEach((p, i) => {
+    const t = u[i], mt = 1 - t;
+    const b0 = mt * mt * mt, b1 = 3 * mt * mt * t, b2 = 3 * mt * t * t, b3 = t * t * t;
+    const a0 = {x: tangent1.x * b1, y: tangent1.y * b1}, a1 = {x: tangent2.x * b2, y: tangent2.y * b2};
+    c00 += a0.x * a0.x + a0.y * a0.y;
+    c01 += a0.x * a1.x + a0.y * a1.y;
+    c11 += a1.x * a1.x + a1.y * a1.y;
+    const dx = p.x - (first.x * (b0 + b1) + last.x * (b2 + b3));
+    const dy = p.y - (first.y * (b0 + b1) + last.y * (b2 + b3));
+    x0 += a0.x * dx + a0.y * dy;
+    x1 += a1.x * dx + a1.y * dy;
+  });
+  const det = c00 * c11 - c01 * c01;
+  let alpha1 = det === 0 ? 0 : (x0 * c11 - x1 * c01) / det;
+  let alpha2 = det === 0 ? 0 : (c00 * x1 - c01 * x0) / det;
+  const chord = distance(first, last);
+  // handles that are too short or point the wrong way give a poor curve, so fall back on a third of the chord
+  if (alpha1 < chord * 1e-6 || alpha2 < chord * 1e-6) {
+    alpha1 = alpha2 = chord / 3;
+  }
+  return [
+    first,
+    {x: first.x + tangent1.x * alpha1, y: first.y + tangent1.y * alpha1},
+    {x: last.x + tangent2.x * alpha2, y: last.y + tangent2.y * alpha2},
+    last,
+  ];
+}
+
+// the furthest any point is from the curve at its parameter, and which point that is
+function maxFitError(points: readonly Point[], bezier: readonly Point[], u: readonly number[]): {error: number, index: number} {
+  let error = 0, index = Math.floor(points.length / 2);
+  for (let i = 1; i < points.length - 1; i++) {
+    const d = distance(bezierPoint(bezier, u[i]), points[i]);
+    if (d > error) {
+      error = d;
+      index = i;
+    }
+  }
+  return {error, index};
+}
+
+// one newton step towards the parameter of the closest point on the curve to each point
+function reparameterize(points: readonly Point[], bezier: readonly Point[], u: readonly number[]): number[] {
+  const [p0, p1, p2, p3] = bezier;
+  return points.map((p, i) => {
+    const t = u[i];
+    const q = bezierPoint(bezier, t), d1 = bezierDerivative(bezier, t);
+    const d2 = {
+      x: 6 * ((1 - t) * (p2.x - 2 * p1.x + p0.x) + t * (p3.x - 2 * p2.x + p1.x)),
+      y: 6 * ((1 - t) * (p2.y - 2 * p1.y + p0.y) + t * (p3.y - 2 * p2.y + p1.y)),
+    };
+    const numerator = (q.x - p.x) * d1.x + (q.y - p.y) * d1.y;
+    const denominator = d1.x * d1.x + d1.y * d1.y + (q.x - p.x) * d2.x + (q.y - p.y) * d2.y;
+    if (denominator === 0) return t;
+    return Math.min(1, Math.max(0, t - numerator / denominator));
+  });
+}
+
+// the direction through a point from the one before to the one after, pointing backwards
+function centerTangent(points: readonly Point[], index: number): Point {
+  const tangent = unitDirection(points[index + 1], points[index - 1]);
+  return tangent.x === 0 && tangent.y === 0 ? unitDirection(points[index], points[index - 1]) : tangent;
+}
+
+// Schneider's algorithm: fit one cubic with the given end tangents, splitting at the worst point if
+// it is not close enough
+function fitCubic(points: readonly Point[], tangent1: Point, tangent2: Point, tolerance: number, curves: Point[][]) {
+  if (points.length === 2) {
+    const third = distance(points[0], points[1]) / 3;
+    curves.push([
+      points[0],
+      {x: points[0].x + tangent1.x * third, y: points[0].y + tangent1.y * third},
+      {x: points[1].x + tangent2.x * third, y: points[1].y + tangent2.y * third},
+      points[1],
+    ]);
+    return;
+  }
+  let u = chordLengthParameters(points);
+  let bezier = generateBezier(points, u, tangent1, tangent2);
+  let { error, index } = maxFitError(points, bezier, u);
+  // close fits are worth improving by finding better parameters before giving up and splitting
+  for (let i = 0; i < MAX_REPARAMETERIZE_ITERATIONS && error > tolerance && error < tolerance * 4; i++) {
+    u = reparameterize(points, bezier, u);
+    bezier = generateBezier(points, u, tangent1, tangent2);
+    ({ error, index } = maxFitError(points, bezier, u));
+  }
+  if (error <= tolerance) {
+    curves.push(bezier);
+    return;
+  }
+  const center = centerTangent(points, index);
+  fitCubic(points.slice(0, index + 1), tangent1, center, tolerance, curves);
+  fitCubic(points.slice(index), {x: -center.x, y: -center.y}, tangent2, tolerance, curves);
+}
+
+function withoutRepeats(points: readonly Point[]): Point[] {
+  return points.filter((p, i) => i === 0 || !samePoint(p, points[i - 1]));
+}
+
+function curveCommands(curves: readonly Point[][]): PathCommand[] {
+  return curves.map(([, c1, c2, toPoint]): PathCommand.CubicCurve => ({
+    type: PathCommand.Type.CUBIC_CURVE,
+    controlPoints: [c1, c2],
+    toPoint,
+  }));
+}
+
+function fitRun(points: readonly Point[], tolerance: number): PathCommand[] {
+  const unique = withoutRepeats(points);
+  if (unique.length < 3) return points.slice(1).map(lineTo);
+  const curves = new Array<Point[]>();
+  const last = unique.length - 1;
+  fitCubic(unique, unitDirection(unique[0], unique[1]), unitDirection(unique[last], unique[last - 1]), tolerance, curves);
+  return curveCommands(curves);
+}
+
+function fitRing(points: readonly Point[], tolerance: number): {startPoint: Point, commands: PathCommand[]} {
+  const unique = withoutRepeats(points);
+  if (unique.length < 4) return {startPoint: points[0], commands: points.slice(1).map(lineTo)};
+  // smooth where the ends meet too
+  const tangent = centerTangent([unique[unique.length - 2], ...unique.slice(0, 2)], 1);
+  const curves = new Array<Point[]>();
+  fitCubic(unique, {x: -tangent.x, y: -tangent.y}, tangent, tolerance, curves);
+  return {startPoint: unique[0], commands: curveCommands(curves)};
+}
+
+// replaces each run of lines with smooth cubic curves that pass within the tolerance of every point
+// along it, which suits dense polylines like freehand drawing and traces. lines on their own and other
+// commands are kept as they are
+export function fitCurves(tolerance: number): OperatorFunction<SubPath, SubPath> {
+  validateTolerance(tolerance);
+  return concatMap(subPath => mapLineRuns(
+    subPath,
+    points => fitRun(points, tolerance),
+    points => fitRing(points, tolerance),
+  ));
+}
@@ -0,0 +1,91 @@
+import { TestHarness } from 'zora';
+import { of, from } from 'rxjs';
+import { toArray, concatMap } from 'rxjs/operators';
+import {
+  fromSVGPathData, toSVGPathData, splitCommandAt, subdivideCommand, splitSubPathAt, measurePath, PathCommand, SubPath,
+} from '../lib/index';
+
+async function parseCommand(pathData: string): Promise<{startPoint: PathCommand.Point, command: PathCommand}> {
+  const [subPath] = await of(pathData).pipe( fromSVGPathData(), toArray() ).toPromise();
+  const [command] = await from(subPath.commands).pipe( toArray() ).toPromise();
+  return {startPoint: subPath.startPoint, command};
+}
+
+async function write(subPaths: SubPath[]): Promise<string> {
+  const parts = await from(subPaths).pipe( toSVGPathData(), toArray() ).toPromise();
+  return parts.join(' ');
+}
+
+const near = (a: number, b: number, epsilon = 1e-9) => Math.abs(a - b) < epsilon;
+
+export default (t: TestHarness) => {
+
+  t.test('splitCommandAt', async t => {
+
+    const line = await parseCommand('M0,0 L10,20');
+    t.eq(await write([{startPoint: line.startPoint, commands: splitCommandAt(line.startPoint, line.command, 0.25)}]), 'M0,0 L2.5,5 L10,20');
+
+    const quadratic = await parseCommand('M0,0 Q50,100 100,0');
+    t.eq(await write([{startPoint: quadratic.startPoint, commands: splitCommandAt(quadratic.startPoint, quadratic.command, 0.5)}]), 'M0,0 Q25,50 50,50 Q75,50 100,0');
+
+    const cubic = await parseCommand('M0,0 C0,100 100,100 100,0');
+    t.eq(await write([{startPoint: cubic.startPoint, commands: splitCommandAt(cubic.startPoint, cubic.command, 0.5)}]), 'M0,0 C0,50 25,75 50,75 C75,75 100,50 100,0');
+
+    const arc = await parseCommand('M0,0 A50,50 0 1 1 100,0');
+    const [first, second] = splitCommandAt(arc.startPoint, arc.command, 0.5);
+    t.ok(first.type === 'A' && !first.largeArcFlag && first.sweepFlag, 'half of a half circle');
+    t.ok(near(first.toPoint.x, 50) && near(first.toPoint.y, -50), 'arc split at half the angle');
+    t.eq(second.toPoint, {x: 100, y: 0});
+
+    t.throws(() => splitCommandAt(line.startPoint, line.command, 1.5));
+    t.throws(() => splitCommandAt(line.startPoint, line.command, NaN));
+
+  });
+
+  t.test('subdivideCommand', async t => {
+
+    const line = await parseCommand('M0,0 L30,0');
+    t.eq(await write([{startPoint: line.startPoint, commands: subdivideCommand(line.startPoint, line.command, 3)}]), 'M0,0 L10,0 L20,0 L30,0');
+    t.eq(subdivideCommand(line.startPoint, line.command, 1), [line.command]);
+
+    // equal parts of a circle
+    const circle = await parseCommand('M100,0 A100,100 0 1 1 -100,0');
+    const parts = subdivideCommand(circle.startPoint, circle.command, 4);
+    t.eq(parts.length, 4);
+    parts.forEach((part, i) => {
+      const angle = (i + 1) * Math.PI / 4;
+      t.ok(near(part.toPoint.x, 100 * Math.cos(angle)) && near(part.toPoint.y, 100 * Math.sin(angle)), `part ${i} of the arc`);
+    });
+
+    const cubic = await parseCommand('M0,0 C150,-40 -50,120 100,80');
+    const before = await of(`M0,0 C150,-40 -50,120 100,80`).pipe( fromSVGPathData(), measurePath() ).toPromise();
+    const after = await of({startPoint: cubic.startPoint, commands: subdivideCommand(cubic.startPoint, cubic.command, 7)}).pipe( measurePath() ).toPromise();
+    t.ok(near(after.totalLength, before.totalLength, 1e-6), 'same length after subdividing');
+
+    t.throws(() => subdivideCommand(line.startPoint, line.command, 0));
+    t.throws(() => subdivideCommand(line.startPoint, line.command, 1.5));
+
+  });
+
+  t.test('splitSubPathAt', async t => {
+
+    const split = async (pathData: string, commandIndex: number, t: number) => write(
+      await of(pathData).pipe( fromSVGPathData(), concatMap(subPath => splitSubPathAt(subPath, commandIndex, t)), toArray() ).toPromise()
+    );
+
+    t.eq(await split('M0,0 L10,0 L10,10', 1, 0.5), 'M0,0 L10,0 L10,5 M10,5 L10,10');
+    t.eq(await split('M0,0 L10,0 L10,10', 1, 0), 'M0,0 L10,0 M10,0 L10,10', 'between commands');
+    t.eq(await split('M0,0 L10,0 L10,10', 0, 1), 'M0,0 L10,0 M10,0 L10,10');
+    t.eq(await split('M0,0 L10,0 L10,10', 0, 0), 'M0,0 M0,0 L10,0 L10,10');
+    t.eq(await split('M0,0 L10,0 L10,10 L0,10 Z', 1, 0.5), 'M10,5 L10,10 L0,10 L0,0 L10,0 L10,5', 'closed subpaths are opened');
+    t.eq(await split('M0,0 L10,0 L10,10 L0,10 Z', 3, 0.5), 'M0,5 L0,0 L10,0 L10,10 L0,10 L0,5', 'cut on the closing line');
+    t.eq(await split('M0,0 L10,0 L10,10 L0,0 Z', 0, 0), 'M0,0 L10,0 L10,10 L0,0');
+
+    let error: any = null;
+    await split('M0,0 L10,0', 1, 0.5).catch(e => { error = e; });
+    t.ok(error instanceof Error, 'command index out of range');
+    t.throws(() => splitSubPathAt({startPoint: {x: 0, y: 0}, commands: []}, 0, -1));
+
+  });
+
+};
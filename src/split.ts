@@ -0,0 +1,79 @@
+
+import { Observable, from } from 'rxjs';
+import { concatMap, toArray } from 'rxjs/operators';
+import { PathCommand, SubPath } from './index';
+import { splitCommand } from './geometry';
+
+function validateParameter(t: number) {
+  if (!(t >= 0 && t <= 1)) throw new Error('invalid parameter: ' + t);
+}
+
+// splits a command in two at a parameter from 0 to 1. curves are split with de Casteljau's algorithm,
+// giving the exact same shape, and arcs are split at the fraction t of the angle they sweep through
+export function splitCommandAt(startPoint: PathCommand.Point, command: PathCommand, t: number): [PathCommand, PathCommand] {
+  validateParameter(t);
+  return splitCommand(startPoint, command, t);
+}
+
+// splits a command into a number of parts with equal ranges of the parameter
+export function subdivideCommand(startPoint: PathCommand.Point, command: PathCommand, count: number): PathCommand[] {
+  if (!(Number.isInteger(count) && count >= 1)) throw new Error('invalid number of parts: ' + count);
+  const parts = new Array<PathCommand>();
+  let rest = command, restStart = startPoint;
+  for (let i = count; i > 1; i--) {
+    const [part, next] = splitCommand(restStart, rest, 1 / i);
+    parts.push(part);
+    restStart = part.toPoint;
+    rest = next;
+  }
+  parts.push(rest);
+  return parts;
+}
+
+// cuts a subpath in two at a parameter of one of its commands, as given by pathMeasure.pointAt(). a closed
+// subpath can also be cut on the line that closes it, at the index after its last command, and is opened
+// up into a single subpath that starts and ends at the cut instead
+export function splitSubPathAt(subPath: SubPath, commandIndex: number, t: number): Observable<SubPath> {
+  validateParameter(t);
+  return from(subPath.commands).pipe(
+    toArray(),
+    concatMap(commands => {
+      const { startPoint } = subPath;
+      const closed = !!subPath.closed;
+      if (closed) {
+        const lastPoint = commands.length > 0 ? commands[commands.length - 1].toPoint : startPoint;
+        // the line closing the subpath becomes part of it, unless it goes nowhere and is not being cut
+        if (lastPoint.x !== startPoint.x || lastPoint.y !== startPoint.y || commandIndex === commands.length) {
+          commands = [...commands, {type: PathCommand.Type.LINE, toPoint: startPoint}];
+        }
+      }
+      if (!(Number.isInteger(commandIndex) && commandIndex >= 0 && commandIndex < commands.length)) {
+        throw new Error('invalid command index: ' + commandIndex);
+      }
+      const commandStart = commandIndex > 0 ? commands[commandIndex - 1].toPoint : startPoint;
+      let before = commands.slice(0, commandIndex), after = commands.slice(commandIndex + 1);
+      let cutPoint: PathCommand.Point;
+      if (t === 0) {
+        after = commands.slice(commandIndex);
+        cutPoint = commandStart;
+      }
+      else if (t === 1) {
+        before = commands.slice(0, commandIndex + 1);
+        cutPoint = commands[commandIndex].toPoint;
+      }
+      else {
+        const [first, second] = splitCommand(commandStart, commands[commandIndex], t);
+        before = [...before, first];
+        after = [second, ...after];
+        cutPoint = first.toPoint;
+      }
+      if (closed) {
+        return [{startPoint: cutPoint, commands: [...after, ...before], closed: false}];
+      }
+      return [
+        {startPoint, commands: before, closed: false},
+        {startPoint: cutPoint, commands: after, closed: false},
+      ];
+    }),
+  );
+}
@@ -0,0 +1,112 @@
+import { TestHarness } from 'zora';
+import { of, from } from 'rxjs';
+import { toArray, concatMap } from 'rxjs/operators';
+import {
+  fromSVGPathData, toSVGPathData, strokeSubPaths, flattenSubPaths, triangulateSubPaths, TriangleMesh, StrokeOptions,
+  PathCommand,
+} from '../lib/index';
+
+function meshArea(mesh: TriangleMesh): number {
+  const { xBuffer, yBuffer, indexBuffer } = mesh;
+  const x = (i: number) => xBuffer.data[xBuffer.offset + i * xBuffer.stride];
+  const y = (i: number) => yBuffer.data[yBuffer.offset + i * yBuffer.stride];
+  let area = 0;
+  for (let i = 0; i < indexBuffer.data.length; i += 3) {
+    const a = indexBuffer.data[i], b = indexBuffer.data[i+1], c = indexBuffer.data[i+2];
+    area += Math.abs((x(b) - x(a)) * (y(c) - y(a)) - (x(c) - x(a)) * (y(b) - y(a))) / 2;
+  }
+  return area;
+}
+
+async function strokeArea(pathData: string, options: StrokeOptions): Promise<number> {
+  const mesh = await of(pathData).pipe(
+    fromSVGPathData(),
+    strokeSubPaths(options),
+    triangulateSubPaths({fillRule: 'nonzero', tolerance: 0.001}),
+  ).toPromise();
+  return meshArea(mesh);
+}
+
+async function strokePathData(pathData: string, options: StrokeOptions): Promise<string> {
+  const parts = await of(pathData).pipe( fromSVGPathData(), strokeSubPaths(options), toSVGPathData(), toArray() ).toPromise();
+  return parts.join(' ');
+}
+
+// the points of the outline, flattened much finer than the stroke tolerance
+async function strokePoints(pathData: string, options: StrokeOptions): Promise<PathCommand.Point[]> {
+  return of(pathData).pipe(
+    fromSVGPathData(),
+    strokeSubPaths(options),
+    flattenSubPaths({tolerance: 0.0001}),
+    concatMap(subPath => from(subPath.commands)),
+    concatMap(command => [command.toPoint]),
+    toArray(),
+  ).toPromise();
+}
+
+const near = (a: number, b: number, epsilon = 1e-6) => Math.abs(a - b) < epsilon;
+
+export default (t: TestHarness) => {
+
+  t.test('strokeSubPaths', async t => {
+
+    t.eq(
+      await strokePathData('M0,0 L100,0', {width: 10}),
+      'M0,5 L100,5 L100,-5 L0,-5 L0,5 Z',
+    );
+    t.eq(
+      await strokePathData('M0,0 L100,0', {width: 10, cap: 'square'}),
+      'M0,5 L100,5 L105,5 L105,-5 L100,-5 L0,-5 L-5,-5 L-5,5 L0,5 Z',
+    );
+    t.eq(
+      await strokePathData('M0,0 L100,0', {width: 10, cap: 'round'}),
+      'M0,5 L100,5 A5 5 0 0 0 100,-5 L0,-5 A5 5 0 0 0 0,5 Z',
+    );
+
+    t.eq(await strokeArea('M0,0 L100,0', {width: 10}), 1000);
+    t.eq(await strokeArea('M0,0 L100,0', {width: 10, cap: 'square'}), 1100);
+    t.ok(near(await strokeArea('M0,0 L100,0', {width: 10, cap: 'round'}), 1000 + 25 * Math.PI, 0.05), 'round caps');
+
+    const square = 'M0,0 L100,0 L100,100 L0,100 Z';
+    t.eq(await strokeArea(square, {width: 10}), 110*110 - 90*90);
+    t.eq(await strokeArea(square, {width: 10, join: 'bevel'}), 110*110 - 90*90 - 4 * 12.5);
+    t.eq(await strokeArea(square, {width: 10, miterLimit: 1.4}), 110*110 - 90*90 - 4 * 12.5, 'miter limit');
+    t.ok(near(await strokeArea(square, {width: 10, join: 'round'}), 110*110 - 90*90 - 4 * (25 - 25 * Math.PI / 4), 0.05), 'round joins');
+    t.eq(await strokeArea('M100,0 L0,0 L0,100 L100,100 Z', {width: 10}), 110*110 - 90*90, 'either direction');
+
+    // an open corner: the inside of the join overlaps but still fills once
+    t.eq(await strokeArea('M0,0 L100,0 L100,100', {width: 10}), 2000);
+    t.eq(await strokeArea('M0,0 L100,0 L100,100', {width: 10, join: 'bevel'}), 2000 - 12.5);
+
+    // a sharp turn back on itself
+    t.ok(await strokeArea('M0,0 L100,0 L0,1', {width: 10, join: 'bevel'}) > 1000);
+
+    // the sides of curves are offset cubics, so the area of a stroked circle is close to that of the ring
+    const circle = 'M-50,0 A50,50 0 0 0 50,0 A50,50 0 0 0 -50,0 Z';
+    t.ok(near(await strokeArea(circle, {width: 10, tolerance: 0.001}), Math.PI * (55*55 - 45*45), 1), 'stroked circle');
+    t.ok((await strokePathData(circle, {width: 10})).includes('C'), 'curves are kept');
+    for (const tolerance of [0.25, 0.01]) {
+      const error = Math.max(...(await strokePoints(circle, {width: 10, tolerance})).map(({ x, y }) => {
+        const r = Math.sqrt(x * x + y * y);
+        return Math.min(Math.abs(r - 45), Math.abs(r - 55));
+      }));
+      t.ok(error < 2 * tolerance, 'offset circle within tolerance ' + tolerance);
+    }
+    t.ok(near(
+      await strokeArea('M0,0 Q50,100 100,0', {width: 10}),
+      await strokeArea('M0,0 C33.333333333333336,66.66666666666667 66.66666666666667,66.66666666666667 100,0', {width: 10}),
+    ), 'quadratics are offset as cubics');
+    // the offset of a cusp never comes within tolerance, so splitting it stops at a limit
+    const cusp = await strokePoints('M0,0 C100,100 0,100 100,0', {width: 20, tolerance: 0.01});
+    t.ok(cusp.length > 0 && cusp.every(({ x, y }) => isFinite(x) && isFinite(y)), 'cusp');
+
+    t.eq(await strokePathData('M10,10', {width: 4}), '');
+    t.eq(await strokePathData('M10,10 L10,10', {width: 4, cap: 'square'}), 'M8,8 L12,8 L12,12 L8,12 Z');
+    t.ok(near(await strokeArea('M10,10 Z', {width: 4, cap: 'round'}), Math.PI * 4, 0.01), 'zero-length subpath with round cap');
+    t.eq(await strokePathData('M0,0 L100,0', {width: 0}), '');
+    t.throws(() => strokeSubPaths({width: -1}));
+    t.throws(() => strokeSubPaths({miterLimit: 0.5}));
+
+  });
+
+};
@@ -0,0 +1,319 @@
+
+import { OperatorFunction, from } from 'rxjs';
+import { map, concatMap, toArray } from 'rxjs/operators';
+import { PathCommand, SubPath, FlattenOptions, curvifySubPaths } from './index';
+import { bezierPoint, bezierDerivative, splitBezier } from './geometry';
+
+export type StrokeLineJoin = 'miter' | 'round' | 'bevel';
+
+export type StrokeLineCap = 'butt' | 'round' | 'square';
+
+// the defaults are the same as for SVG
+export interface StrokeOptions extends FlattenOptions {
+  width?: number;
+  join?: StrokeLineJoin;
+  cap?: StrokeLineCap;
+  // longest miter allowed before falling back to a bevel, as a multiple of the width
+  miterLimit?: number;
+}
+
+type Point = PathCommand.Point;
+
+type CurveCommand = Exclude<PathCommand, PathCommand.Arc>;
+
+interface Stroke {
+  halfWidth: number;
+  join: StrokeLineJoin;
+  cap: StrokeLineCap;
+  miterLimit: number;
+  tolerance: number;
+}
+
+// a line or cubic curve, given all its points including both ends
+interface Segment {
+  readonly points: Point[];
+  // unit tangents at each end
+  readonly startDirection: Point;
+  readonly endDirection: Point;
+}
+
+const STRAIGHT_EPSILON = 1e-9;
+const MAX_OFFSET_DEPTH = 8;
+
+const offsetPoint = (p: Point, direction: Point, distance: number): Point => ({
+  x: p.x + direction.x * distance,
+  y: p.y + direction.y * distance,
+});
+
+function unitDirection(a: Point, b: Point): Point {
+  const dx = b.x - a.x, dy = b.y - a.y;
+  const length = Math.sqrt(dx*dx + dy*dy);
+  return {x: dx / length, y: dy / length};
+}
+
+// rotated a quarter turn in the direction of increasing angle, i.e. the direction of an arc with sweepFlag set
+const normal = (d: Point): Point => ({x: -d.y, y: d.x});
+
+const negate = (d: Point): Point => ({x: -d.x, y: -d.y});
+
+const lineTo = (toPoint: Point): PathCommand => ({type: PathCommand.Type.LINE, toPoint});
+
+function arcTo(radius: number, sweepFlag: boolean, toPoint: Point): PathCommand {
+  return {
+    type: PathCommand.Type.ARC,
+    radiusX: radius,
+    radiusY: radius,
+    rotateDegrees: 0,
+    largeArcFlag: false,
+    sweepFlag,
+    toPoint,
+  };
+}
+
+// the join on the side of the normals, going from the end of one offset segment to the start of the next
+function joinCommands(stroke: Stroke, vertex: Point, d0: Point, d1: Point): PathCommand[] {
+  const { halfWidth } = stroke;
+  const n0 = normal(d0), n1 = normal(d1);
+  const end = offsetPoint(vertex, n1, halfWidth);
+  const cross = d0.x * d1.y - d0.y * d1.x;
+  const dot = d0.x * d1.x + d0.y * d1.y;
+  if (Math.abs(cross) < STRAIGHT_EPSILON && dot > 0) {
+    return [lineTo(end)];
+  }
+  if (cross > 0) {
+    // inside of the turn: going via the vertex keeps every part of the outline winding the same way
+    return [lineTo(vertex), lineTo(end)];
+  }
+  switch (stroke.join) {
+    case 'round': {
+      return [arcTo(halfWidth, false, end)];
+    }
+    case 'miter': {
+      // 1 / sin(half the angle between the segments)
+      const ratio = 1 / Math.sqrt((1 + dot) / 2);
+      if (ratio <= stroke.miterLimit) {
+        const miter = {x: (n0.x + n1.x) / (1 + dot), y: (n0.y + n1.y) / (1 + dot)};
+        return [lineTo(offsetPoint(vertex, miter, halfWidth)), lineTo(end)];
+      }
+      return [lineTo(end)];
+    }
+    default: {
+      return [lineTo(end)];
+    }
+  }
+}
+
+// from the end of one side of an open subpath to the start of the other
+function capCommands(stroke: Stroke, endPoint: Point, d: Point): PathCommand[] {
+  const { halfWidth } = stroke;
+  const n = normal(d);
+  const otherSide = offsetPoint(endPoint, n, -halfWidth);
+  switch (stroke.cap) {
+    case 'round': {
+      return [arcTo(halfWidth, false, otherSide)];
+    }
+    case 'square': {
+      const extended = offsetPoint(endPoint, d, halfWidth);
+      return [
+        lineTo(offsetPoint(extended, n, halfWidth)),
+        lineTo(offsetPoint(extended, n, -halfWidth)),
+        lineTo(otherSide),
+      ];
+    }
+    default: {
+      return [lineTo(otherSide)];
+    }
+  }
+}
+
+// the direction at one end of a line or bezier curve, ignoring control points on top of the end point
+function curveEndDirection(points: readonly Point[], atEnd: boolean): Point {
+  const ordered = atEnd ? points.slice().reverse() : points;
+  const end = ordered[0];
+  const next = ordered.find(p => p.x !== end.x || p.y !== end.y)!;
+  return atEnd ? unitDirection(next, end) : unitDirection(end, next);
+}
+
+// how much offsetting changes the speed of a cubic at its start, from its signed curvature there
+function handleScale(halfWidth: number, p0: Point, p1: Point, p2: Point): number {
+  const d1 = {x: p1.x - p0.x, y: p1.y - p0.y};
+  const d2 = {x: p0.x - 2 * p1.x + p2.x, y: p0.y - 2 * p1.y + p2.y};
+  const speed = Math.sqrt(d1.x * d1.x + d1.y * d1.y);
+  if (speed === 0) return 1;
+  // the derivatives are 3*d1 and 6*d2, so the curvature is (18/27) * (d1 x d2) / |d1|^3
+  const curvature = (2 / 3) * (d1.x * d2.y - d1.y * d2.x) / (speed * speed * speed);
+  return 1 - halfWidth * curvature;
+}
+
+// approximates the curve at a constant distance to the side of the normals with a cubic that has the
+// same tangents at its ends and handles scaled by the change in speed there, splitting the curve until
+// every part is within tolerance
+function offsetCubic(stroke: Stroke, points: readonly Point[], depth: number, commands: PathCommand[]) {
+  const { halfWidth } = stroke;
+  const [p0, p1, p2, p3] = points;
+  const q0 = offsetPoint(p0, normal(curveEndDirection(points, false)), halfWidth);
+  const q3 = offsetPoint(p3, normal(curveEndDirection(points, true)), halfWidth);
+  // the far end is measured running backwards, which flips the side the normals are on
+  const startScale = handleScale(halfWidth, p0, p1, p2), endScale = handleScale(-halfWidth, p3, p2, p1);
+  const q1 = {x: q0.x + (p1.x - p0.x) * startScale, y: q0.y + (p1.y - p0.y) * startScale};
+  const q2 = {x: q3.x + (p2.x - p3.x) * endScale, y: q3.y + (p2.y - p3.y) * endScale};
+  const offset = [q0, q1, q2, q3];
+  let error = 0;
+  for (const t of [0.25, 0.5, 0.75]) {
+    const d = bezierDerivative(points, t);
+    const length = Math.sqrt(d.x * d.x + d.y * d.y);
+    if (length === 0) continue;
+    const p = bezierPoint(points, t), q = bezierPoint(offset, t);
+    const dx = q.x - (p.x - d.y / length * halfWidth), dy = q.y - (p.y + d.x / length * halfWidth);
+    error = Math.max(error, Math.sqrt(dx * dx + dy * dy));
+  }
+  if (error <= stroke.tolerance || depth >= MAX_OFFSET_DEPTH) {
+    commands.push({type: PathCommand.Type.CUBIC_CURVE, controlPoints: [q1, q2], toPoint: q3});
+    return;
+  }
+  const [left, right] = splitBezier(points, 0.5);
+  offsetCubic(stroke, left, depth + 1, commands);
+  offsetCubic(stroke, right, depth + 1, commands);
+}
+
+// walks the side of the segments on the side of the normals, including the joins but not the caps
+function offsetSide(stroke: Stroke, segments: readonly Segment[], closed: boolean): {startPoint: Point, commands: PathCommand[]} {
+  const first = segments[0];
+  const startPoint = offsetPoint(first.points[0], normal(first.startDirection), stroke.halfWidth);
+  const commands = new Array<PathCommand>();
+  segments.forEach((segment, i) => {
+    const vertex = segment.points[segment.points.length - 1];
+    if (segment.points.length === 2) {
+      commands.push(lineTo(offsetPoint(vertex, normal(segment.endDirection), stroke.halfWidth)));
+    }
+    else {
+      offsetCubic(stroke, segment.points, 0, commands);
+    }
+    if (closed || i < segments.length - 1) {
+      const next = segments[(i + 1) % segments.length];
+      commands.push(...joinCommands(stroke, vertex, segment.endDirection, next.startDirection));
+    }
+  });
+  return {startPoint, commands};
+}
+
+function reverseSegment(segment: Segment): Segment {
+  return {
+    points: segment.points.slice().reverse(),
+    startDirection: negate(segment.endDirection),
+    endDirection: negate(segment.startDirection),
+  };
+}
+
+// SVG draws the caps of zero-length subpaths, with square caps aligned to the axes
+function dotOutline(stroke: Stroke, point: Point): SubPath[] {
+  const { halfWidth } = stroke;
+  switch (stroke.cap) {
+    case 'round': return [{
+      startPoint: {x: point.x + halfWidth, y: point.y},
+      commands: [
+        arcTo(halfWidth, true, {x: point.x - halfWidth, y: point.y}),
+        arcTo(halfWidth, true, {x: point.x + halfWidth, y: point.y}),
+      ],
+      closed: true,
+    }];
+    case 'square': return [{
+      startPoint: {x: point.x - halfWidth, y: point.y - halfWidth},
+      commands: [
+        lineTo({x: point.x + halfWidth, y: point.y - halfWidth}),
+        lineTo({x: point.x + halfWidth, y: point.y + halfWidth}),
+        lineTo({x: point.x - halfWidth, y: point.y + halfWidth}),
+      ],
+      closed: true,
+    }];
+    default: return [];
+  }
+}
+
+function strokeOutline(stroke: Stroke, startPoint: Point, segments: Segment[], closed: boolean): SubPath[] {
+  if (segments.length === 0) return dotOutline(stroke, startPoint);
+  const reversed = segments.map(reverseSegment).reverse();
+  if (closed) {
+    // the outer and inner sides wind in opposite directions, leaving a hole under the nonzero rule
+    const outer = offsetSide(stroke, segments, true);
+    const inner = offsetSide(stroke, reversed, true);
+    return [outer, inner].map(side => ({...side, closed: true}));
+  }
+  const forward = offsetSide(stroke, segments, false);
+  const backward = offsetSide(stroke, reversed, false);
+  const last = segments[segments.length - 1];
+  const endCap = capCommands(stroke, last.points[last.points.length - 1], last.endDirection);
+  const startCap = capCommands(stroke, startPoint, negate(segments[0].startDirection));
+  return [{
+    startPoint: forward.startPoint,
+    commands: [...forward.commands, ...endCap, ...backward.commands, ...startCap],
+    closed: true,
+  }];
+}
+
+function commandPoints(startPoint: Point, command: CurveCommand): Point[] {
+  switch (command.type) {
+    case PathCommand.Type.LINE: {
+      return [startPoint, command.toPoint];
+    }
+    case PathCommand.Type.QUADRATIC_CURVE: {
+      // raised to a cubic, which is exact
+      const [c] = command.controlPoints, p2 = command.toPoint;
+      return [
+        startPoint,
+        {x: startPoint.x + (c.x - startPoint.x) * 2 / 3, y: startPoint.y + (c.y - startPoint.y) * 2 / 3},
+        {x: p2.x + (c.x - p2.x) * 2 / 3, y: p2.y + (c.y - p2.y) * 2 / 3},
+        p2,
+      ];
+    }
+    case PathCommand.Type.CUBIC_CURVE: {
+      return [startPoint, ...command.controlPoints, command.toPoint];
+    }
+  }
+}
+
+// lines and cubics, leaving out any without length
+function subPathSegments(subPath: SubPath<CurveCommand>): Promise<Segment[]> {
+  return from(subPath.commands).pipe(
+    toArray(),
+    map(commands => {
+      const segments = new Array<Segment>();
+      let lastPoint = subPath.startPoint;
+      const addSegment = (command: CurveCommand) => {
+        const points = commandPoints(lastPoint, command);
+        if (points.some(p => p.x !== lastPoint.x || p.y !== lastPoint.y)) {
+          segments.push({
+            points,
+            startDirection: curveEndDirection(points, false),
+            endDirection: curveEndDirection(points, true),
+          });
+        }
+        lastPoint = command.toPoint;
+      };
+      commands.forEach(addSegment);
+      if (subPath.closed) addSegment({type: PathCommand.Type.LINE, toPoint: subPath.startPoint});
+      return segments;
+    }),
+  ).toPromise();
+}
+
+// converts each subpath into closed subpaths that cover the same area as its stroke when filled
+// with the nonzero rule. the sides of curves are cubics within the tolerance of the true offset
+// curves, and round joins and caps are drawn with arcs
+export function strokeSubPaths(options: StrokeOptions = {}): OperatorFunction<SubPath, SubPath> {
+  const { width = 1, join = 'miter', cap = 'butt', miterLimit = 4, tolerance = 0.25 } = options;
+  if (!(width >= 0) || !isFinite(width)) throw new Error('invalid stroke width: ' + width);
+  if (!(miterLimit >= 1)) throw new Error('invalid miter limit: ' + miterLimit);
+  if (!(tolerance > 0)) throw new Error('invalid tolerance: ' + tolerance);
+  const stroke: Stroke = {halfWidth: width / 2, join, cap, miterLimit, tolerance};
+  return input => input.pipe(
+    curvifySubPaths(),
+    concatMap(async subPath => {
+      if (width === 0) return [];
+      // whether it is closed is only known once the commands are in
+      const segments = await subPathSegments(subPath);
+      return strokeOutline(stroke, subPath.startPoint, segments, !!subPath.closed);
+    }),
+    concatMap(outlines => outlines),
+  );
+}
@@ -0,0 +1,183 @@
+import { TestHarness } from 'zora';
+import { of, from } from 'rxjs';
+import { toArray } from 'rxjs/operators';
+import {
+  fromSVGDocument, toSVGDocument, toSVGPathData, fromSVGPathData, rectangle, oval, star, Matrix2D, SVGShape,
+} from '../lib/index';
+
+async function importShapes(document: string): Promise<SVGShape[]> {
+  return of(document).pipe( fromSVGDocument(), toArray() ).toPromise();
+}
+
+async function pathData(shape: SVGShape): Promise<string> {
+  const parts = await from(shape.subPaths).pipe( toSVGPathData({precision: 3}), toArray() ).toPromise();
+  return parts.join(' ');
+}
+
+export default (t: TestHarness) => {
+
+  t.test('fromSVGDocument', async t => {
+
+    const shapes = await importShapes(`<?xml version="1.0" encoding="UTF-8"?>
+      <!DOCTYPE svg PUBLIC "-//W3C//DTD SVG 1.1//EN" "http://www.w3.org/Graphics/SVG/1.1/DTD/svg11.dtd">
+      <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 100 100">
+        <!-- <rect width="1" height="1"/> -->
+        <path id="triangle" d="M0,0 L10,0 L10,10 Z" fill="red" fill-rule="evenodd"/>
+        <rect x="1" y="2" width="3" height="4"/>
+        <rect width="10" height="20" rx="2"/>
+        <rect width="10" height="0"/>
+        <circle cx="5" cy="5" r="5"/>
+        <ellipse cx="0" cy="0" rx="2" ry="1"/>
+        <line x1="0" y1="0" x2="1in" y2="2"/>
+        <polyline points="0,0 1,1 2,0 3"/>
+        <polygon points="0 0 1 1 2 0"/>
+        <title>not drawn &amp; skipped</title>
+      </svg>`);
+    t.eq(shapes.map(shape => shape.element), ['path', 'rect', 'rect', 'circle', 'ellipse', 'line', 'polyline', 'polygon']);
+    t.eq(await Promise.all(shapes.map(pathData)), [
+      'M0,0 L10,0 L10,10 Z',
+      'M1,2 L4,2 L4,6 L1,6 Z',
+      'M0,2 C0,0.896 0.896,0 2,0 L8,0 C9.104,0 10,0.896 10,2 L10,18 C10,19.104 9.104,20 8,20 L2,20 C0.896,20 0,19.104 0,18 Z',
+      'M5,0 C7.76,0 10,2.24 10,5 C10,7.76 7.76,10 5,10 C2.24,10 0,7.76 0,5 C0,2.24 2.24,0 5,0 Z',
+      'M0,-1 C1.104,-1 2,-0.552 2,0 C2,0.552 1.104,1 0,1 C-1.104,1 -2,0.552 -2,0 C-2,-0.552 -1.104,-1 0,-1 Z',
+      'M0,0 L96,2',
+      'M0,0 L1,1 L2,0',
+      'M0,0 L1,1 L2,0 Z',
+    ]);
+    t.eq(shapes[0], {id: 'triangle', element: 'path', subPaths: shapes[0].subPaths, fill: 'red', fillRule: 'evenodd'}, 'annotations');
+    t.eq(shapes[1].fillRule, 'nonzero', 'default fill rule');
+    t.eq(shapes[1].fill, undefined);
+
+    const [nested, scaled] = await importShapes(`
+      <svg xmlns="http://www.w3.org/2000/svg" fill-rule="evenodd">
+        <g transform="translate(10, 20)" stroke="blue" stroke-width="2" style="stroke-linejoin: round">
+          <g transform="rotate(90)">
+            <path d="M0,0 L10,0" stroke-linecap="square" stroke-miterlimit="3"/>
+          </g>
+          <rect width="1" height="1" transform="scale(3)" style="fill-rule: nonzero; stroke: inherit"/>
+        </g>
+      </svg>`);
+    t.eq(await pathData(nested), 'M10,20 L10,30', 'nested transforms');
+    t.eq(nested.fillRule, 'evenodd', 'inherited fill rule');
+    t.eq(nested.stroke, {paint: 'blue', width: 2, join: 'round', cap: 'square', miterLimit: 3}, 'stroke');
+    t.eq(await pathData(scaled), 'M10,20 L13,20 L13,23 L10,23 Z');
+    t.eq(scaled.fillRule, 'nonzero', 'style attribute');
+    t.eq(scaled.stroke && scaled.stroke.width, 6, 'stroke width scaled with the shape');
+
+    const [unsupported, negative, square] = await importShapes(`
+      <svg xmlns="http://www.w3.org/2000/svg">
+        <path d="M0,0 L10,0" stroke="red" stroke-linejoin="miter-clip" stroke-linecap="triangle"/>
+        <rect width="10" height="20" rx="-1" ry="2"/>
+        <rect width="1" height="1" rx="-1"/>
+      </svg>`);
+    t.eq(unsupported.stroke, {paint: 'red'}, 'unsupported joins and caps are left out');
+    t.eq(
+      await pathData(negative),
+      'M0,2 C0,0.896 0.896,0 2,0 L8,0 C9.104,0 10,0.896 10,2 L10,18 C10,19.104 9.104,20 8,20 L2,20 C0.896,20 0,19.104 0,18 Z',
+      'negative radius taken from the other',
+    );
+    t.eq(await pathData(square), 'M0,0 L1,0 L1,1 L0,1 Z', 'negative radius left out');
+
+    const used = await importShapes(`
+      <svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink">
+        <defs>
+          <path id="dash" d="M0,0 L5,0"/>
+          <symbol id="mark"><circle r="1" fill="inherit"/><use href="#mark"/></symbol>
+        </defs>
+        <use xlink:href="#dash" x="10" y="10" transform="scale(2)"/>
+        <use href="#mark" x="5" fill="green"/>
+        <use href="#missing"/>
+        <g display="none"><path d="M0,0 L1,1"/></g>
+      </svg>`);
+    t.eq(used.map(shape => shape.id), ['dash', undefined], 'referenced shapes drawn once each');
+    t.eq(await pathData(used[0]), 'M20,20 L30,20', 'use position and transform');
+    t.eq(used[1].fill, 'green', 'style from the use element');
+    t.eq(await pathData(used[1]), 'M5,-1 C5.552,-1 6,-0.552 6,0 C6,0.552 5.552,1 5,1 C4.448,1 4,0.552 4,0 C4,-0.552 4.448,-1 5,-1 Z');
+
+    const chunked = await from(['<svg xmlns="http://www.w3.org/2000/svg"><pa', 'th d="M1,1 L2,2"/></svg>']).pipe( fromSVGDocument(), toArray() ).toPromise();
+    t.eq(chunked.length, 1, 'document in chunks');
+
+    const failure = async (document: string) => {
+      try {
+        await importShapes(document);
+        return false;
+      }
+      catch (e) {
+        return true;
+      }
+    };
+    t.ok(await failure('<svg><path d="M0,0"></svg>'), 'unclosed element');
+    t.ok(await failure('<html></html>'), 'not svg');
+
+    // percentages are of the viewBox, or of the size of the svg element without one
+    const relative = await importShapes(`
+      <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 200 100" width="400" height="400">
+        <rect width="100%" height="50%" fill="#fff"/>
+        <circle cx="50%" cy="50%" r="10%"/>
+      </svg>`);
+    t.eq(await pathData(relative[0]), 'M0,0 L200,0 L200,50 L0,50 Z', 'percentages of the viewBox');
+    // radii are percentages of the diagonal over the square root of two, about 158.1 here
+    t.ok((await pathData(relative[1])).startsWith('M100,34.189 '), 'circle percentages');
+    const sized = await importShapes('<svg xmlns="http://www.w3.org/2000/svg" width="10in" height="20"><rect width="50%" height="50%"/></svg>');
+    t.eq(await pathData(sized[0]), 'M0,0 L480,0 L480,10 L0,10 Z', 'percentages of the svg size');
+
+    // what cannot be read is left out, rather than failing the whole document
+    const unusable = await importShapes(`
+      <svg xmlns="http://www.w3.org/2000/svg">
+        <rect width="10%" height="1"/>
+        <rect width="2em" height="1"/>
+        <circle r="x"/>
+        <path d="M0 0 L10 10 L 5"/>
+        <path d="M0,0 L1,1" stroke="red" stroke-width="1em"/>
+      </svg>`);
+    t.eq(unusable.map(shape => shape.element), ['path', 'path'], 'shapes with lengths that cannot be used');
+    t.eq(await pathData(unusable[0]), 'M0,0 L10,10', 'path data up to the error');
+    t.eq(unusable[1].stroke, {paint: 'red'}, 'stroke width that cannot be used');
+
+  });
+
+  t.test('toSVGDocument', async t => {
+
+    const document = await from<SVGShape[]>([
+      {id: 'a<b', subPaths: [rectangle({x: 0, y: 0, width: 10, height: 20})], fill: 'red'},
+      {subPaths: [rectangle({x: 0, y: 0, width: 10, height: 20, radius: [2, 3]})], stroke: {paint: 'blue', width: 2, join: 'round'}},
+      {subPaths: [oval({centerX: 5, centerY: 5, radius: 5})], transform: Matrix2D.translate(100, 0)},
+      {subPaths: [oval({centerX: 5, centerY: 5, radiusX: 5, radiusY: 2})]},
+      {subPaths: [star({centerX: 0, centerY: 0, points: 3, innerRadius: 2, outerRadius: 4})], fillRule: 'evenodd'},
+      {subPaths: []},
+    ]).pipe( toSVGDocument({precision: 3, padding: 1}) ).toPromise();
+    t.eq(document, [
+      '<svg xmlns="http://www.w3.org/2000/svg" width="115.464" height="27" viewBox="-4.464 -5 115.464 27">',
+      '  <rect id="a&lt;b" x="0" y="0" width="10" height="20" fill="red"/>',
+      '  <rect x="0" y="0" width="10" height="20" rx="2" ry="3" stroke="blue" stroke-width="2" stroke-linejoin="round"/>',
+      '  <circle cx="5" cy="5" r="5" transform="matrix(1 0 0 1 100 0)"/>',
+      '  <ellipse cx="5" cy="5" rx="5" ry="2"/>',
+      '  <path d="M0,-4 L1.732,-1 L3.464,2 L0,2 L-3.464,2 L-1.732,-1 Z" fill-rule="evenodd"/>',
+      '</svg>',
+      '',
+    ].join('\n'));
+
+    const shapes = await of(document).pipe( fromSVGDocument(), toArray() ).toPromise();
+    t.eq(shapes.map(shape => shape.element), ['rect', 'rect', 'circle', 'ellipse', 'path'], 'read back');
+    t.eq(await pathData(shapes[2]), 'M105,0 C107.76,0 110,2.24 110,5 C110,7.76 107.76,10 105,10 C102.24,10 100,7.76 100,5 C100,2.24 102.24,0 105,0 Z');
+
+    const subPaths = await of('M0,0 L10,0 L10,10 L0,10 Z M2,2 L8,2 L8,8 L2,8 Z').pipe( fromSVGPathData(), toArray() ).toPromise();
+    const paths = await of<SVGShape>({subPaths}, {subPaths: [rectangle({x: 1, y: 1, width: 1, height: 1})]}).pipe(
+      toSVGDocument({basicShapes: false, minify: true}),
+    ).toPromise();
+    t.eq(paths, [
+      '<svg xmlns="http://www.w3.org/2000/svg" width="10" height="10" viewBox="0 0 10 10">',
+      '  <path d="M0 0 10 0 10 10 0 10ZM2 2 8 2 8 8 2 8Z"/>',
+      '  <path d="M1 1 2 1 2 2 1 2Z"/>',
+      '</svg>',
+      '',
+    ].join('\n'), 'paths only');
+
+    t.eq(await of<SVGShape>().pipe( toSVGDocument() ).toPromise(), '<svg xmlns="http://www.w3.org/2000/svg" width="0" height="0" viewBox="0 0 0 0">\n</svg>\n', 'no shapes');
+
+    t.throws(() => toSVGDocument({padding: -1}));
+    t.throws(() => toSVGDocument({precision: -1}));
+
+  });
+
+};
@@ -0,0 +1,513 @@
+
+import { OperatorFunction, Observable, of, from, EMPTY, forkJoin, throwError } from 'rxjs';
+import { map, concatMap, toArray, filter, catchError } from 'rxjs/operators';
+import {
+  PathCommand, SubPath, FillRule, SVGPathDataOptions, SVGPathDataError, fromSVGPathData, toSVGPathData,
+  rectangle, oval, line, polygon, polyline,
+} from './index';
+import { Matrix2D, transformSubPaths } from './matrix';
+import { BoundingBox, boundingBox } from './bounds';
+import { StrokeLineJoin, StrokeLineCap } from './stroke';
+
+export namespace SVGShape {
+  // named as in StrokeOptions, so it can be passed straight to strokeSubPaths()
+  export interface Stroke {
+    readonly paint: string;
+    readonly width?: number;
+    readonly join?: StrokeLineJoin;
+    readonly cap?: StrokeLineCap;
+    readonly miterLimit?: number;
+  }
+}
+
+// the subpaths drawn by one element, with how they are painted
+export interface SVGShape {
+  readonly id?: string;
+  // the name of the element the shape was read from, e.g. 'path' or 'rect'
+  readonly element?: string;
+  readonly subPaths: readonly SubPath[];
+  // as given in the document, where leaving it out means black
+  readonly fill?: string;
+  readonly fillRule?: FillRule;
+  readonly stroke?: SVGShape.Stroke;
+  // applied to the subpaths when drawn. fromSVGDocument() applies transforms to the subpaths instead
+  readonly transform?: Matrix2D;
+}
+
+interface XMLElement {
+  readonly name: string;
+  readonly attributes: Readonly<Record<string, string>>;
+  readonly children: XMLElement[];
+}
+
+const ENTITIES: Record<string, string> = {amp: '&', lt: '<', gt: '>', quot: '"', apos: "'"};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[a-zA-Z]+);/g, (entity, name: string) => {
+    if (name[0] === '#') {
+      return String.fromCodePoint(name[1] === 'x' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10));
+    }
+    return name in ENTITIES ? ENTITIES[name] : entity;
+  });
+}
+
+// only as much XML as SVG documents need: elements and attributes, with text, comments, CDATA sections,
+// processing instructions and the doctype all skipped. namespace prefixes are dropped from element names
+function parseXML(text: string): XMLElement {
+  const root: XMLElement = {name: '', attributes: {}, children: []};
+  const open = [root];
+  const TAG = /<([^\s/>]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/y;
+  const ATTRIBUTE = /([^\s=/>]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+  let offset = 0;
+  const skipPast = (end: string) => {
+    const index = text.indexOf(end, offset);
+    if (index === -1) throw new Error('invalid XML: unterminated ' + text.slice(offset, offset + 10));
+    offset = index + end.length;
+  };
+  while (true) {
+    const next = text.indexOf('<', offset);
+    if (next === -1) break;
+    offset = next;
+    if (text.startsWith('<!--', offset)) {
+      skipPast('-->');
+    }
+    else if (text.startsWith('<![CDATA[', offset)) {
+      skipPast(']]>');
+    }
+    else if (text.startsWith('<?', offset)) {
+      skipPast('?>');
+    }
+    else if (text.startsWith('<!', offset)) {
+      // a doctype may have an internal subset in brackets, with more markup inside
+      const bracket = text.indexOf('[', offset), end = text.indexOf('>', offset);
+      if (bracket !== -1 && bracket < end) skipPast(']');
+      skipPast('>');
+    }
+    else if (text.startsWith('</', offset)) {
+      const end = text.indexOf('>', offset);
+      const name = text.slice(offset + 2, end).trim().replace(/^.*:/, '');
+      if (end === -1 || open.length === 1 || open[open.length - 1].name !== name) {
+        throw new Error('invalid XML: unexpected ' + text.slice(offset, end + 1));
+      }
+      open.pop();
+      offset = end + 1;
+    }
+    else {
+      TAG.lastIndex = offset;
+      const match = TAG.exec(text);
+      if (!match) throw new Error('invalid XML: ' + text.slice(offset, offset + 20));
+      const attributes: Record<string, string> = {};
+      ATTRIBUTE.lastIndex = 0;
+      for (let attribute = ATTRIBUTE.exec(match[2]); attribute; attribute = ATTRIBUTE.exec(match[2])) {
+        attributes[attribute[1]] = decodeEntities(attribute[2] ?? attribute[3]);
+      }
+      const element = {name: match[1].replace(/^.*:/, ''), attributes, children: []};
+      open[open.length - 1].children.push(element);
+      if (!match[3]) open.push(element);
+      offset = TAG.lastIndex;
+    }
+  }
+  if (open.length > 1) throw new Error('invalid XML: unclosed ' + open[open.length - 1].name);
+  if (root.children.length !== 1) throw new Error('invalid XML: expecting one root element');
+  return root.children[0];
+}
+
+const UNIT_SIZES: Record<string, number> = {'': 1, px: 1, in: 96, cm: 96 / 2.54, mm: 96 / 25.4, pt: 4 / 3, pc: 16};
+
+// the size of the outermost svg element's viewBox, or failing that its width and height, which percentages
+// are resolved against. NaN where the document does not give it
+interface Viewport {
+  readonly width: number;
+  readonly height: number;
+}
+
+// a length in user units, with percentages taken of the reference length. lengths that cannot be used, such
+// as ones in em or malformed ones, are NaN, and left out ones undefined
+function parseLength(value: string | undefined, reference = NaN): number | undefined {
+  if (value === undefined || value.trim() === '') return undefined;
+  const match = value.trim().match(/^([+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?)([a-z]*|%)$/);
+  if (!match) return NaN;
+  if (match[2] === '%') return +match[1] / 100 * reference;
+  return match[2] in UNIT_SIZES ? +match[1] * UNIT_SIZES[match[2]] : NaN;
+}
+
+function documentViewport(root: XMLElement): Viewport {
+  const viewBox = (root.attributes.viewBox || '').trim().split(/\s*,\s*|\s+/).map(Number);
+  if (viewBox.length === 4 && viewBox.every(isFinite) && viewBox[2] > 0 && viewBox[3] > 0) {
+    return {width: viewBox[2], height: viewBox[3]};
+  }
+  return {width: parseLength(root.attributes.width) ?? NaN, height: parseLength(root.attributes.height) ?? NaN};
+}
+
+// what percentages of lengths that are neither horizontal nor vertical, such as radii of circles, are taken of
+const diagonal = (viewport: Viewport) => Math.sqrt((viewport.width * viewport.width + viewport.height * viewport.height) / 2);
+
+function parsePoints(value = ''): PathCommand.Point[] {
+  const numbers = value.trim() === '' ? [] : value.trim().split(/\s*,\s*|\s+/).map(Number);
+  const points = new Array<PathCommand.Point>();
+  // an odd number out is left over, as in SVG
+  for (let i = 0; i + 1 < numbers.length; i += 2) {
+    points.push({x: numbers[i], y: numbers[i + 1]});
+  }
+  return points;
+}
+
+// the inherited properties used for painting, from presentation attributes with any style attribute
+// taking priority
+interface PaintStyle {
+  readonly [property: string]: string | undefined;
+}
+
+const PAINT_PROPERTIES = [
+  'fill', 'fill-rule', 'stroke', 'stroke-width', 'stroke-linejoin', 'stroke-linecap', 'stroke-miterlimit',
+];
+
+function elementStyle(element: XMLElement, inherited: PaintStyle): PaintStyle {
+  const declared: Record<string, string> = {};
+  for (const property of [...PAINT_PROPERTIES, 'display']) {
+    if (property in element.attributes) declared[property] = element.attributes[property].trim();
+  }
+  for (const declaration of (element.attributes.style || '').split(';')) {
+    const colon = declaration.indexOf(':');
+    if (colon === -1) continue;
+    declared[declaration.slice(0, colon).trim()] = declaration.slice(colon + 1).replace(/!important/, '').trim();
+  }
+  const style: Record<string, string | undefined> = {...inherited, display: undefined};
+  for (const property of [...PAINT_PROPERTIES, 'display']) {
+    if (property in declared && declared[property] !== 'inherit') style[property] = declared[property];
+  }
+  return style;
+}
+
+const HORIZONTAL_LENGTHS = ['x', 'cx', 'x1', 'x2', 'width', 'rx'];
+const VERTICAL_LENGTHS = ['y', 'cy', 'y1', 'y2', 'height', 'ry'];
+
+// an attribute as a length, with percentages taken of the viewport in the direction the attribute measures
+function attributeLength(element: XMLElement, name: string, viewport: Viewport): number | undefined {
+  const reference = HORIZONTAL_LENGTHS.includes(name) ? viewport.width
+    : VERTICAL_LENGTHS.includes(name) ? viewport.height
+    : diagonal(viewport);
+  return parseLength(element.attributes[name], reference);
+}
+
+// the subpaths drawn by a shape element. a length that cannot be used leaves the element out, and path data
+// is drawn up to any error in it, as SVG does
+function shapeSubPaths(element: XMLElement, viewport: Viewport): Observable<SubPath> {
+  const { attributes } = element;
+  const length = (name: string) => attributeLength(element, name, viewport) ?? 0;
+  switch (element.name) {
+    case 'path': {
+      return of(attributes.d || '').pipe(
+        fromSVGPathData(),
+        catchError(e => e instanceof SVGPathDataError ? EMPTY : throwError(e)),
+      );
+    }
+    case 'rect': {
+      const x = length('x'), y = length('y'), width = length('width'), height = length('height');
+      if (!(isFinite(x) && isFinite(y) && width > 0 && height > 0)) return EMPTY;
+      // either radius stands in for the other when it is left out, negative or cannot be used, and neither
+      // can be more than half the side
+      const radius = (name: string) => {
+        const value = attributeLength(element, name, viewport);
+        return value !== undefined && value >= 0 ? value : undefined;
+      };
+      let rx = radius('rx'), ry = radius('ry');
+      rx = rx ?? ry ?? 0;
+      ry = ry ?? rx;
+      rx = Math.min(rx, width / 2);
+      ry = Math.min(ry, height / 2);
+      return of(rectangle({x, y, width, height, radius: [rx, ry]}));
+    }
+    case 'circle': {
+      const centerX = length('cx'), centerY = length('cy'), radius = length('r');
+      if (!(isFinite(centerX) && isFinite(centerY) && radius > 0)) return EMPTY;
+      return of(oval({centerX, centerY, radius}));
+    }
+    case 'ellipse': {
+      const centerX = length('cx'), centerY = length('cy'), radiusX = length('rx'), radiusY = length('ry');
+      if (!(isFinite(centerX) && isFinite(centerY) && radiusX > 0 && radiusY > 0)) return EMPTY;
+      return of(oval({centerX, centerY, radiusX, radiusY}));
+    }
+    case 'line': {
+      const ends = ['x1', 'y1', 'x2', 'y2'].map(length);
+      if (!ends.every(isFinite)) return EMPTY;
+      const [x1, y1, x2, y2] = ends;
+      return of(line(x1, y1, x2, y2));
+    }
+    case 'polyline':
+    case 'polygon': {
+      const points = parsePoints(attributes.points);
+      if (points.length === 0) return EMPTY;
+      return of(element.name === 'polygon' ? polygon(points) : polyline(points));
+    }
+  }
+  return EMPTY;
+}
+
+// the joins and caps that can be stroked. others, such as miter-clip and arcs from SVG 2, are left out
+const LINE_JOINS: readonly StrokeLineJoin[] = ['miter', 'round', 'bevel'];
+const LINE_CAPS: readonly StrokeLineCap[] = ['butt', 'round', 'square'];
+
+// widths and miter limits that cannot be used are left out
+function shapeStroke(style: PaintStyle, matrix: Matrix2D, viewport: Viewport): SVGShape.Stroke | undefined {
+  const paint = style.stroke;
+  if (!paint || paint === 'none') return undefined;
+  const width = parseLength(style['stroke-width'], diagonal(viewport));
+  const miterLimit = parseLength(style['stroke-miterlimit']);
+  const join = LINE_JOINS.find(value => value === style['stroke-linejoin']);
+  const cap = LINE_CAPS.find(value => value === style['stroke-linecap']);
+  return {
+    paint,
+    // the width is in the coordinates of the element, so it is scaled along with them. this is only
+    // exact for transforms that scale the same way in every direction
+    ...(width === undefined || !isFinite(width) ? {} : {width: width * Math.sqrt(Math.abs(matrix.a * matrix.d - matrix.b * matrix.c))}),
+    ...(join ? {join} : {}),
+    ...(cap ? {cap} : {}),
+    ...(miterLimit === undefined || !isFinite(miterLimit) ? {} : {miterLimit}),
+  };
+}
+
+// offsets that cannot be used are left out
+function elementOffset(element: XMLElement, viewport: Viewport): Matrix2D {
+  const offset = (name: string) => {
+    const value = attributeLength(element, name, viewport);
+    return value !== undefined && isFinite(value) ? value : 0;
+  };
+  return Matrix2D.translate(offset('x'), offset('y'));
+}
+
+const SHAPE_ELEMENTS = ['path', 'rect', 'circle', 'ellipse', 'line', 'polyline', 'polygon'];
+// elements whose children are drawn. others, such as defs, symbol and clipPath, are only drawn through <use>
+const CONTAINER_ELEMENTS = ['svg', 'g', 'a', 'switch'];
+
+// the shapes drawn by an element, in document order
+function elementShapes(
+  element: XMLElement,
+  matrix: Matrix2D,
+  inherited: PaintStyle,
+  ids: ReadonlyMap<string, XMLElement>,
+  viewport: Viewport,
+  using: readonly XMLElement[],
+): Observable<SVGShape> {
+  const style = elementStyle(element, inherited);
+  if (style.display === 'none') return EMPTY;
+  const { attributes } = element;
+  if (attributes.transform) {
+    matrix = Matrix2D.multiply(matrix, Matrix2D.fromSVGTransform(attributes.transform));
+  }
+  const drawChildren = (children: readonly XMLElement[], childMatrix: Matrix2D, childUsing = using) => from(children).pipe(
+    concatMap(child => elementShapes(child, childMatrix, style, ids, viewport, childUsing)),
+  );
+  if (SHAPE_ELEMENTS.includes(element.name)) {
+    const stroke = shapeStroke(style, matrix, viewport);
+    return shapeSubPaths(element, viewport).pipe(
+      transformSubPaths(matrix),
+      toArray(),
+      filter(subPaths => subPaths.length > 0),
+      map((subPaths): SVGShape => ({
+        ...(attributes.id ? {id: attributes.id} : {}),
+        element: element.name,
+        subPaths,
+        ...(style.fill ? {fill: style.fill} : {}),
+        fillRule: style['fill-rule'] === 'evenodd' ? 'evenodd' : 'nonzero',
+        ...(stroke ? {stroke} : {}),
+      })),
+    );
+  }
+  if (element.name === 'use') {
+    const href = attributes.href ?? attributes['xlink:href'] ?? '';
+    const target = href[0] === '#' ? ids.get(href.slice(1)) : undefined;
+    // missing and circular references draw nothing
+    if (!target || using.includes(target)) return EMPTY;
+    const useMatrix = Matrix2D.multiply(matrix, elementOffset(element, viewport));
+    // a symbol is drawn like a group, although its viewBox is not supported
+    if (target.name === 'symbol') return drawChildren(target.children, useMatrix, [...using, target]);
+    return elementShapes(target, useMatrix, style, ids, viewport, [...using, target]);
+  }
+  if (CONTAINER_ELEMENTS.includes(element.name)) {
+    // nested svg elements are only positioned, without any viewBox being applied, and percentages inside
+    // them are still of the outermost viewport
+    const childMatrix = element.name === 'svg' ? Matrix2D.multiply(matrix, elementOffset(element, viewport)) : matrix;
+    return drawChildren(element.children, childMatrix);
+  }
+  return EMPTY;
+}
+
+
+function elementIds(element: XMLElement, ids = new Map<string, XMLElement>()): Map<string, XMLElement> {
+  if (element.attributes.id && !ids.has(element.attributes.id)) ids.set(element.attributes.id, element);
+  for (const child of element.children) elementIds(child, ids);
+  return ids;
+}
+
+// reads the shapes drawn by an SVG document, given as one or more chunks of text. transforms are applied
+// to the subpaths, and <use> elements draw the shapes of what they refer to. styling is only read from
+// attributes, and not from style sheets. elements with lengths that cannot be used are left out, and path
+// data is drawn up to any error in it
+export function fromSVGDocument(): OperatorFunction<string, SVGShape> {
+  return input => input.pipe(
+    toArray(),
+    concatMap(chunks => {
+      const root = parseXML(chunks.join(''));
+      if (root.name !== 'svg') throw new Error('invalid SVG document: root element is ' + root.name);
+      // the outermost svg element sets up the document coordinates rather than being positioned in them
+      const style = elementStyle(root, {}), ids = elementIds(root), viewport = documentViewport(root);
+      return from(root.children).pipe(
+        concatMap(child => elementShapes(child, Matrix2D.IDENTITY, style, ids, viewport, [])),
+      );
+    }),
+  );
+}
+
+export interface SVGDocumentOptions extends SVGPathDataOptions {
+  // space left around the shapes in the viewBox
+  padding?: number;
+  // write a subpath made the way rectangle() or oval() make them as a rect, circle or ellipse element
+  basicShapes?: boolean;
+}
+
+type CollectedSubPath = SubPath & {readonly commands: readonly PathCommand[]};
+
+function collectSubPaths(subPaths: readonly SubPath[]): Observable<CollectedSubPath[]> {
+  return from(subPaths).pipe(
+    concatMap(subPath => from(subPath.commands).pipe(
+      toArray(),
+      map(commands => ({startPoint: subPath.startPoint, commands, closed: subPath.closed})),
+    )),
+    toArray(),
+  );
+}
+
+function sameCommands(a: readonly PathCommand[], b: readonly PathCommand[], epsilon: number): boolean {
+  const near = (p: PathCommand.Point, q: PathCommand.Point) => Math.abs(p.x - q.x) <= epsilon && Math.abs(p.y - q.y) <= epsilon;
+  return a.length === b.length && a.every((command, i) => {
+    const other = b[i];
+    if (command.type !== other.type || !near(command.toPoint, other.toPoint)) return false;
+    if (command.type === PathCommand.Type.ARC || other.type === PathCommand.Type.ARC) return false;
+    if (other.type === PathCommand.Type.LINE || command.type === PathCommand.Type.LINE) return true;
+    return command.controlPoints.every((p, j) => near(p, other.controlPoints[j]));
+  });
+}
+
+// the attributes of a rect, circle or ellipse element that draws the same thing as the subpath, found by
+// building the rectangle() or oval() it would have come from and checking they match
+function basicShape(subPath: CollectedSubPath): [string, [string, number][]] | null {
+  const { startPoint, commands } = subPath;
+  if (!subPath.closed || commands.length === 0) return null;
+  const points = [startPoint];
+  for (const command of commands) {
+    if (command.type === PathCommand.Type.ARC) return null;
+    if (command.type !== PathCommand.Type.LINE) points.push(...command.controlPoints);
+    points.push(command.toPoint);
+  }
+  const x1 = Math.min(...points.map(p => p.x)), x2 = Math.max(...points.map(p => p.x));
+  const y1 = Math.min(...points.map(p => p.y)), y2 = Math.max(...points.map(p => p.y));
+  const width = x2 - x1, height = y2 - y1;
+  if (!(width > 0 && height > 0)) return null;
+  const epsilon = Math.max(width, height) * 1e-9;
+  const matches = (built: SubPath) => (
+    Math.abs(built.startPoint.x - startPoint.x) <= epsilon && Math.abs(built.startPoint.y - startPoint.y) <= epsilon
+    && sameCommands(built.commands as PathCommand[], commands, epsilon)
+  );
+  const rx = commands[0].type === PathCommand.Type.CUBIC_CURVE ? commands[0].toPoint.x - x1 : 0;
+  const ry = startPoint.y - y1;
+  if (matches(rectangle({x: x1, y: y1, width, height, radius: [rx, ry]}))) {
+    const radii: [string, number][] = rx === 0 && ry === 0 ? [] : rx === ry ? [['rx', rx]] : [['rx', rx], ['ry', ry]];
+    return ['rect', [['x', x1], ['y', y1], ['width', width], ['height', height], ...radii]];
+  }
+  const centerX = x1 + width / 2, centerY = y1 + height / 2;
+  if (matches(oval({centerX, centerY, radiusX: width / 2, radiusY: height / 2}))) {
+    if (width === height) return ['circle', [['cx', centerX], ['cy', centerY], ['r', width / 2]]];
+    return ['ellipse', [['cx', centerX], ['cy', centerY], ['rx', width / 2], ['ry', height / 2]]];
+  }
+  return null;
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+// the area covered by a shape once transformed, including the half of any stroke outside it. miters
+// can reach further than this
+function shapeBounds(shape: SVGShape, subPaths: readonly SubPath[]): Observable<BoundingBox> {
+  const matrix = shape.transform || Matrix2D.IDENTITY;
+  const scale = Math.sqrt(Math.abs(matrix.a * matrix.d - matrix.b * matrix.c));
+  const margin = shape.stroke ? (shape.stroke.width ?? 1) * scale / 2 : 0;
+  return from(subPaths).pipe(
+    transformSubPaths(matrix),
+    boundingBox(),
+    map(box => ({x: box.x - margin, y: box.y - margin, width: box.width + margin * 2, height: box.height + margin * 2})),
+  );
+}
+
+// writes the shapes as a standalone SVG document, with a viewBox around all of them, emitted on completion.
+// shapes with no subpaths are left out
+export function toSVGDocument(options: SVGDocumentOptions = {}): OperatorFunction<SVGShape, string> {
+  const { padding = 0, basicShapes = true, precision, minify = false } = options;
+  if (!(padding >= 0 && isFinite(padding))) throw new Error('invalid padding: ' + padding);
+  // checking the options now rather than on subscribing
+  const writePathData = toSVGPathData(options);
+  const scale = precision === undefined ? 1 : Math.pow(10, precision);
+  const formatNumber = (n: number) => String(precision === undefined ? n : Math.round(n * scale) / scale || 0);
+
+  const shapeElement = (shape: SVGShape, subPaths: CollectedSubPath[]): Observable<string> => {
+    const attributes = new Array<[string, string]>();
+    if (shape.id !== undefined) attributes.push(['id', shape.id]);
+    const basic = basicShapes && subPaths.length === 1 ? basicShape(subPaths[0]) : null;
+    const geometry: Observable<[string, [string, string][]]> = basic
+      ? of([basic[0], basic[1].map(([name, value]): [string, string] => [name, formatNumber(value)])])
+      : from(subPaths).pipe(
+        writePathData,
+        toArray(),
+        // minified parts already start with any separator they need
+        map((parts): [string, [string, string][]] => ['path', [['d', parts.join(minify ? '' : ' ')]]]),
+      );
+    return geometry.pipe(
+      map(([name, geometryAttributes]) => {
+        attributes.push(...geometryAttributes);
+        if (shape.fill !== undefined) attributes.push(['fill', shape.fill]);
+        // the fill rule makes no difference to the basic shapes
+        if (shape.fillRule === 'evenodd' && name === 'path') attributes.push(['fill-rule', 'evenodd']);
+        const { stroke } = shape;
+        if (stroke) {
+          attributes.push(['stroke', stroke.paint]);
+          if (stroke.width !== undefined) attributes.push(['stroke-width', formatNumber(stroke.width)]);
+          if (stroke.join) attributes.push(['stroke-linejoin', stroke.join]);
+          if (stroke.cap) attributes.push(['stroke-linecap', stroke.cap]);
+          if (stroke.miterLimit !== undefined) attributes.push(['stroke-miterlimit', formatNumber(stroke.miterLimit)]);
+        }
+        const { transform } = shape;
+        if (transform) {
+          const { a, b, c, d, e, f } = transform;
+          attributes.push(['transform', 'matrix(' + [a, b, c, d, e, f].map(formatNumber).join(' ') + ')']);
+        }
+        return '<' + name + attributes.map(([key, value]) => ' ' + key + '="' + escapeAttribute(value) + '"').join('') + '/>';
+      }),
+    );
+  };
+
+  return input => input.pipe(
+    concatMap(shape => collectSubPaths(shape.subPaths).pipe(
+      filter(subPaths => subPaths.length > 0),
+      concatMap(subPaths => forkJoin([shapeElement(shape, subPaths), shapeBounds(shape, subPaths)])),
+    )),
+    toArray(),
+    map(shapes => {
+      let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+      for (const [, box] of shapes) {
+        minX = Math.min(minX, box.x);
+        minY = Math.min(minY, box.y);
+        maxX = Math.max(maxX, box.x + box.width);
+        maxY = Math.max(maxY, box.y + box.height);
+      }
+      if (shapes.length === 0) minX = minY = maxX = maxY = 0;
+      const viewBox = [minX - padding, minY - padding, maxX - minX + padding * 2, maxY - minY + padding * 2].map(formatNumber);
+      return [
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${viewBox[2]}" height="${viewBox[3]}" viewBox="${viewBox.join(' ')}">`,
+        ...shapes.map(([element]) => '  ' + element),
+        '</svg>',
+        '',
+      ].join('\n');
+    }),
+  );
+}
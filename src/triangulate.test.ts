@@ -0,0 +1,94 @@
+import { TestHarness } from 'zora';
+import { of, from, merge } from 'rxjs';
+import { toArray } from 'rxjs/operators';
+import {
+  fromSVGPathData, invertSubPaths, rectangle, oval, triangulateSubPaths, TriangleMesh, FillRule,
+} from '../lib/index';
+
+function meshArea(mesh: TriangleMesh): number {
+  const { xBuffer, yBuffer, indexBuffer } = mesh;
+  const x = (i: number) => xBuffer.data[xBuffer.offset + i * xBuffer.stride];
+  const y = (i: number) => yBuffer.data[yBuffer.offset + i * yBuffer.stride];
+  let area = 0;
+  for (let i = 0; i < indexBuffer.data.length; i += 3) {
+    const a = indexBuffer.data[i], b = indexBuffer.data[i+1], c = indexBuffer.data[i+2];
+    area += Math.abs((x(b) - x(a)) * (y(c) - y(a)) - (x(c) - x(a)) * (y(b) - y(a))) / 2;
+  }
+  return area;
+}
+
+export default (t: TestHarness) => {
+
+  t.test('triangulateSubPaths', async t => {
+
+    const triangulate = async (pathData: string, fillRule: FillRule) => {
+      const meshes = await of(pathData).pipe(
+        fromSVGPathData(),
+        triangulateSubPaths({fillRule}),
+        toArray(),
+      ).toPromise();
+      t.eq(meshes.length, 1);
+      return meshes[0];
+    };
+
+    const square = await triangulate('M0,0 L100,0 L100,100 L0,100 Z', 'nonzero');
+    t.eq(square.xBuffer.stride, 2);
+    t.eq(square.yBuffer.offset, 1);
+    t.eq(square.indexBuffer.data.length, 6);
+    t.eq(meshArea(square), 10000);
+
+    const nested = 'M0,0 L100,0 L100,100 L0,100 M25,25 L75,25 L75,75 L25,75';
+    t.eq(meshArea(await triangulate(nested, 'nonzero')), 10000);
+    t.eq(meshArea(await triangulate(nested, 'evenodd')), 7500);
+
+    const nestedReversed = 'M0,0 L100,0 L100,100 L0,100 M25,25 L25,75 L75,75 L75,25';
+    t.eq(meshArea(await triangulate(nestedReversed, 'nonzero')), 7500);
+    t.eq(meshArea(await triangulate(nestedReversed, 'evenodd')), 7500);
+
+    // two triangles wound the same way, overlapping in a diamond of area 1250
+    const overlapping = 'M0,0 L100,0 L50,50 M0,50 L50,0 L100,50';
+    t.eq(meshArea(await triangulate(overlapping, 'nonzero')), 5000 - 1250);
+    t.eq(meshArea(await triangulate(overlapping, 'evenodd')), 5000 - 2500);
+
+    // a pentagram crosses itself five times, around a pentagon that only the nonzero rule fills
+    const corners = [0, 1, 2, 3, 4].map(i => (100 * Math.sin(i * 0.8 * Math.PI)).toFixed(6) + ',' + (-100 * Math.cos(i * 0.8 * Math.PI)).toFixed(6));
+    const pentagram = 'M' + corners.join(' L') + ' Z';
+    const innerRadius = 100 * Math.cos(0.4 * Math.PI) / Math.cos(0.2 * Math.PI);
+    const starArea = 5 * 100 * innerRadius * Math.sin(0.2 * Math.PI), pentagonArea = 2.5 * innerRadius * innerRadius * Math.sin(0.4 * Math.PI);
+    t.ok(Math.abs(meshArea(await triangulate(pentagram, 'nonzero')) - starArea) < 1e-3, 'pentagram, nonzero');
+    t.ok(Math.abs(meshArea(await triangulate(pentagram, 'evenodd')) - (starArea - pentagonArea)) < 1e-3, 'pentagram, evenodd');
+
+    // open subpaths are filled as if closed
+    t.eq(meshArea(await triangulate('M0,0 L100,0 L100,100', 'nonzero')), 5000);
+
+    const cutOut = await merge(
+      of(rectangle({x: 0, y: 0, width: 200, height: 200})),
+      from([oval({centerX: 100, centerY: 100, radius: 50})]).pipe( invertSubPaths() ),
+    ).pipe(
+      triangulateSubPaths({tolerance: 0.01, arrayType: Float32Array, stride: 4}),
+      toArray(),
+    ).toPromise();
+    t.eq(cutOut.length, 1);
+    t.ok(cutOut[0].xBuffer.data instanceof Float32Array);
+    t.eq(cutOut[0].xBuffer.stride, 4);
+    t.ok(Math.abs(meshArea(cutOut[0]) - (40000 - Math.PI * 2500)) < 10, 'area of rectangle with circular hole');
+
+    // many edges at once, which a sweep that looked at every edge for every band would be slow with
+    const zigzag = await of(oval({centerX: 0, centerY: 0, radius: 10000})).pipe(
+      triangulateSubPaths({tolerance: 0.001}),
+      toArray(),
+    ).toPromise();
+    t.ok(Math.abs(meshArea(zigzag[0]) / (Math.PI * 1e8) - 1) < 2e-4, 'area of a finely flattened circle');
+
+    let thrown: any = undefined;
+    try {
+      triangulateSubPaths({tolerance: 0});
+    }
+    catch (e) {
+      thrown = e;
+    }
+    t.notEq(thrown, undefined);
+
+  });
+
+}
@@ -0,0 +1,189 @@
+
+import { OperatorFunction, from } from 'rxjs';
+import { map, concatMap, toArray } from 'rxjs/operators';
+import { PathCommand, SubPath, PackedSubPath, FillRule, FlattenOptions, flattenSubPaths } from './index';
+
+export namespace TriangleMesh {
+  export interface Options extends PackedSubPath.Options, FlattenOptions {
+    fillRule?: FillRule;
+  }
+}
+
+// xBuffer/yBuffer hold the vertices and indexBuffer holds three vertex indices per triangle
+export interface TriangleMesh {
+  xBuffer: PackedSubPath.Buffer;
+  yBuffer: PackedSubPath.Buffer;
+  indexBuffer: PackedSubPath.Buffer;
+}
+
+interface Edge {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+  winding: 1 | -1;
+}
+
+function subPathPolygon(subPath: SubPath<PathCommand.Line>): Promise<PathCommand.Point[]> {
+  return from(subPath.commands).pipe(
+    map(command => command.toPoint),
+    toArray(),
+    map(points => [subPath.startPoint, ...points]),
+  ).toPromise();
+}
+
+function xAtY(edge: Edge, y: number): number {
+  if (y === edge.y0) return edge.x0;
+  if (y === edge.y1) return edge.x1;
+  return edge.x0 + (y - edge.y0) * (edge.x1 - edge.x0) / (edge.y1 - edge.y0);
+}
+
+// every edge is stored top-to-bottom, with the winding recording its original direction
+function polygonEdges(polygons: readonly (readonly PathCommand.Point[])[]): Edge[] {
+  const edges = new Array<Edge>();
+  for (const polygon of polygons) {
+    for (let i = 0; i < polygon.length; i++) {
+      // fills are implicitly closed
+      const a = polygon[i], b = polygon[(i + 1) % polygon.length];
+      if (a.y === b.y) continue;
+      if (a.y < b.y) {
+        edges.push({x0: a.x, y0: a.y, x1: b.x, y1: b.y, winding: 1});
+      }
+      else {
+        edges.push({x0: b.x, y0: b.y, x1: a.x, y1: a.y, winding: -1});
+      }
+    }
+  }
+  return edges;
+}
+
+// the y where two edges cross, if they do at a point inside both
+function crossingY(a: Edge, b: Edge): number | undefined {
+  const adx = a.x1 - a.x0, ady = a.y1 - a.y0;
+  const bdx = b.x1 - b.x0, bdy = b.y1 - b.y0;
+  const denominator = adx * bdy - ady * bdx;
+  if (denominator === 0) return undefined;
+  const t = ((b.x0 - a.x0) * bdy - (b.y0 - a.y0) * bdx) / denominator;
+  const u = ((b.x0 - a.x0) * ady - (b.y0 - a.y0) * adx) / denominator;
+  return t > 0 && t < 1 && u > 0 && u < 1 ? a.y0 + t * ady : undefined;
+}
+
+// the order of edges just below y: by x, then for edges meeting at y by which way they go from there
+function orderBelow(y: number): (a: Edge, b: Edge) => number {
+  return (a, b) => {
+    const ax = xAtY(a, y), bx = xAtY(b, y);
+    if (Math.abs(ax - bx) > 1e-12 * (Math.abs(ax) + Math.abs(bx) + 1)) return ax - bx;
+    return (a.x1 - a.x0) / (a.y1 - a.y0) - (b.x1 - b.x0) / (b.y1 - b.y0);
+  };
+}
+
+// calls band() for each horizontal band in which no edge starts, ends or crosses another, with the edges
+// across it from left to right. the active edges are kept in that order from band to band, so only
+// neighbours are checked for crossings and each band takes time in proportion to the edges across it
+// (plus the few that change places) rather than to all edges
+function sweepBands(edges: readonly Edge[], band: (topY: number, bottomY: number, active: readonly Edge[]) => void) {
+  const pending = [...edges].sort((a, b) => a.y0 - b.y0);
+  const vertexYs = Array.from(new Set(edges.flatMap(edge => [edge.y0, edge.y1]))).sort((a, b) => a - b);
+  let active = new Array<Edge>(), next = 0, vertex = 0;
+  let topY = vertexYs[0];
+  while (vertex < vertexYs.length) {
+    const order = orderBelow(topY);
+    active = active.filter(edge => edge.y1 > topY);
+    // edges that crossed at topY have swapped places, which an insertion sort puts right cheaply
+    for (let i = 1; i < active.length; i++) {
+      const edge = active[i];
+      let j = i;
+      for (; j > 0 && order(active[j - 1], edge) > 0; j--) active[j] = active[j - 1];
+      active[j] = edge;
+    }
+    for (; next < pending.length && pending[next].y0 <= topY; next++) {
+      const edge = pending[next];
+      let low = 0, high = active.length;
+      while (low < high) {
+        const middle = (low + high) >> 1;
+        if (order(active[middle], edge) <= 0) low = middle + 1;
+        else high = middle;
+      }
+      active.splice(low, 0, edge);
+    }
+    while (vertex < vertexYs.length && vertexYs[vertex] <= topY) vertex++;
+    if (vertex === vertexYs.length) break;
+    let bottomY = vertexYs[vertex];
+    for (let i = 0; i + 1 < active.length; i++) {
+      const y = crossingY(active[i], active[i + 1]);
+      if (y !== undefined && y > topY && y < bottomY) bottomY = y;
+    }
+    band(topY, bottomY, active);
+    topY = bottomY;
+  }
+}
+
+export function tessellatePolygons(
+  polygons: readonly (readonly PathCommand.Point[])[],
+  options: TriangleMesh.Options = {},
+): TriangleMesh {
+  const { fillRule = 'nonzero', arrayType = Float64Array, stride = 2 } = options;
+  if (!(stride >= 2) || stride !== Math.floor(stride)) {
+    throw new Error('invalid stride: ' + stride);
+  }
+  const isInside = fillRule === 'evenodd' ? (w: number) => (w & 1) !== 0 : (w: number) => w !== 0;
+  const edges = polygonEdges(polygons);
+  const vertices = new Array<number>();
+  const vertexIndices = new Map<string, number>();
+  const triangles = new Array<number>();
+  const vertex = (x: number, y: number) => {
+    const key = x + ',' + y;
+    let index = vertexIndices.get(key);
+    if (typeof index !== 'number') {
+      index = vertices.length / 2;
+      vertices.push(x, y);
+      vertexIndices.set(key, index);
+    }
+    return index;
+  };
+  const triangle = (a: number, b: number, c: number) => {
+    if (a !== b && b !== c && c !== a) triangles.push(a, b, c);
+  };
+  sweepBands(edges, (topY, bottomY, active) => {
+    let winding = 0;
+    let left: Edge | undefined;
+    for (const edge of active) {
+      const wasInside = isInside(winding);
+      winding += edge.winding;
+      const nowInside = isInside(winding);
+      if (!wasInside && nowInside) {
+        left = edge;
+      }
+      else if (wasInside && !nowInside) {
+        const topLeft = vertex(xAtY(left!, topY), topY);
+        const topRight = vertex(xAtY(edge, topY), topY);
+        const bottomRight = vertex(xAtY(edge, bottomY), bottomY);
+        const bottomLeft = vertex(xAtY(left!, bottomY), bottomY);
+        triangle(topLeft, topRight, bottomRight);
+        triangle(topLeft, bottomRight, bottomLeft);
+      }
+    }
+  });
+  const vertexCount = vertices.length / 2;
+  const data = new arrayType(vertexCount * stride);
+  for (let i = 0; i < vertexCount; i++) {
+    data[i * stride] = vertices[i * 2];
+    data[i * stride + 1] = vertices[i * 2 + 1];
+  }
+  return {
+    xBuffer: {data, offset: 0, stride},
+    yBuffer: {data, offset: 1, stride},
+    indexBuffer: {data: Uint32Array.from(triangles), offset: 0, stride: 1},
+  };
+}
+
+// the fill rule applies across all subpaths of the stream, so a single mesh is emitted on completion
+export function triangulateSubPaths(options: TriangleMesh.Options = {}): OperatorFunction<SubPath, TriangleMesh> {
+  const flatten = flattenSubPaths(options);
+  return input => input.pipe(
+    flatten,
+    concatMap(subPathPolygon),
+    toArray(),
+    map(polygons => tessellatePolygons(polygons, options)),
+  );
+}
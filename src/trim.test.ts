@@ -0,0 +1,83 @@
+import { TestHarness } from 'zora';
+import { of, from, OperatorFunction } from 'rxjs';
+import { toArray } from 'rxjs/operators';
+import {
+  fromSVGPathData, toSVGPathData, trimSubPaths, dashSubPaths, measurePath, measureSubPaths, SubPath,
+} from '../lib/index';
+
+async function apply(pathData: string, operator: OperatorFunction<SubPath, SubPath>): Promise<string> {
+  const parts = await of(pathData).pipe( fromSVGPathData(), operator, toSVGPathData(), toArray() ).toPromise();
+  return parts.join(' ');
+}
+
+async function measureAfter(pathData: string, operator: OperatorFunction<SubPath, SubPath>) {
+  return of(pathData).pipe( fromSVGPathData(), operator, measurePath() ).toPromise();
+}
+
+const near = (a: number, b: number, epsilon = 1e-6) => Math.abs(a - b) < epsilon;
+
+export default (t: TestHarness) => {
+
+  t.test('trimSubPaths', async t => {
+
+    const square = 'M0,0 L10,0 L10,10 L0,10 Z';
+    t.eq(await apply(square, trimSubPaths(5, 25)), 'M5,0 L10,0 L10,10 L5,10');
+    t.eq(await apply(square, trimSubPaths(25, 40)), 'M5,10 L0,10 L0,0');
+    t.eq(await apply(square, trimSubPaths(0.25, 0.5, {fractions: true})), 'M10,0 L10,10');
+    t.eq(await apply(square, trimSubPaths(-10, 100)), square, 'whole subpath stays closed');
+    t.eq(await apply(square, trimSubPaths(20, 20)), '');
+    t.eq(await apply(square, trimSubPaths(30, 20)), '');
+    t.eq(await apply('M0,0 L10,0 M0,10 L10,10', trimSubPaths(5, 15)), 'M5,0 L10,0 M0,10 L5,10', 'across subpaths');
+    t.eq(await apply('M0,0 L10,0 M0,10 L10,10', trimSubPaths(10, 20)), 'M0,10 L10,10');
+
+    // the trimmed curves should follow the original ones exactly
+    for (const pathData of [
+      'M0,0 C150,-40 -50,120 100,80',
+      'M0,0 Q100,100 200,0 T400,0',
+      'M0,0 A40,20 30 1 1 30,10',
+      'M0,0 A50,50 0 0 0 100,0 A20,30 -20 1 1 120,10 Z',
+    ]) {
+      const original = await of(pathData).pipe( fromSVGPathData(), measurePath() ).toPromise();
+      const trimmed = await measureAfter(pathData, trimSubPaths(0.2, 0.7, {fractions: true}));
+      t.ok(near(trimmed.totalLength, original.totalLength / 2, 1e-5), 'trimmed length of ' + pathData);
+      for (const fraction of [0, 0.3, 0.5, 1]) {
+        const a = trimmed.pointAt(fraction), b = original.pointAtLength(original.totalLength * (0.2 + fraction / 2));
+        t.ok(near(a.x, b.x, 1e-5) && near(a.y, b.y, 1e-5), `point at ${fraction} of trimmed ${pathData}`);
+        t.ok(near(a.tangentDegrees, b.tangentDegrees, 1e-3), `tangent at ${fraction} of trimmed ${pathData}`);
+      }
+    }
+
+    const [arc] = await of('M0,0 A50,50 0 1 1 60,0').pipe( fromSVGPathData(), trimSubPaths(0.1, 0.9, {fractions: true}), toArray() ).toPromise();
+    const [arcCommand] = await from(arc.commands).pipe( toArray() ).toPromise();
+    t.eq(arcCommand.type, 'A');
+    t.ok(arcCommand.type === 'A' && arcCommand.largeArcFlag && arcCommand.sweepFlag, 'large arc flag of trimmed arc');
+
+  });
+
+  t.test('dashSubPaths', async t => {
+
+    const line = 'M0,0 L10,0';
+    t.eq(await apply(line, dashSubPaths([3])), 'M0,0 L3,0 M6,0 L9,0');
+    t.eq(await apply(line, dashSubPaths([3, 3], 1)), 'M0,0 L2,0 M5,0 L8,0');
+    t.eq(await apply(line, dashSubPaths([3, 3], -1)), 'M1,0 L4,0 M7,0 L10,0');
+    t.eq(await apply(line, dashSubPaths([3, 3], 13)), 'M0,0 L2,0 M5,0 L8,0');
+    t.eq(await apply(line, dashSubPaths([2, 1, 3])), 'M0,0 L2,0 M3,0 L6,0 M8,0 L9,0');
+    t.eq(await apply(line, dashSubPaths([0, 5])), 'M0,0 M5,0', 'zero-length dashes');
+    t.eq(await apply(line, dashSubPaths([])), line);
+    t.eq(await apply(line, dashSubPaths([0, 0])), line);
+    t.eq(await apply('M0,0 L10,0 L10,10 L0,10 Z', dashSubPaths([15, 5])), 'M0,0 L10,0 L10,5 M10,10 L0,10 L0,5');
+    t.eq(await apply('M0,0 L4,0 M0,10 L4,10', dashSubPaths([3, 3])), 'M0,0 L3,0 M0,10 L3,10', 'pattern restarts for each subpath');
+
+    t.throws(() => dashSubPaths([3, -1]));
+    t.throws(() => dashSubPaths([3, NaN]));
+    t.throws(() => dashSubPaths([3], Infinity));
+
+    const curve = 'M0,0 C150,-40 -50,120 100,80';
+    const original = await of(curve).pipe( fromSVGPathData(), measurePath() ).toPromise();
+    const dashes = await of(curve).pipe( fromSVGPathData(), dashSubPaths([10, 5]), measureSubPaths(), toArray() ).toPromise();
+    t.eq(dashes.length, Math.ceil(original.totalLength / 15));
+    t.ok(dashes.slice(0, -1).every(dash => near(dash.totalLength, 10, 1e-6)), 'dash lengths along a curve');
+
+  });
+
+};
@@ -0,0 +1,125 @@
+
+import { OperatorFunction, of } from 'rxjs';
+import { concatMap } from 'rxjs/operators';
+import { PathCommand, SubPath, PathMeasure, measurePath, measureSubPaths } from './index';
+import { commandGeometry, parameterAtLength, sliceCommand } from './geometry';
+
+export interface TrimOptions {
+  // interpret start and end as fractions of the total length, rather than as lengths
+  fractions?: boolean;
+}
+
+function groupBySubPath(segments: readonly PathMeasure.Segment[]): PathMeasure.Segment[][] {
+  const groups = new Array<PathMeasure.Segment[]>();
+  for (const segment of segments) {
+    const group = groups[groups.length - 1];
+    if (group && group[0].subPathIndex === segment.subPathIndex) {
+      group.push(segment);
+    }
+    else {
+      groups.push([segment]);
+    }
+  }
+  return groups;
+}
+
+// the parts of the measured path between two distances along it, where start < end
+function trimSegments(segments: readonly PathMeasure.Segment[], start: number, end: number): SubPath[] {
+  const subPaths = new Array<SubPath>();
+  for (const group of groupBySubPath(segments)) {
+    const groupStart = group[0].offset;
+    const last = group[group.length - 1];
+    const groupEnd = last.offset + last.length;
+    if (groupStart >= end || groupEnd <= start) continue;
+    if (start <= groupStart && end >= groupEnd) {
+      subPaths.push({
+        startPoint: group[0].startPoint,
+        commands: group.filter(segment => !segment.closing).map(segment => segment.command),
+        closed: last.closing,
+      });
+      continue;
+    }
+    let startPoint: PathCommand.Point | null = null;
+    const commands = new Array<PathCommand>();
+    for (const segment of group) {
+      const segmentEnd = segment.offset + segment.length;
+      if (segment.length === 0) {
+        if (startPoint && segment.offset < end) commands.push(segment.command);
+        continue;
+      }
+      if (segmentEnd <= start || segment.offset >= end) continue;
+      const geometry = commandGeometry(segment.startPoint, segment.command);
+      const t0 = start > segment.offset ? parameterAtLength(geometry, segment.length, start - segment.offset) : 0;
+      const t1 = end < segmentEnd ? parameterAtLength(geometry, segment.length, end - segment.offset) : 1;
+      const slice = sliceCommand(segment.startPoint, segment.command, t0, t1);
+      if (!startPoint) startPoint = slice.startPoint;
+      commands.push(slice.command);
+    }
+    if (startPoint) subPaths.push({startPoint, commands, closed: false});
+  }
+  return subPaths;
+}
+
+// keeps the part of the path between two distances along it, measured across all the subpaths in order,
+// like the trim paths of animation tools. curves are split exactly rather than flattened
+export function trimSubPaths(start: number, end: number, options: TrimOptions = {}): OperatorFunction<SubPath, SubPath> {
+  return input => input.pipe(
+    measurePath(),
+    concatMap(measure => {
+      const scale = options.fractions ? measure.totalLength : 1;
+      const startLength = Math.max(0, start * scale);
+      const endLength = Math.min(measure.totalLength, end * scale);
+      if (!(startLength < endLength)) return [];
+      return trimSegments(measure.segments, startLength, endLength);
+    }),
+  );
+}
+
+function dashMeasure(measure: PathMeasure, dashes: readonly number[], offset: number): SubPath[] {
+  const patternLength = dashes.reduce((a, b) => a + b, 0);
+  let phase = ((offset % patternLength) + patternLength) % patternLength;
+  let index = 0;
+  while (phase > 0 && phase >= dashes[index]) {
+    phase -= dashes[index];
+    index = (index + 1) % dashes.length;
+  }
+  const subPaths = new Array<SubPath>();
+  let position = 0;
+  let remaining = dashes[index] - phase;
+  while (position < measure.totalLength) {
+    const dashEnd = Math.min(measure.totalLength, position + remaining);
+    if (index % 2 === 0) {
+      if (dashEnd > position) {
+        subPaths.push(...trimSegments(measure.segments, position, dashEnd));
+      }
+      else {
+        // zero-length dashes still get caps when stroked
+        const { x, y } = measure.pointAtLength(position);
+        subPaths.push({startPoint: {x, y}, commands: [], closed: false});
+      }
+    }
+    position = dashEnd;
+    index = (index + 1) % dashes.length;
+    remaining = dashes[index];
+  }
+  return subPaths;
+}
+
+// splits each subpath into the dashes drawn by an SVG stroke-dasharray and stroke-dashoffset, with the
+// pattern starting again at the beginning of every subpath
+export function dashSubPaths(pattern: readonly number[], offset = 0): OperatorFunction<SubPath, SubPath> {
+  if (!pattern.every(length => length >= 0 && isFinite(length))) {
+    throw new Error('invalid dash pattern: ' + pattern.join(' '));
+  }
+  if (!isFinite(offset)) {
+    throw new Error('invalid dash offset: ' + offset);
+  }
+  // an odd number of lengths is repeated to make it even
+  const dashes = pattern.length % 2 === 1 ? [...pattern, ...pattern] : pattern.slice();
+  // as with SVG, a pattern adding up to zero draws the path solid
+  if (!dashes.some(length => length > 0)) return input => input;
+  return concatMap(subPath => of(subPath).pipe(
+    measureSubPaths(),
+    concatMap(measure => dashMeasure(measure, dashes, offset)),
+  ));
+}